@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+	"refresh_token_hash" varchar(64) NOT NULL UNIQUE,
+	"previous_refresh_token_hash" varchar(64),
+	"user_agent" varchar(512),
+	"ip_address" varchar(64),
+	"created_at" timestamp with time zone NOT NULL DEFAULT now(),
+	"last_used_at" timestamp with time zone NOT NULL DEFAULT now(),
+	"expires_at" timestamp with time zone NOT NULL,
+	"revoked_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sessions_user_id" ON "sessions" USING btree ("user_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sessions_previous_refresh_token_hash" ON "sessions" USING btree ("previous_refresh_token_hash");
@@ -0,0 +1,8 @@
+CREATE TABLE IF NOT EXISTS "password_reset_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+	"token_hash" varchar(64) NOT NULL UNIQUE,
+	"expires_at" timestamp with time zone NOT NULL,
+	"used_at" timestamp with time zone,
+	"created_at" timestamp with time zone NOT NULL DEFAULT now()
+);
@@ -0,0 +1,7 @@
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "totp_secret" varchar(64);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "totp_enabled_at" timestamp with time zone;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "totp_recovery_codes" jsonb;
+--> statement-breakpoint
+ALTER TABLE "tenants" ADD COLUMN IF NOT EXISTS "require_two_factor" boolean NOT NULL DEFAULT false;
@@ -0,0 +1,9 @@
+CREATE TABLE IF NOT EXISTS "rate_limits" (
+	"key" varchar(255) PRIMARY KEY NOT NULL,
+	"count" integer NOT NULL,
+	"reset_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "failed_login_count" integer NOT NULL DEFAULT 0;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "locked_until" timestamp with time zone;
@@ -0,0 +1 @@
+ALTER TABLE "invites" ADD COLUMN IF NOT EXISTS "unit_role" varchar(32);
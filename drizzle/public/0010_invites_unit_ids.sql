@@ -0,0 +1 @@
+ALTER TABLE "invites" ADD COLUMN IF NOT EXISTS "unit_ids" integer[];
@@ -0,0 +1,29 @@
+ALTER TABLE "tenants" ADD COLUMN IF NOT EXISTS "mail_from_name" varchar(255);
+--> statement-breakpoint
+ALTER TABLE "tenants" ADD COLUMN IF NOT EXISTS "mail_reply_to" varchar(255);
+--> statement-breakpoint
+DO $$ BEGIN
+ CREATE TYPE "public"."email_outbox_status" AS ENUM('pending', 'sent', 'failed');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "email_outbox" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"tenant_id" integer REFERENCES "tenants"("id") ON DELETE CASCADE,
+	"template" varchar(64) NOT NULL,
+	"from_address" varchar(512) NOT NULL,
+	"to_address" varchar(255) NOT NULL,
+	"reply_to" varchar(255),
+	"subject" varchar(512) NOT NULL,
+	"text_body" text NOT NULL,
+	"html_body" text NOT NULL,
+	"status" "email_outbox_status" DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"next_attempt_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"sent_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "email_outbox_status_next_attempt_at" ON "email_outbox" USING btree ("status","next_attempt_at");
@@ -0,0 +1,46 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."job_status" AS ENUM('pending', 'running', 'completed', 'failed');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"tenant_id" integer REFERENCES "tenants"("id") ON DELETE CASCADE,
+	"type" varchar(64) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" "job_status" DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 8 NOT NULL,
+	"last_error" text,
+	"run_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"locked_at" timestamp with time zone,
+	"locked_by" varchar(128),
+	"completed_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "jobs_status_run_at" ON "jobs" USING btree ("status","run_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "jobs_tenant_id_status" ON "jobs" USING btree ("tenant_id","status");
+--> statement-breakpoint
+-- Emails still pending in the outbox were retried by the old sender loop; queue an "email" job for each
+-- (at its next attempt time) so they are delivered by the worker.
+DO $$ BEGIN
+ IF EXISTS (
+  SELECT 1 FROM information_schema.columns
+  WHERE table_schema = 'public' AND table_name = 'email_outbox' AND column_name = 'next_attempt_at'
+ ) THEN
+  INSERT INTO "jobs" ("tenant_id", "type", "payload", "run_at")
+  SELECT o."tenant_id", 'email', jsonb_build_object('outboxId', o."id"), o."next_attempt_at"
+  FROM "email_outbox" o
+  WHERE o."status" = 'pending'
+   AND NOT EXISTS (
+    SELECT 1 FROM "jobs" j WHERE j."type" = 'email' AND (j."payload"->>'outboxId')::int = o."id"
+   );
+ END IF;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "email_outbox" DROP COLUMN IF EXISTS "next_attempt_at";
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "email_outbox_status" ON "email_outbox" USING btree ("status");
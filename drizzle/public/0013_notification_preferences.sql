@@ -0,0 +1,10 @@
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "phone" varchar(32);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "notification_preferences" (
+	"user_id" integer NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+	"event" varchar(64) NOT NULL,
+	"channel" varchar(16) NOT NULL,
+	"enabled" boolean NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "notification_preferences_user_id_event_channel_pk" PRIMARY KEY("user_id","event","channel")
+);
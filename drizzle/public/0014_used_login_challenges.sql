@@ -0,0 +1,8 @@
+CREATE TABLE IF NOT EXISTS "used_login_challenges" (
+	"jti" varchar(64) PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+	"expires_at" timestamp with time zone NOT NULL,
+	"used_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "used_login_challenges_expires_at" ON "used_login_challenges" USING btree ("expires_at");
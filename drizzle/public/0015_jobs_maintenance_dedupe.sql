@@ -0,0 +1,5 @@
+DELETE FROM "jobs" WHERE "type" = 'maintenance' AND "status" = 'pending' AND EXISTS (SELECT 1 FROM "jobs" "other" WHERE "other"."type" = 'maintenance' AND "other"."tenant_id" = "jobs"."tenant_id" AND ("other"."status" = 'running' OR ("other"."status" = 'pending' AND "other"."id" < "jobs"."id")));
+--> statement-breakpoint
+UPDATE "jobs" SET "status" = 'failed', "last_error" = 'Superseded by another maintenance run', "locked_at" = NULL, "locked_by" = NULL WHERE "type" = 'maintenance' AND "status" = 'running' AND EXISTS (SELECT 1 FROM "jobs" "other" WHERE "other"."type" = 'maintenance' AND "other"."tenant_id" = "jobs"."tenant_id" AND "other"."status" = 'running' AND "other"."id" < "jobs"."id");
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "jobs_maintenance_tenant_id" ON "jobs" USING btree ("tenant_id") WHERE "type" = 'maintenance' AND "status" IN ('pending', 'running');
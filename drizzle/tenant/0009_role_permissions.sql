@@ -0,0 +1,8 @@
+CREATE TABLE IF NOT EXISTS "role_permissions" (
+	"role" varchar(32) NOT NULL,
+	"permission" varchar(64) NOT NULL,
+	"allowed" boolean NOT NULL,
+	"updated_by" integer,
+	"updated_at" timestamp with time zone NOT NULL DEFAULT now(),
+	CONSTRAINT "role_permissions_role_permission_pk" PRIMARY KEY("role","permission")
+);
@@ -0,0 +1,15 @@
+CREATE TABLE IF NOT EXISTS "building_staff" (
+	"building_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"created_by" integer,
+	"created_at" timestamp with time zone NOT NULL DEFAULT now(),
+	CONSTRAINT "building_staff_building_id_user_id_pk" PRIMARY KEY("building_id","user_id")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "building_staff" ADD CONSTRAINT "building_staff_building_id_buildings_id_fk" FOREIGN KEY ("building_id") REFERENCES "buildings"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "building_staff_user_id" ON "building_staff" ("user_id");
@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "notifications" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"type" varchar(64) NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"body" text,
+	"entity_type" varchar(64),
+	"entity_id" integer,
+	"read_at" timestamp with time zone,
+	"created_at" timestamp with time zone NOT NULL DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "notifications_user_id_read_at" ON "notifications" ("user_id","read_at");
@@ -0,0 +1,37 @@
+CREATE TABLE IF NOT EXISTS "webhook_subscriptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"url" varchar(2048) NOT NULL,
+	"secret" varchar(128) NOT NULL,
+	"events" text[] NOT NULL,
+	"description" varchar(255),
+	"active" boolean NOT NULL DEFAULT true,
+	"created_by" integer,
+	"created_at" timestamp with time zone NOT NULL DEFAULT now(),
+	"updated_at" timestamp with time zone NOT NULL DEFAULT now()
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ CREATE TYPE "webhook_delivery_status" AS ENUM('pending', 'succeeded', 'failed');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "webhook_deliveries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"subscription_id" integer NOT NULL,
+	"event" varchar(64) NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" "webhook_delivery_status" NOT NULL DEFAULT 'pending',
+	"attempts" integer NOT NULL DEFAULT 0,
+	"response_status" integer,
+	"last_error" text,
+	"delivered_at" timestamp with time zone,
+	"created_at" timestamp with time zone NOT NULL DEFAULT now()
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_subscription_id_webhook_subscriptions_id_fk" FOREIGN KEY ("subscription_id") REFERENCES "webhook_subscriptions"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "webhook_deliveries_subscription_id" ON "webhook_deliveries" ("subscription_id","created_at");
@@ -0,0 +1,17 @@
+DO $$ BEGIN
+ CREATE TYPE "ticket_priority" AS ENUM('low', 'normal', 'high', 'urgent');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ CREATE TYPE "ticket_category" AS ENUM('plumbing', 'electrical', 'lift', 'cleaning', 'common_areas', 'heating_cooling', 'security', 'other');
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "priority" "ticket_priority" DEFAULT 'normal' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "category" "ticket_category";
+--> statement-breakpoint
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "assignee_id" integer;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "tickets_assignee_id" ON "tickets" ("assignee_id");
@@ -0,0 +1,36 @@
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "first_response_at" timestamp with time zone;
+--> statement-breakpoint
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "resolved_at" timestamp with time zone;
+--> statement-breakpoint
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "closed_at" timestamp with time zone;
+--> statement-breakpoint
+-- Best guess for existing tickets: the last update is when they were resolved or closed.
+UPDATE "tickets" SET "resolved_at" = "updated_at" WHERE "status" IN ('resolved', 'closed') AND "resolved_at" IS NULL;
+--> statement-breakpoint
+UPDATE "tickets" SET "closed_at" = "updated_at" WHERE "status" = 'closed' AND "closed_at" IS NULL;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "ticket_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"ticket_id" integer NOT NULL,
+	"actor_id" integer,
+	"type" varchar(32) NOT NULL,
+	"from_value" varchar(64),
+	"to_value" varchar(64),
+	"created_at" timestamp with time zone NOT NULL DEFAULT now()
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ticket_events" ADD CONSTRAINT "ticket_events_ticket_id_tickets_id_fk" FOREIGN KEY ("ticket_id") REFERENCES "tickets"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ticket_events_ticket_id" ON "ticket_events" ("ticket_id","created_at");
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "ticket_sla_targets" (
+	"priority" "ticket_priority" PRIMARY KEY NOT NULL,
+	"first_response_hours" integer NOT NULL,
+	"resolution_hours" integer NOT NULL,
+	"updated_by" integer,
+	"updated_at" timestamp with time zone NOT NULL DEFAULT now()
+);
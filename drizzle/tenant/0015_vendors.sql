@@ -0,0 +1,69 @@
+CREATE TABLE IF NOT EXISTS "vendors" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"trade" varchar(64),
+	"contact_name" varchar(255),
+	"email" varchar(255),
+	"phone" varchar(32),
+	"notes" text,
+	"insurance_document_id" integer,
+	"insurance_expires_at" date,
+	"active" boolean NOT NULL DEFAULT true,
+	"created_at" timestamp with time zone NOT NULL DEFAULT now(),
+	"updated_at" timestamp with time zone NOT NULL DEFAULT now()
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "vendors" ADD CONSTRAINT "vendors_insurance_document_id_documents_id_fk" FOREIGN KEY ("insurance_document_id") REFERENCES "documents"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "vendor_id" integer;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "tickets" ADD CONSTRAINT "tickets_vendor_id_vendors_id_fk" FOREIGN KEY ("vendor_id") REFERENCES "vendors"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "tickets_vendor_id" ON "tickets" ("vendor_id");
+--> statement-breakpoint
+ALTER TABLE "ticket_comments" ALTER COLUMN "user_id" DROP NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "ticket_comments" ADD COLUMN IF NOT EXISTS "vendor_id" integer;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ticket_comments" ADD CONSTRAINT "ticket_comments_vendor_id_vendors_id_fk" FOREIGN KEY ("vendor_id") REFERENCES "vendors"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "ticket_attachments" ADD COLUMN IF NOT EXISTS "vendor_id" integer;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ticket_attachments" ADD CONSTRAINT "ticket_attachments_vendor_id_vendors_id_fk" FOREIGN KEY ("vendor_id") REFERENCES "vendors"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "ticket_vendor_links" (
+	"ticket_id" integer PRIMARY KEY NOT NULL,
+	"vendor_id" integer NOT NULL,
+	"token" varchar(64) NOT NULL,
+	"created_by" integer,
+	"created_at" timestamp with time zone NOT NULL DEFAULT now(),
+	CONSTRAINT "ticket_vendor_links_token_unique" UNIQUE("token")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ticket_vendor_links" ADD CONSTRAINT "ticket_vendor_links_ticket_id_tickets_id_fk" FOREIGN KEY ("ticket_id") REFERENCES "tickets"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ticket_vendor_links" ADD CONSTRAINT "ticket_vendor_links_vendor_id_vendors_id_fk" FOREIGN KEY ("vendor_id") REFERENCES "vendors"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,9 @@
+CREATE INDEX IF NOT EXISTS "tickets_unit_id" ON "tickets" ("unit_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "tickets_created_at_id" ON "tickets" ("created_at","id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "tickets_search" ON "tickets" USING gin (to_tsvector('simple', "title" || ' ' || coalesce("description", '')));
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ticket_comments_ticket_id" ON "ticket_comments" ("ticket_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ticket_comments_search" ON "ticket_comments" USING gin (to_tsvector('simple', "body"));
@@ -0,0 +1,32 @@
+DO $$ BEGIN
+ CREATE TYPE "ticket_visibility" AS ENUM('public', 'internal');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "ticket_comments" ADD COLUMN IF NOT EXISTS "visibility" "ticket_visibility" DEFAULT 'public' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "ticket_comments" ADD COLUMN IF NOT EXISTS "edited_at" timestamp with time zone;
+--> statement-breakpoint
+ALTER TABLE "ticket_comments" ADD COLUMN IF NOT EXISTS "deleted_at" timestamp with time zone;
+--> statement-breakpoint
+ALTER TABLE "ticket_comments" ADD COLUMN IF NOT EXISTS "deleted_by" integer;
+--> statement-breakpoint
+ALTER TABLE "ticket_attachments" ADD COLUMN IF NOT EXISTS "visibility" "ticket_visibility" DEFAULT 'public' NOT NULL;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "ticket_comment_edits" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"comment_id" integer NOT NULL,
+	"editor_id" integer,
+	"previous_body" text NOT NULL,
+	"previous_visibility" "ticket_visibility" NOT NULL,
+	"created_at" timestamp with time zone NOT NULL DEFAULT now()
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ticket_comment_edits" ADD CONSTRAINT "ticket_comment_edits_comment_id_ticket_comments_id_fk" FOREIGN KEY ("comment_id") REFERENCES "ticket_comments"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ticket_comment_edits_comment_id" ON "ticket_comment_edits" ("comment_id");
@@ -0,0 +1,30 @@
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "building_id" integer;
+--> statement-breakpoint
+UPDATE "tickets" SET "building_id" = "units"."building_id" FROM "units" WHERE "tickets"."unit_id" = "units"."id" AND "tickets"."building_id" IS NULL;
+--> statement-breakpoint
+ALTER TABLE "tickets" ALTER COLUMN "building_id" SET NOT NULL;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "tickets" ADD CONSTRAINT "tickets_building_id_buildings_id_fk" FOREIGN KEY ("building_id") REFERENCES "buildings"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "tickets_building_id" ON "tickets" ("building_id");
+--> statement-breakpoint
+ALTER TABLE "tickets" ALTER COLUMN "unit_id" DROP NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "location" varchar(255);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "ticket_upvotes" (
+	"ticket_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"created_at" timestamp with time zone NOT NULL DEFAULT now(),
+	CONSTRAINT "ticket_upvotes_ticket_id_user_id_pk" PRIMARY KEY("ticket_id","user_id")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "ticket_upvotes" ADD CONSTRAINT "ticket_upvotes_ticket_id_tickets_id_fk" FOREIGN KEY ("ticket_id") REFERENCES "tickets"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
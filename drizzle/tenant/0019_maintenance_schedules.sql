@@ -0,0 +1,52 @@
+DO $$ BEGIN
+ CREATE TYPE "maintenance_frequency" AS ENUM('daily', 'weekly', 'monthly', 'yearly');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "maintenance_schedules" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"building_id" integer NOT NULL,
+	"task" varchar(255) NOT NULL,
+	"description" text,
+	"location" varchar(255),
+	"category" "ticket_category",
+	"priority" "ticket_priority" NOT NULL DEFAULT 'normal',
+	"frequency" "maintenance_frequency" NOT NULL,
+	"interval" integer NOT NULL DEFAULT 1,
+	"start_date" date NOT NULL,
+	"next_due_date" date NOT NULL,
+	"lead_days" integer NOT NULL DEFAULT 0,
+	"vendor_id" integer,
+	"assignee_id" integer,
+	"active" boolean NOT NULL DEFAULT true,
+	"created_by" integer NOT NULL,
+	"created_at" timestamp with time zone NOT NULL DEFAULT now(),
+	"updated_at" timestamp with time zone NOT NULL DEFAULT now()
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "maintenance_schedules" ADD CONSTRAINT "maintenance_schedules_building_id_buildings_id_fk" FOREIGN KEY ("building_id") REFERENCES "buildings"("id") ON DELETE CASCADE ON UPDATE NO ACTION;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "maintenance_schedules" ADD CONSTRAINT "maintenance_schedules_vendor_id_vendors_id_fk" FOREIGN KEY ("vendor_id") REFERENCES "vendors"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "maintenance_schedules_next_due_date" ON "maintenance_schedules" ("active", "next_due_date");
+--> statement-breakpoint
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "maintenance_schedule_id" integer;
+--> statement-breakpoint
+ALTER TABLE "tickets" ADD COLUMN IF NOT EXISTS "due_date" date;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "tickets" ADD CONSTRAINT "tickets_maintenance_schedule_id_maintenance_schedules_id_fk" FOREIGN KEY ("maintenance_schedule_id") REFERENCES "maintenance_schedules"("id") ON DELETE SET NULL ON UPDATE NO ACTION;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "tickets_maintenance_schedule_id" ON "tickets" ("maintenance_schedule_id", "due_date");
@@ -0,0 +1,5 @@
+ALTER TABLE "ticket_attachments" ADD COLUMN IF NOT EXISTS "content_type" varchar(127);
+--> statement-breakpoint
+ALTER TABLE "ticket_attachments" ADD COLUMN IF NOT EXISTS "size" integer;
+--> statement-breakpoint
+ALTER TABLE "ticket_attachments" ADD COLUMN IF NOT EXISTS "thumbnail_key" varchar(512);
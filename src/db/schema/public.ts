@@ -7,7 +7,12 @@ import {
   integer,
   pgEnum,
   uniqueIndex,
+  index,
+  boolean,
+  jsonb,
+  primaryKey,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 
 export const orgRoleEnum = pgEnum("org_role", [
   "org_owner",
@@ -25,6 +30,12 @@ export const tenants = pgTable("tenants", {
   logo: varchar("logo", { length: 512 }),
   address: text("address"),
   currency: varchar("currency", { length: 16 }),
+  /** When true, every non-resident member must have two-factor authentication enabled. */
+  requireTwoFactor: boolean("require_two_factor").notNull().default(false),
+  /** Sender display name for tenant emails (defaults to the tenant name). */
+  mailFromName: varchar("mail_from_name", { length: 255 }),
+  /** Reply-To address for tenant emails (e.g. the management office). */
+  mailReplyTo: varchar("mail_reply_to", { length: 255 }),
   createdAt: timestamp("created_at", { withTimezone: true })
     .notNull()
     .defaultNow(),
@@ -35,6 +46,18 @@ export const users = pgTable("users", {
   email: varchar("email", { length: 255 }).notNull().unique(),
   passwordHash: varchar("password_hash", { length: 255 }).notNull(),
   name: varchar("name", { length: 255 }),
+  /** E.164 phone number for WhatsApp / SMS notifications. */
+  phone: varchar("phone", { length: 32 }),
+  /** Base32 TOTP secret. Set during enrolment; only active once totpEnabledAt is set. */
+  totpSecret: varchar("totp_secret", { length: 64 }),
+  totpEnabledAt: timestamp("totp_enabled_at", { withTimezone: true }),
+  /** SHA-256 hashes of unused recovery codes. */
+  totpRecoveryCodes: jsonb("totp_recovery_codes").$type<string[]>(),
+  /** Time step of the last TOTP code accepted; codes of that step or earlier are refused. */
+  totpLastUsedStep: integer("totp_last_used_step"),
+  /** Consecutive failed sign-in attempts; reset on success. */
+  failedLoginCount: integer("failed_login_count").notNull().default(0),
+  lockedUntil: timestamp("locked_until", { withTimezone: true }),
   createdAt: timestamp("created_at", { withTimezone: true })
     .notNull()
     .defaultNow(),
@@ -66,6 +89,8 @@ export const invites = pgTable("invites", {
   email: varchar("email", { length: 255 }).notNull(),
   role: varchar("role", { length: 64 }).notNull(), // org role or 'resident'
   unitId: integer("unit_id"), // for residents, set when inviting to a unit
+  unitRole: varchar("unit_role", { length: 32 }), // unit_members role (owner/tenant/resident); null = resident
+  unitIds: integer("unit_ids").array(), // every unit the invite covers when there is more than one; unitId is the first
   token: varchar("token", { length: 64 }).notNull().unique(),
   expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
   acceptedAt: timestamp("accepted_at", { withTimezone: true }),
@@ -76,3 +101,149 @@ export const invites = pgTable("invites", {
     .notNull()
     .defaultNow(),
 });
+
+/** Refresh-token sessions. Access tokens carry the session id and are rejected once it is revoked. */
+export const sessions = pgTable(
+  "sessions",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    refreshTokenHash: varchar("refresh_token_hash", { length: 64 }).notNull().unique(),
+    previousRefreshTokenHash: varchar("previous_refresh_token_hash", { length: 64 }),
+    userAgent: varchar("user_agent", { length: 512 }),
+    ipAddress: varchar("ip_address", { length: 64 }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    lastUsedAt: timestamp("last_used_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  },
+  (t) => [
+    index("sessions_user_id").on(t.userId),
+    index("sessions_previous_refresh_token_hash").on(t.previousRefreshTokenHash),
+  ]
+);
+
+/** Single-use password reset tokens (only the SHA-256 hash of the token is stored). */
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  usedAt: timestamp("used_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+/** 2FA login challenges (by JWT id) that completed a login, so a challenge token works only once. */
+export const usedLoginChallenges = pgTable(
+  "used_login_challenges",
+  {
+    jti: varchar("jti", { length: 64 }).primaryKey(),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    /** When the token itself expires; the row is not needed after that. */
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    usedAt: timestamp("used_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (t) => [index("used_login_challenges_expires_at").on(t.expiresAt)]
+);
+
+/** Fixed-window rate limit counters when RATE_LIMIT_STORE=postgres (multi-instance deployments). */
+export const rateLimits = pgTable("rate_limits", {
+  key: varchar("key", { length: 255 }).primaryKey(),
+  count: integer("count").notNull(),
+  resetAt: timestamp("reset_at", { withTimezone: true }).notNull(),
+});
+
+export const emailOutboxStatusEnum = pgEnum("email_outbox_status", ["pending", "sent", "failed"]);
+
+/**
+ * Every email the app sends, rendered when queued. Delivery runs as an "email" job; the row records
+ * the outcome ("sent", or "failed" once the job's attempts run out).
+ */
+export const emailOutbox = pgTable(
+  "email_outbox",
+  {
+    id: serial("id").primaryKey(),
+    tenantId: integer("tenant_id").references(() => tenants.id, { onDelete: "cascade" }),
+    template: varchar("template", { length: 64 }).notNull(),
+    fromAddress: varchar("from_address", { length: 512 }).notNull(),
+    toAddress: varchar("to_address", { length: 255 }).notNull(),
+    replyTo: varchar("reply_to", { length: 255 }),
+    subject: varchar("subject", { length: 512 }).notNull(),
+    textBody: text("text_body").notNull(),
+    htmlBody: text("html_body").notNull(),
+    status: emailOutboxStatusEnum("status").notNull().default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    lastError: text("last_error"),
+    sentAt: timestamp("sent_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (t) => [index("email_outbox_status").on(t.status)]
+);
+
+export const jobStatusEnum = pgEnum("job_status", ["pending", "running", "completed", "failed"]);
+
+/** Background job queue, claimed by worker processes with FOR UPDATE SKIP LOCKED. */
+export const jobs = pgTable(
+  "jobs",
+  {
+    id: serial("id").primaryKey(),
+    /** Tenant the job belongs to; null for account-level jobs (e.g. password reset emails). */
+    tenantId: integer("tenant_id").references(() => tenants.id, { onDelete: "cascade" }),
+    type: varchar("type", { length: 64 }).notNull(),
+    payload: jsonb("payload").notNull(),
+    status: jobStatusEnum("status").notNull().default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(8),
+    lastError: text("last_error"),
+    runAt: timestamp("run_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    lockedAt: timestamp("locked_at", { withTimezone: true }),
+    lockedBy: varchar("locked_by", { length: 128 }),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (t) => [
+    index("jobs_status_run_at").on(t.status, t.runAt),
+    index("jobs_tenant_id_status").on(t.tenantId, t.status),
+    /** At most one queued or running "maintenance" job per tenant (see queueMaintenanceRuns). */
+    uniqueIndex("jobs_maintenance_tenant_id")
+      .on(t.tenantId)
+      .where(sql`${t.type} = 'maintenance' AND ${t.status} IN ('pending', 'running')`),
+  ]
+);
+
+/** Per-user channel choices per notification event. Missing rows fall back to the defaults (email only). */
+export const notificationPreferences = pgTable(
+  "notification_preferences",
+  {
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    event: varchar("event", { length: 64 }).notNull(),
+    channel: varchar("channel", { length: 16 }).notNull(),
+    enabled: boolean("enabled").notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (t) => [primaryKey({ columns: [t.userId, t.event, t.channel] })]
+);
@@ -10,7 +10,10 @@ import {
   jsonb,
   numeric,
   date,
+  boolean,
+  index,
 } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 
 export const residentRoleEnum = pgEnum("resident_role", [
   "owner",
@@ -25,6 +28,22 @@ export const ticketStatusEnum = pgEnum("ticket_status", [
   "closed",
 ]);
 
+export const ticketPriorityEnum = pgEnum("ticket_priority", ["low", "normal", "high", "urgent"]);
+
+export const ticketCategoryEnum = pgEnum("ticket_category", [
+  "plumbing",
+  "electrical",
+  "lift",
+  "cleaning",
+  "common_areas",
+  "heating_cooling",
+  "security",
+  "other",
+]);
+
+/** internal = staff only: hidden from residents and vendors. */
+export const ticketVisibilityEnum = pgEnum("ticket_visibility", ["public", "internal"]);
+
 export const buildings = pgTable("buildings", {
   id: serial("id").primaryKey(),
   name: varchar("name", { length: 255 }).notNull(),
@@ -45,6 +64,24 @@ export const units = pgTable("units", {
     .defaultNow(),
 });
 
+/** Staff assigned to a building. Building-scoped roles (property_manager) only see their assigned buildings. */
+export const buildingStaff = pgTable(
+  "building_staff",
+  {
+    buildingId: integer("building_id")
+      .notNull()
+      .references(() => buildings.id, { onDelete: "cascade" }),
+    userId: integer("user_id").notNull(),
+    createdBy: integer("created_by"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (t) => [
+    primaryKey({ columns: [t.buildingId, t.userId] }),
+  ]
+);
+
 export const unitMembers = pgTable("unit_members", {
   id: serial("id").primaryKey(),
   unitId: integer("unit_id")
@@ -82,34 +119,113 @@ export const announcementSeen = pgTable(
   ]
 );
 
-export const tickets = pgTable("tickets", {
-  id: serial("id").primaryKey(),
-  unitId: integer("unit_id")
-    .notNull()
-    .references(() => units.id, { onDelete: "cascade" }),
-  reporterId: integer("reporter_id").notNull(),
-  title: varchar("title", { length: 255 }).notNull(),
-  description: text("description"),
-  status: ticketStatusEnum("status").notNull().default("open"),
-  createdAt: timestamp("created_at", { withTimezone: true })
-    .notNull()
-    .defaultNow(),
+export const tickets = pgTable(
+  "tickets",
+  {
+    id: serial("id").primaryKey(),
+    buildingId: integer("building_id")
+      .notNull()
+      .references(() => buildings.id, { onDelete: "cascade" }),
+    /** null for common-area tickets, which every resident of the building can see */
+    unitId: integer("unit_id").references(() => units.id, { onDelete: "cascade" }),
+    /** Where in the building, e.g. "Lobby" or "Lift B" */
+    location: varchar("location", { length: 255 }),
+    reporterId: integer("reporter_id").notNull(),
+    title: varchar("title", { length: 255 }).notNull(),
+    description: text("description"),
+    status: ticketStatusEnum("status").notNull().default("open"),
+    priority: ticketPriorityEnum("priority").notNull().default("normal"),
+    category: ticketCategoryEnum("category"),
+    assigneeId: integer("assignee_id"), // references public.users (tenant staff)
+    /** Outside contractor doing the work; they follow the ticket through ticket_vendor_links. */
+    vendorId: integer("vendor_id").references(() => vendors.id, { onDelete: "set null" }),
+    /** First comment or status change by staff; for SLA tracking (see services/ticketWorkflow.ts). */
+    firstResponseAt: timestamp("first_response_at", { withTimezone: true }),
+    /** Set when resolved, cleared when reopened. */
+    resolvedAt: timestamp("resolved_at", { withTimezone: true }),
+    closedAt: timestamp("closed_at", { withTimezone: true }),
+    /** Set on tickets created by a maintenance schedule (see services/maintenance.ts). */
+    maintenanceScheduleId: integer("maintenance_schedule_id").references(() => maintenanceSchedules.id, {
+      onDelete: "set null",
+    }),
+    /** Date the work is due; overdue while the ticket is open or in progress after this day. */
+    dueDate: date("due_date"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (t) => [
+    index("tickets_assignee_id").on(t.assigneeId),
+    index("tickets_maintenance_schedule_id").on(t.maintenanceScheduleId, t.dueDate),
+    index("tickets_vendor_id").on(t.vendorId),
+    index("tickets_unit_id").on(t.unitId),
+    index("tickets_building_id").on(t.buildingId),
+    index("tickets_created_at_id").on(t.createdAt, t.id),
+    /** Full-text search in GET /tickets; the expression must match the query in routes/tickets.ts. */
+    index("tickets_search").using("gin", sql`to_tsvector('simple', ${t.title} || ' ' || coalesce(${t.description}, ''))`),
+  ]
+);
+
+/** Ticket history: creation, status, assignee, priority and category changes, comments. */
+export const ticketEvents = pgTable(
+  "ticket_events",
+  {
+    id: serial("id").primaryKey(),
+    ticketId: integer("ticket_id")
+      .notNull()
+      .references(() => tickets.id, { onDelete: "cascade" }),
+    actorId: integer("actor_id"), // references public.users
+    /** created | status_changed | assigned | vendor_assigned | priority_changed | category_changed | commented */
+    type: varchar("type", { length: 32 }).notNull(),
+    fromValue: varchar("from_value", { length: 64 }),
+    toValue: varchar("to_value", { length: 64 }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (t) => [index("ticket_events_ticket_id").on(t.ticketId, t.createdAt)]
+);
+
+/** Per-tenant SLA targets by priority, overriding DEFAULT_SLA_TARGETS in services/ticketWorkflow.ts. */
+export const ticketSlaTargets = pgTable("ticket_sla_targets", {
+  priority: ticketPriorityEnum("priority").primaryKey(),
+  firstResponseHours: integer("first_response_hours").notNull(),
+  resolutionHours: integer("resolution_hours").notNull(),
+  updatedBy: integer("updated_by"),
   updatedAt: timestamp("updated_at", { withTimezone: true })
     .notNull()
     .defaultNow(),
 });
 
-export const ticketComments = pgTable("ticket_comments", {
-  id: serial("id").primaryKey(),
-  ticketId: integer("ticket_id")
-    .notNull()
-    .references(() => tickets.id, { onDelete: "cascade" }),
-  userId: integer("user_id").notNull(),
-  body: text("body").notNull(),
-  createdAt: timestamp("created_at", { withTimezone: true })
-    .notNull()
-    .defaultNow(),
-});
+export const ticketComments = pgTable(
+  "ticket_comments",
+  {
+    id: serial("id").primaryKey(),
+    ticketId: integer("ticket_id")
+      .notNull()
+      .references(() => tickets.id, { onDelete: "cascade" }),
+    /** Author; null for updates posted by a vendor through the vendor portal. */
+    userId: integer("user_id"),
+    vendorId: integer("vendor_id").references(() => vendors.id, { onDelete: "set null" }),
+    body: text("body").notNull(),
+    visibility: ticketVisibilityEnum("visibility").notNull().default("public"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    /** Last edit; previous versions are in ticket_comment_edits. */
+    editedAt: timestamp("edited_at", { withTimezone: true }),
+    /** Deleted comments are kept (with their edit history) but no longer listed. */
+    deletedAt: timestamp("deleted_at", { withTimezone: true }),
+    deletedBy: integer("deleted_by"),
+  },
+  (t) => [
+    index("ticket_comments_ticket_id").on(t.ticketId),
+    index("ticket_comments_search").using("gin", sql`to_tsvector('simple', ${t.body})`),
+  ]
+);
 
 export const ticketAttachments = pgTable("ticket_attachments", {
   id: serial("id").primaryKey(),
@@ -118,11 +234,54 @@ export const ticketAttachments = pgTable("ticket_attachments", {
     .references(() => tickets.id, { onDelete: "cascade" }),
   fileKey: varchar("file_key", { length: 512 }).notNull(),
   filename: varchar("filename", { length: 255 }).notNull(),
+  /** Detected from the content on upload (see services/fileType.ts); null for older uploads. */
+  contentType: varchar("content_type", { length: 127 }),
+  /** Bytes, after photos were stripped of their metadata */
+  size: integer("size"),
+  /** WebP thumbnail of photos */
+  thumbnailKey: varchar("thumbnail_key", { length: 512 }),
+  /** Set for photos uploaded by a vendor through the vendor portal. */
+  vendorId: integer("vendor_id").references(() => vendors.id, { onDelete: "set null" }),
+  visibility: ticketVisibilityEnum("visibility").notNull().default("public"),
   createdAt: timestamp("created_at", { withTimezone: true })
     .notNull()
     .defaultNow(),
 });
 
+/** Residents saying "me too" on a common-area ticket instead of reporting it again. */
+export const ticketUpvotes = pgTable(
+  "ticket_upvotes",
+  {
+    ticketId: integer("ticket_id")
+      .notNull()
+      .references(() => tickets.id, { onDelete: "cascade" }),
+    userId: integer("user_id").notNull(), // references public.users
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (t) => [primaryKey({ columns: [t.ticketId, t.userId] })]
+);
+
+/** Previous versions of an edited or deleted ticket comment, newest last. */
+export const ticketCommentEdits = pgTable(
+  "ticket_comment_edits",
+  {
+    id: serial("id").primaryKey(),
+    commentId: integer("comment_id")
+      .notNull()
+      .references(() => ticketComments.id, { onDelete: "cascade" }),
+    editorId: integer("editor_id"), // references public.users
+    /** The body and visibility before this edit */
+    previousBody: text("previous_body").notNull(),
+    previousVisibility: ticketVisibilityEnum("previous_visibility").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (t) => [index("ticket_comment_edits_comment_id").on(t.commentId)]
+);
+
 export const documents = pgTable("documents", {
   id: serial("id").primaryKey(),
   buildingId: integer("building_id"), // null = tenant-wide (all buildings)
@@ -314,3 +473,163 @@ export const unitFees = pgTable("unit_fees", {
     .notNull()
     .defaultNow(),
 });
+
+/** Per-tenant overrides of the default role permissions (see services/permissions.ts). */
+export const rolePermissions = pgTable(
+  "role_permissions",
+  {
+    role: varchar("role", { length: 32 }).notNull(),
+    permission: varchar("permission", { length: 64 }).notNull(),
+    allowed: boolean("allowed").notNull(),
+    updatedBy: integer("updated_by"),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (t) => [
+    primaryKey({ columns: [t.role, t.permission] }),
+  ]
+);
+
+/** In-app inbox: one row per recipient, written by the notification jobs (see services/notify.ts). */
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").notNull(), // references public.users
+    /** ticket_status | ticket_comment | ticket_assigned | budget_approval | document | minutes */
+    type: varchar("type", { length: 64 }).notNull(),
+    title: varchar("title", { length: 255 }).notNull(),
+    body: text("body"),
+    entityType: varchar("entity_type", { length: 64 }),
+    entityId: integer("entity_id"),
+    readAt: timestamp("read_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (t) => [index("notifications_user_id_read_at").on(t.userId, t.readAt)]
+);
+
+/** Outgoing webhooks: each subscription receives the events it lists, signed with its secret (see services/webhooks.ts). */
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: serial("id").primaryKey(),
+  url: varchar("url", { length: 2048 }).notNull(),
+  secret: varchar("secret", { length: 128 }).notNull(),
+  /** Event types, e.g. ticket.created, transaction.created, budget.approved */
+  events: text("events").array().notNull(),
+  description: varchar("description", { length: 255 }),
+  active: boolean("active").notNull().default(true),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+export const webhookDeliveryStatusEnum = pgEnum("webhook_delivery_status", ["pending", "succeeded", "failed"]);
+
+/** One row per event sent to a subscription; the "webhook" job delivers it and records each attempt here. */
+export const webhookDeliveries = pgTable(
+  "webhook_deliveries",
+  {
+    id: serial("id").primaryKey(),
+    subscriptionId: integer("subscription_id")
+      .notNull()
+      .references(() => webhookSubscriptions.id, { onDelete: "cascade" }),
+    event: varchar("event", { length: 64 }).notNull(),
+    payload: jsonb("payload").notNull(),
+    status: webhookDeliveryStatusEnum("status").notNull().default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    responseStatus: integer("response_status"),
+    lastError: text("last_error"),
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (t) => [index("webhook_deliveries_subscription_id").on(t.subscriptionId, t.createdAt)]
+);
+
+/** Contractors who do maintenance work on tickets. */
+export const vendors = pgTable("vendors", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  /** e.g. plumbing, electrical, lift (free text; usually one of the ticket categories) */
+  trade: varchar("trade", { length: 64 }),
+  contactName: varchar("contact_name", { length: 255 }),
+  email: varchar("email", { length: 255 }),
+  phone: varchar("phone", { length: 32 }),
+  notes: text("notes"),
+  /** Proof of insurance, uploaded as a document. */
+  insuranceDocumentId: integer("insurance_document_id").references(() => documents.id, { onDelete: "set null" }),
+  insuranceExpiresAt: date("insurance_expires_at"),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+/**
+ * Vendor access to one ticket without an account (like budget approval tokens). Replaced when the ticket
+ * gets another vendor, deleted when the vendor is removed from it.
+ */
+export const ticketVendorLinks = pgTable("ticket_vendor_links", {
+  ticketId: integer("ticket_id")
+    .primaryKey()
+    .references(() => tickets.id, { onDelete: "cascade" }),
+  vendorId: integer("vendor_id")
+    .notNull()
+    .references(() => vendors.id, { onDelete: "cascade" }),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at", { withTimezone: true })
+    .notNull()
+    .defaultNow(),
+});
+
+export const maintenanceFrequencyEnum = pgEnum("maintenance_frequency", ["daily", "weekly", "monthly", "yearly"]);
+
+/**
+ * Recurring preventive maintenance of a building (lift servicing, fire extinguisher checks, water tank cleaning).
+ * The worker opens a ticket for each occurrence `leadDays` before it is due and moves `nextDueDate` on.
+ */
+export const maintenanceSchedules = pgTable(
+  "maintenance_schedules",
+  {
+    id: serial("id").primaryKey(),
+    buildingId: integer("building_id")
+      .notNull()
+      .references(() => buildings.id, { onDelete: "cascade" }),
+    /** Title of the generated tickets, e.g. "Lift servicing" */
+    task: varchar("task", { length: 255 }).notNull(),
+    description: text("description"),
+    location: varchar("location", { length: 255 }),
+    category: ticketCategoryEnum("category"),
+    priority: ticketPriorityEnum("priority").notNull().default("normal"),
+    /** Recurrence: every `interval` days, weeks, months or years, counted from `startDate` */
+    frequency: maintenanceFrequencyEnum("frequency").notNull(),
+    interval: integer("interval").notNull().default(1),
+    startDate: date("start_date").notNull(),
+    nextDueDate: date("next_due_date").notNull(),
+    /** Open the ticket this many days before it is due */
+    leadDays: integer("lead_days").notNull().default(0),
+    vendorId: integer("vendor_id").references(() => vendors.id, { onDelete: "set null" }),
+    assigneeId: integer("assignee_id"), // references public.users (tenant staff)
+    active: boolean("active").notNull().default(true),
+    /** Reporter of the generated tickets */
+    createdBy: integer("created_by").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .notNull()
+      .defaultNow(),
+  },
+  (t) => [index("maintenance_schedules_next_due_date").on(t.active, t.nextDueDate)]
+);
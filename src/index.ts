@@ -18,10 +18,20 @@ import { budgetRouter } from "./routes/budget.js";
 import { budgetApprovalRouter } from "./routes/budgetApproval.js";
 import { feeTemplatesRouter } from "./routes/feeTemplates.js";
 import { tenantSettingsRouter } from "./routes/tenantSettings.js";
+import { jobsRouter } from "./routes/jobs.js";
+import { eventsRouter } from "./routes/events.js";
+import { vendorsRouter } from "./routes/vendors.js";
+import { vendorPortalRouter } from "./routes/vendorPortal.js";
+import { maintenanceRouter } from "./routes/maintenance.js";
+import { filesRouter } from "./routes/files.js";
 
 const app = express();
 const port = process.env.PORT ?? 4000;
 
+// Behind a load balancer / reverse proxy, set TRUST_PROXY (e.g. 1) so req.ip is the client address (used for rate limiting).
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy) app.set("trust proxy", /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+
 app.use(cors({ origin: process.env.CORS_ORIGIN ?? "*", credentials: true }));
 app.use(express.json());
 
@@ -42,6 +52,12 @@ app.use("/budget", budgetApprovalRouter);
 app.use("/budget", budgetRouter);
 app.use("/fee-templates", feeTemplatesRouter);
 app.use("/tenant-settings", tenantSettingsRouter);
+app.use("/jobs", jobsRouter);
+app.use("/events", eventsRouter);
+app.use("/vendors", vendorsRouter);
+app.use("/vendor-portal", vendorPortalRouter);
+app.use("/maintenance-schedules", maintenanceRouter);
+app.use("/files", filesRouter);
 
 app.get("/health", (_req, res) => res.json({ ok: true }));
 
@@ -0,0 +1,59 @@
+import { deliverOutboxEmail } from "../mail/outbox.js";
+import { messagingProvider } from "../messaging/index.js";
+import { dispatchNotification } from "../services/notify.js";
+import { notifyBudgetApprovers } from "../services/budgetApproval.js";
+import { deliverWebhook } from "../services/webhooks.js";
+import { generateMaintenanceTickets } from "../services/maintenance.js";
+import type { JobPayloads, JobType } from "./queue.js";
+
+export interface JobContext {
+  jobId: number;
+  tenantId: number | null;
+  /** Slug of the job's tenant, for tenantDb; null for account-level jobs. */
+  tenantSlug: string | null;
+  /** 1-based attempt number, including this one. */
+  attempt: number;
+  isLastAttempt: boolean;
+}
+
+/** A handler throws to fail the attempt; the job is then retried with backoff. */
+type JobHandler<T extends JobType> = (payload: JobPayloads[T], ctx: JobContext) => Promise<void>;
+
+function requireTenant(ctx: JobContext): { tenantId: number; tenantSlug: string } {
+  if (ctx.tenantId == null || !ctx.tenantSlug) throw new Error(`Job ${ctx.jobId} needs a tenant`);
+  return { tenantId: ctx.tenantId, tenantSlug: ctx.tenantSlug };
+}
+
+export const jobHandlers: { [K in JobType]: JobHandler<K> } = {
+  async email(payload, ctx) {
+    await deliverOutboxEmail(payload.outboxId, ctx.attempt, ctx.isLastAttempt);
+  },
+
+  async whatsapp(payload) {
+    await messagingProvider.send({ channel: "whatsapp", to: payload.to, body: payload.message });
+  },
+
+  async sms(payload) {
+    await messagingProvider.send({ channel: "sms", to: payload.to, body: payload.message });
+  },
+
+  async webhook(payload, ctx) {
+    const { tenantSlug } = requireTenant(ctx);
+    await deliverWebhook(tenantSlug, payload.deliveryId, ctx.isLastAttempt);
+  },
+
+  async budget_approval(payload, ctx) {
+    const { tenantId, tenantSlug } = requireTenant(ctx);
+    await notifyBudgetApprovers(tenantSlug, tenantId, payload.periodId, ctx);
+  },
+
+  async notify(payload, ctx) {
+    const { tenantId, tenantSlug } = requireTenant(ctx);
+    await dispatchNotification(tenantSlug, tenantId, payload, ctx);
+  },
+
+  async maintenance(_payload, ctx) {
+    const { tenantSlug } = requireTenant(ctx);
+    await generateMaintenanceTickets(tenantSlug);
+  },
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const returning = vi.fn();
+const fakeDb = { update: () => ({ set: () => ({ where: () => ({ returning }) }) }) };
+vi.mock("../db/tenantDb.js", () => ({
+  tenantDb: (_slug: string, fn: (db: unknown) => Promise<unknown>) => fn(fakeDb),
+}));
+
+const { retryDelayMs, failureUpdate, completeJobWith } = await import("./queue.js");
+
+const MINUTE = 60 * 1000;
+
+describe("retryDelayMs", () => {
+  it("doubles from one minute and caps at six hours", () => {
+    expect([1, 2, 3, 4].map(retryDelayMs)).toEqual([MINUTE, 2 * MINUTE, 4 * MINUTE, 8 * MINUTE]);
+    expect(retryDelayMs(9)).toBe(256 * MINUTE);
+    expect(retryDelayMs(10)).toBe(6 * 60 * MINUTE);
+    expect(retryDelayMs(30)).toBe(6 * 60 * MINUTE);
+  });
+});
+
+describe("failureUpdate", () => {
+  const now = new Date("2026-03-01T12:00:00Z");
+  const runAt = new Date("2026-03-01T11:00:00Z");
+
+  it("puts the job back in the queue after the backoff while attempts remain", () => {
+    expect(failureUpdate({ attempts: 3, maxAttempts: 8, runAt }, new Error("SMTP timeout"), now)).toEqual({
+      status: "pending",
+      lastError: "SMTP timeout",
+      runAt: new Date(now.getTime() + 4 * MINUTE),
+      lockedAt: null,
+      lockedBy: null,
+    });
+  });
+
+  it("marks the job failed on its last attempt and keeps its run time", () => {
+    const update = failureUpdate({ attempts: 8, maxAttempts: 8, runAt }, "gave up", now);
+    expect(update).toMatchObject({ status: "failed", lastError: "gave up", runAt, lockedAt: null, lockedBy: null });
+  });
+
+  it("truncates long errors", () => {
+    expect(failureUpdate({ attempts: 1, maxAttempts: 8, runAt }, "x".repeat(5000), now).lastError).toHaveLength(2000);
+  });
+});
+
+describe("completeJobWith", () => {
+  beforeEach(() => returning.mockReset());
+
+  it("runs the writes when it completes this attempt of the job", async () => {
+    returning.mockResolvedValue([{ id: 1 }]);
+    const fn = vi.fn().mockResolvedValue(undefined);
+    await completeJobWith({ jobId: 1, attempt: 2 }, "acme", fn);
+    expect(fn).toHaveBeenCalledWith(fakeDb);
+  });
+
+  it("writes nothing when another attempt already completed the job", async () => {
+    returning.mockResolvedValue([]);
+    const fn = vi.fn();
+    await completeJobWith({ jobId: 1, attempt: 2 }, "acme", fn);
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,179 @@
+import { publicDb } from "../db/index.js";
+import { tenantDb, type TenantDb } from "../db/tenantDb.js";
+import { jobs } from "../db/schema/public.js";
+import { and, asc, eq, inArray, lt, lte, or, sql } from "drizzle-orm";
+
+/** Payload for each job type. Add a type here and a handler in handlers.ts. */
+export interface JobPayloads {
+  email: { outboxId: number };
+  whatsapp: { to: string; message: string };
+  sms: { to: string; message: string };
+  webhook: { deliveryId: number };
+  budget_approval: { periodId: number };
+  notify:
+    | {
+        event: "ticket_update";
+        change: "status" | "comment";
+        ticketId: number;
+        /** null for updates posted by a vendor through the vendor portal */
+        actorId: number | null;
+        message: string;
+        /** Internal comment: only the assignee is told */
+        internal?: boolean;
+      }
+    | {
+        event: "ticket_assigned";
+        ticketId: number;
+        assigneeId: number;
+        /** null for tickets opened by a maintenance schedule */
+        actorId: number | null;
+      }
+    | { event: "announcement"; announcementId: number; actorId: number }
+    | { event: "document"; documentId: number; actorId: number }
+    | { event: "minutes"; minutesId: number; actorId: number };
+  /** Open tickets for the tenant's due maintenance schedules */
+  maintenance: Record<string, never>;
+}
+
+export type JobType = keyof JobPayloads;
+export type Job = typeof jobs.$inferSelect;
+
+/**
+ * Where rows can be written: publicDb, a public transaction, or a tenant transaction (tenantDb), whose
+ * search_path falls back to the public schema.
+ */
+export type DbWriter = Pick<typeof publicDb, "insert">;
+
+export interface EnqueueOptions {
+  /** Tenant the job runs for; handlers get its slug. */
+  tenantId?: number | null;
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+/** A running job whose worker has not reported back after this long is considered abandoned and claimed again. */
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/** Backoff before the next try after `attempt` failures: 1 min, 2 min, 4 min, ... capped at 6 hours. */
+export function retryDelayMs(attempt: number): number {
+  return Math.min(60 * 1000 * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+/** Add a job to the queue. Pass `tx` to enqueue atomically with other writes. */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueOptions = {},
+  tx?: DbWriter
+): Promise<number> {
+  const [job] = await (tx ?? publicDb)
+    .insert(jobs)
+    .values({
+      tenantId: options.tenantId ?? null,
+      type,
+      payload,
+      runAt: options.runAt ?? new Date(),
+      ...(options.maxAttempts != null ? { maxAttempts: options.maxAttempts } : {}),
+    })
+    .returning({ id: jobs.id });
+  return job!.id;
+}
+
+/** Lock up to `limit` due jobs for this worker. The returned jobs already count the current attempt. */
+export async function claimJobs(workerId: string, limit: number): Promise<Job[]> {
+  return publicDb.transaction(async (tx) => {
+    const now = new Date();
+    const due = await tx
+      .select()
+      .from(jobs)
+      .where(
+        or(
+          and(eq(jobs.status, "pending"), lte(jobs.runAt, now)),
+          and(eq(jobs.status, "running"), lt(jobs.lockedAt, new Date(now.getTime() - LOCK_TIMEOUT_MS)))
+        )
+      )
+      .orderBy(asc(jobs.runAt))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+    if (due.length === 0) return [];
+    await tx
+      .update(jobs)
+      .set({ status: "running", lockedAt: now, lockedBy: workerId, attempts: sql`${jobs.attempts} + 1` })
+      .where(inArray(jobs.id, due.map((j) => j.id)));
+    return due.map((j) => ({ ...j, status: "running" as const, lockedAt: now, lockedBy: workerId, attempts: j.attempts + 1 }));
+  });
+}
+
+export async function completeJob(jobId: number): Promise<void> {
+  await publicDb
+    .update(jobs)
+    .set({ status: "completed", completedAt: new Date(), lockedAt: null, lockedBy: null, lastError: null })
+    .where(eq(jobs.id, jobId));
+}
+
+/**
+ * Changes recording a failed attempt: back to pending with backoff, or failed (dead) once the attempts are used up.
+ * A dead job keeps its runAt so the list shows when it was last due.
+ */
+export function failureUpdate(
+  job: Pick<Job, "attempts" | "maxAttempts" | "runAt">,
+  error: unknown,
+  now = new Date()
+): Pick<Job, "status" | "lastError" | "runAt" | "lockedAt" | "lockedBy"> {
+  const message = error instanceof Error ? error.message : String(error);
+  const exhausted = job.attempts >= job.maxAttempts;
+  return {
+    status: exhausted ? "failed" : "pending",
+    lastError: message.slice(0, 2000),
+    runAt: exhausted ? job.runAt : new Date(now.getTime() + retryDelayMs(job.attempts)),
+    lockedAt: null,
+    lockedBy: null,
+  };
+}
+
+/** Record a failed attempt: schedule a retry with backoff, or mark the job failed when attempts are used up. */
+export async function failJob(job: Job, error: unknown): Promise<void> {
+  await publicDb.update(jobs).set(failureUpdate(job, error)).where(eq(jobs.id, job.id));
+}
+
+/** The attempt of a job a handler is running. */
+export interface JobRun {
+  jobId: number;
+  attempt: number;
+}
+
+/**
+ * Run a job's writes in one tenant transaction that also marks the job completed, for jobs that fan out to many
+ * recipients. A failed attempt leaves nothing behind for its retry to repeat, and a run of a job that another
+ * attempt already committed (one the worker took for lost) writes nothing, so nobody is notified twice.
+ */
+export async function completeJobWith(run: JobRun, slug: string, fn: (db: TenantDb) => Promise<void>): Promise<void> {
+  await tenantDb(slug, async (db) => {
+    // Locks the job row first: a concurrent attempt waits here and then finds the job no longer running.
+    const [current] = await db
+      .update(jobs)
+      .set({ status: "completed", completedAt: new Date(), lockedAt: null, lockedBy: null, lastError: null })
+      .where(and(eq(jobs.id, run.jobId), eq(jobs.status, "running"), eq(jobs.attempts, run.attempt)))
+      .returning({ id: jobs.id });
+    if (!current) return;
+    await fn(db);
+  });
+}
+
+/** Put a failed job back in the queue with a fresh set of attempts. Returns null unless the job had failed. */
+export async function retryJob(jobId: number, tenantId: number): Promise<Job | null> {
+  const [job] = await publicDb
+    .update(jobs)
+    .set({ status: "pending", attempts: 0, runAt: new Date() })
+    .where(and(eq(jobs.id, jobId), eq(jobs.tenantId, tenantId), eq(jobs.status, "failed")))
+    .returning();
+  return job ?? null;
+}
+
+/** Delete completed jobs older than `olderThanMs`. Failed jobs are kept for inspection. */
+export async function pruneCompletedJobs(olderThanMs: number): Promise<void> {
+  await publicDb
+    .delete(jobs)
+    .where(and(eq(jobs.status, "completed"), lt(jobs.completedAt, new Date(Date.now() - olderThanMs))));
+}
@@ -0,0 +1,93 @@
+import os from "node:os";
+import { publicDb } from "../db/index.js";
+import { tenants } from "../db/schema/public.js";
+import { eq } from "drizzle-orm";
+import { claimJobs, completeJob, failJob, pruneCompletedJobs, type Job, type JobType } from "./queue.js";
+import { jobHandlers, type JobContext } from "./handlers.js";
+import { queueMaintenanceRuns } from "../services/maintenance.js";
+
+export interface JobWorkerOptions {
+  /** How long to wait before polling again when the queue is empty. */
+  pollIntervalMs?: number;
+  batchSize?: number;
+}
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const KEEP_COMPLETED_MS = 7 * 24 * 60 * 60 * 1000;
+/** How often each tenant's maintenance schedules are checked for due occurrences. */
+const MAINTENANCE_INTERVAL_MS = 60 * 60 * 1000;
+
+const tenantSlugCache = new Map<number, string | null>();
+
+async function getTenantSlug(tenantId: number | null): Promise<string | null> {
+  if (tenantId == null) return null;
+  if (!tenantSlugCache.has(tenantId)) {
+    const [tenant] = await publicDb.select({ slug: tenants.slug }).from(tenants).where(eq(tenants.id, tenantId)).limit(1);
+    tenantSlugCache.set(tenantId, tenant?.slug ?? null);
+  }
+  return tenantSlugCache.get(tenantId) ?? null;
+}
+
+async function runJob(job: Job): Promise<void> {
+  const handler = jobHandlers[job.type as JobType] as ((payload: unknown, ctx: JobContext) => Promise<void>) | undefined;
+  try {
+    if (!handler) throw new Error(`Unknown job type: ${job.type}`);
+    const ctx: JobContext = {
+      jobId: job.id,
+      tenantId: job.tenantId,
+      tenantSlug: await getTenantSlug(job.tenantId),
+      attempt: job.attempts,
+      isLastAttempt: job.attempts >= job.maxAttempts,
+    };
+    await handler(job.payload, ctx);
+    await completeJob(job.id);
+  } catch (err) {
+    console.error(`[jobs] ${job.type} #${job.id} failed (attempt ${job.attempts}/${job.maxAttempts})`, err);
+    await failJob(job, err);
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Process jobs until stopped. Several workers can run side by side; each claims its own batch.
+ * `stop()` resolves once the current batch has finished.
+ */
+export function startJobWorker(options: JobWorkerOptions = {}): { stop: () => Promise<void> } {
+  const pollIntervalMs = options.pollIntervalMs ?? 1000;
+  const batchSize = options.batchSize ?? 10;
+  const workerId = `${os.hostname()}:${process.pid}`;
+  let stopped = false;
+  let lastPrune = 0;
+  let lastMaintenance = 0;
+
+  const loop = (async () => {
+    while (!stopped) {
+      try {
+        if (Date.now() - lastPrune > PRUNE_INTERVAL_MS) {
+          lastPrune = Date.now();
+          await pruneCompletedJobs(KEEP_COMPLETED_MS);
+        }
+        if (Date.now() - lastMaintenance > MAINTENANCE_INTERVAL_MS) {
+          lastMaintenance = Date.now();
+          await queueMaintenanceRuns();
+        }
+        const claimed = await claimJobs(workerId, batchSize);
+        for (const job of claimed) {
+          await runJob(job);
+        }
+        if (claimed.length < batchSize) await sleep(pollIntervalMs);
+      } catch (err) {
+        console.error("[jobs] worker loop error", err);
+        await sleep(pollIntervalMs);
+      }
+    }
+  })();
+
+  return {
+    async stop() {
+      stopped = true;
+      await loop;
+    },
+  };
+}
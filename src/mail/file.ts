@@ -0,0 +1,27 @@
+import fs from "node:fs";
+import path from "node:path";
+import crypto from "node:crypto";
+import nodemailer from "nodemailer";
+import type { MailMessage, MailTransport } from "./interface.js";
+
+/** Writes each message as an .eml file in `dir` instead of sending it (local development and tests). */
+export function createFileTransport(dir: string): MailTransport {
+  // Stream transport only builds the RFC 822 message; nothing leaves the machine.
+  const builder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+  return {
+    async send(message: MailMessage): Promise<void> {
+      const info = await builder.sendMail({
+        from: message.from,
+        to: message.to,
+        replyTo: message.replyTo ?? undefined,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+      await fs.promises.mkdir(dir, { recursive: true });
+      const name = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.eml`;
+      await fs.promises.writeFile(path.join(dir, name), info.message as Buffer);
+    },
+  };
+}
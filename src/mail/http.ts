@@ -0,0 +1,34 @@
+import type { MailMessage, MailTransport } from "./interface.js";
+
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+
+/**
+ * Sends through an HTTP email API: POSTs `{ from, to, reply_to, subject, text, html }` as JSON with a bearer key
+ * (the shape used by Resend and similar providers). Any non-2xx response counts as a failed send.
+ */
+export function createHttpTransport(url: string, apiKey?: string): MailTransport {
+  return {
+    async send(message: MailMessage): Promise<void> {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          from: message.from,
+          to: message.to,
+          reply_to: message.replyTo ?? undefined,
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!res.ok) {
+        const body = await res.text().catch(() => "");
+        throw new Error(`Mail API responded ${res.status}: ${body.slice(0, 500)}`);
+      }
+    },
+  };
+}
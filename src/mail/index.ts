@@ -0,0 +1,30 @@
+import type { MailTransport } from "./interface.js";
+import { createSmtpTransport } from "./smtp.js";
+import { createFileTransport } from "./file.js";
+import { createHttpTransport } from "./http.js";
+
+/** Address every email is sent from; tenants only change the display name. */
+export const MAIL_FROM = process.env.MAIL_FROM ?? "no-reply@komun.local";
+
+function createTransport(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "smtp":
+      return createSmtpTransport();
+    case "http":
+      if (!process.env.MAIL_HTTP_URL) throw new Error("MAIL_HTTP_URL is required when MAIL_TRANSPORT=http");
+      return createHttpTransport(process.env.MAIL_HTTP_URL, process.env.MAIL_HTTP_API_KEY);
+    case "file":
+      return createFileTransport(process.env.MAIL_DIR ?? "./mail");
+    case undefined:
+    case "":
+      // Writing production mail to disk would lose it without anyone noticing.
+      if (process.env.NODE_ENV === "production") {
+        throw new Error("MAIL_TRANSPORT must be set (smtp, http or file) when NODE_ENV=production");
+      }
+      return createFileTransport(process.env.MAIL_DIR ?? "./mail");
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}" (expected smtp, http or file)`);
+  }
+}
+
+export const mailTransport: MailTransport = createTransport();
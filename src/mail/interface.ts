@@ -0,0 +1,14 @@
+export interface MailMessage {
+  /** From header, e.g. `"Acme Residences" <no-reply@komun.app>`. */
+  from: string;
+  to: string;
+  replyTo?: string | null;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  /** Deliver one message. Throws on failure so the outbox can retry it later. */
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,90 @@
+import { publicDb } from "../db/index.js";
+import { emailOutbox, tenants } from "../db/schema/public.js";
+import { eq } from "drizzle-orm";
+import { enqueueJob, type DbWriter } from "../jobs/queue.js";
+import { mailTransport, MAIL_FROM } from "./index.js";
+import { renderEmail, type EmailTemplate, type TemplateData } from "./templates.js";
+
+function formatFrom(name: string): string {
+  return `"${name.replace(/["\\\r\n]/g, "")}" <${MAIL_FROM}>`;
+}
+
+export interface QueueEmailParams<T extends EmailTemplate> {
+  to: string;
+  template: T;
+  data: TemplateData[T];
+  /** Sender name and reply-to come from this tenant's settings; omit for account emails. */
+  tenantId?: number | null;
+}
+
+/**
+ * Render an email, store it in the outbox and enqueue its delivery job. Pass `tx` to write both as part of
+ * a larger transaction.
+ */
+export async function queueEmail<T extends EmailTemplate>(params: QueueEmailParams<T>, tx?: DbWriter): Promise<void> {
+  let fromName = "Komun";
+  let replyTo: string | null = null;
+  if (params.tenantId != null) {
+    const [tenant] = await publicDb
+      .select({ name: tenants.name, mailFromName: tenants.mailFromName, mailReplyTo: tenants.mailReplyTo })
+      .from(tenants)
+      .where(eq(tenants.id, params.tenantId))
+      .limit(1);
+    if (tenant) {
+      fromName = tenant.mailFromName ?? tenant.name;
+      replyTo = tenant.mailReplyTo;
+    }
+  }
+  const rendered = renderEmail(params.template, params.data);
+  const write = async (tx: DbWriter) => {
+    const [row] = await tx
+      .insert(emailOutbox)
+      .values({
+        tenantId: params.tenantId ?? null,
+        template: params.template,
+        fromAddress: formatFrom(fromName),
+        toAddress: params.to,
+        replyTo,
+        subject: rendered.subject,
+        textBody: rendered.text,
+        htmlBody: rendered.html,
+      })
+      .returning({ id: emailOutbox.id });
+    await enqueueJob("email", { outboxId: row!.id }, { tenantId: params.tenantId ?? null }, tx);
+  };
+  if (tx) await write(tx);
+  else await publicDb.transaction(write);
+}
+
+/**
+ * Send one outbox message (the "email" job handler). Throws on failure so the job is retried;
+ * the outbox row is marked failed on the last attempt.
+ */
+export async function deliverOutboxEmail(outboxId: number, attempt: number, isLastAttempt: boolean): Promise<void> {
+  const [row] = await publicDb.select().from(emailOutbox).where(eq(emailOutbox.id, outboxId)).limit(1);
+  if (!row || row.status === "sent") return;
+  try {
+    await mailTransport.send({
+      from: row.fromAddress,
+      to: row.toAddress,
+      replyTo: row.replyTo,
+      subject: row.subject,
+      text: row.textBody,
+      html: row.htmlBody,
+    });
+  } catch (err) {
+    await publicDb
+      .update(emailOutbox)
+      .set({
+        status: isLastAttempt ? "failed" : "pending",
+        attempts: attempt,
+        lastError: (err instanceof Error ? err.message : String(err)).slice(0, 2000),
+      })
+      .where(eq(emailOutbox.id, row.id));
+    throw err;
+  }
+  await publicDb
+    .update(emailOutbox)
+    .set({ status: "sent", attempts: attempt, sentAt: new Date(), lastError: null })
+    .where(eq(emailOutbox.id, row.id));
+}
@@ -0,0 +1,83 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it, expect } from "vitest";
+import { renderEmail } from "./templates.js";
+import { createFileTransport } from "./file.js";
+
+describe("renderEmail", () => {
+  it("renders the invite with unit, text link and escaped HTML", () => {
+    const email = renderEmail("invite", {
+      tenantName: "Smith & Sons <HOA>",
+      role: "property_manager",
+      unitIdentifier: "2B",
+      acceptUrl: "https://app.example.com/invites/accept/abc?x=1&y=2",
+      expiresAt: new Date("2026-01-08T10:30:00Z"),
+    });
+    expect(email.subject).toBe("You're invited to join Smith & Sons <HOA> (unit 2B)");
+    expect(email.text).toContain("as property manager");
+    expect(email.text).toContain("https://app.example.com/invites/accept/abc?x=1&y=2");
+    expect(email.text).toContain("2026-01-08 10:30 UTC");
+    expect(email.html).toContain("Smith &amp; Sons &lt;HOA&gt;");
+    expect(email.html).toContain('href="https://app.example.com/invites/accept/abc?x=1&amp;y=2"');
+    expect(email.html).not.toContain("<HOA>");
+  });
+
+  it("drops a duplicated 'Budget' from the budget approval subject", () => {
+    const email = renderEmail("budget_approval", {
+      name: "Ana",
+      tenantName: "Acme",
+      periodName: "Budget Budget 2026",
+      year: 2026,
+      unitIdentifier: "1A",
+      sharePerUnit: "120.50",
+      approveUrl: "https://app.example.com/approve",
+    });
+    expect(email.subject).toBe("Budget 2026 (2026) – approval requested");
+    expect(email.text.startsWith("Hello Ana,")).toBe(true);
+    expect(email.text).toContain("Your share for unit 1A is 120.50.");
+  });
+
+  it("renders the vendor assignment with location and the portal link", () => {
+    const email = renderEmail("vendor_assignment", {
+      contactName: null,
+      tenantName: "Acme",
+      ticketTitle: "Leaking pipe",
+      description: "Water   under the\nsink",
+      location: "Unit 2B, Main Street 12",
+      priority: "high",
+      url: "https://app.example.com/t/acme/vendor/tickets/7?token=abc",
+    });
+    expect(email.subject).toBe("New job from Acme: Leaking pipe");
+    expect(email.text.startsWith("Hello,")).toBe(true);
+    expect(email.text).toContain("Location: Unit 2B, Main Street 12. Priority: high.");
+    expect(email.text).toContain("Water under the sink");
+    expect(email.text).toContain("https://app.example.com/t/acme/vendor/tickets/7?token=abc");
+  });
+});
+
+describe("createFileTransport", () => {
+  it("writes each message as an .eml file", async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "komun-mail-"));
+    try {
+      await createFileTransport(dir).send({
+        from: '"Acme" <no-reply@example.com>',
+        to: "resident@example.com",
+        replyTo: "office@example.com",
+        subject: "Hello",
+        text: "Plain body",
+        html: "<p>HTML body</p>",
+      });
+      const files = await fs.promises.readdir(dir);
+      expect(files).toHaveLength(1);
+      expect(files[0]).toMatch(/\.eml$/);
+      const eml = await fs.promises.readFile(path.join(dir, files[0]!), "utf8");
+      expect(eml).toContain("To: resident@example.com");
+      expect(eml).toContain("Reply-To: office@example.com");
+      expect(eml).toContain("Subject: Hello");
+      expect(eml).toContain("multipart/alternative");
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,190 @@
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface TemplateData {
+  budget_approval: {
+    name: string | null;
+    tenantName: string;
+    periodName: string;
+    year: number;
+    unitIdentifier: string;
+    sharePerUnit: string;
+    approveUrl: string;
+  };
+  password_reset: {
+    name: string | null;
+    resetUrl: string;
+    expiresAt: Date;
+  };
+  invite: {
+    tenantName: string;
+    role: string;
+    unitIdentifier?: string | null;
+    acceptUrl: string;
+    expiresAt: Date;
+  };
+  ticket_update: {
+    name: string | null;
+    tenantName: string;
+    ticketTitle: string;
+    /** What changed, e.g. "Status changed to resolved." */
+    message: string;
+    url: string;
+  };
+  announcement: {
+    name: string | null;
+    tenantName: string;
+    title: string;
+    body: string | null;
+    url: string;
+  };
+  document: {
+    name: string | null;
+    tenantName: string;
+    title: string;
+    url: string;
+  };
+  vendor_assignment: {
+    contactName: string | null;
+    tenantName: string;
+    ticketTitle: string;
+    description: string | null;
+    /** Unit and building, e.g. "Unit 2B, Main Street 12" */
+    location: string;
+    priority: string;
+    url: string;
+  };
+}
+
+export type EmailTemplate = keyof TemplateData;
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 16).replace("T", " ") + " UTC";
+}
+
+function greeting(name: string | null): string {
+  return name ? `Hello ${name},` : "Hello,";
+}
+
+/** Wrap body paragraphs and a call-to-action button in the shared HTML layout. */
+function layout(paragraphs: string[], action: { label: string; url: string }, footer?: string): string {
+  const body = paragraphs.map((p) => `<p style="margin:0 0 16px">${escapeHtml(p)}</p>`).join("\n");
+  return `<!doctype html>
+<html>
+<body style="margin:0;padding:24px;background:#f5f5f5;font-family:Arial,Helvetica,sans-serif;color:#222">
+<div style="max-width:560px;margin:0 auto;background:#fff;padding:32px;border-radius:8px">
+${body}
+<p style="margin:24px 0"><a href="${escapeHtml(action.url)}" style="background:#1f6feb;color:#fff;padding:12px 20px;border-radius:6px;text-decoration:none">${escapeHtml(action.label)}</a></p>
+<p style="margin:0;font-size:12px;color:#666">If the button does not work, copy this link into your browser:<br>${escapeHtml(action.url)}</p>
+${footer ? `<p style="margin:16px 0 0;font-size:12px;color:#666">${escapeHtml(footer)}</p>` : ""}
+</div>
+</body>
+</html>
+`;
+}
+
+function text(paragraphs: string[], url: string, footer?: string): string {
+  return [...paragraphs, url, ...(footer ? [footer] : [])].join("\n\n") + "\n";
+}
+
+function excerpt(body: string, max = 300): string {
+  const flat = body.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat;
+}
+
+/** Avoid a duplicate "Budget" in the title (e.g. "Budget Budget 2026" -> "Budget 2026"). */
+function budgetTitle(periodName: string): string {
+  const name = periodName.trim();
+  return /^Budget\s+Budget\s+/i.test(name) ? name.replace(/^Budget\s+/i, "") : name;
+}
+
+const templates: { [K in EmailTemplate]: (data: TemplateData[K]) => RenderedEmail } = {
+  budget_approval(d) {
+    const title = budgetTitle(d.periodName);
+    const paragraphs = [
+      greeting(d.name),
+      `${d.tenantName} has proposed the ${title} (${d.year}) budget and is asking for your approval.`,
+      `Your share for unit ${d.unitIdentifier} is ${d.sharePerUnit}.`,
+    ];
+    return {
+      subject: `${title} (${d.year}) – approval requested`,
+      text: text(paragraphs, `Review and approve: ${d.approveUrl}`),
+      html: layout(paragraphs, { label: "Review budget", url: d.approveUrl }),
+    };
+  },
+  password_reset(d) {
+    const paragraphs = [greeting(d.name), "We received a request to reset your Komun password."];
+    const footer = `The link expires at ${formatDate(d.expiresAt)}. If you did not ask for this, you can ignore this email.`;
+    return {
+      subject: "Reset your Komun password",
+      text: text(paragraphs, `Reset your password: ${d.resetUrl}`, footer),
+      html: layout(paragraphs, { label: "Reset password", url: d.resetUrl }, footer),
+    };
+  },
+  invite(d) {
+    const where = d.unitIdentifier ? `${d.tenantName} (unit ${d.unitIdentifier})` : d.tenantName;
+    const paragraphs = ["Hello,", `You have been invited to join ${where} on Komun as ${d.role.replace(/_/g, " ")}.`];
+    const footer = `This invitation expires at ${formatDate(d.expiresAt)}.`;
+    return {
+      subject: `You're invited to join ${where}`,
+      text: text(paragraphs, `Accept the invitation: ${d.acceptUrl}`, footer),
+      html: layout(paragraphs, { label: "Accept invitation", url: d.acceptUrl }, footer),
+    };
+  },
+  ticket_update(d) {
+    const paragraphs = [greeting(d.name), `Your ticket "${d.ticketTitle}" at ${d.tenantName} was updated.`, d.message];
+    return {
+      subject: `Ticket update: ${d.ticketTitle}`,
+      text: text(paragraphs, `View the ticket: ${d.url}`),
+      html: layout(paragraphs, { label: "View ticket", url: d.url }),
+    };
+  },
+  announcement(d) {
+    const paragraphs = [greeting(d.name), `${d.tenantName} posted a new announcement: ${d.title}`];
+    if (d.body) paragraphs.push(excerpt(d.body));
+    return {
+      subject: `${d.tenantName}: ${d.title}`,
+      text: text(paragraphs, `Read it: ${d.url}`),
+      html: layout(paragraphs, { label: "Read announcement", url: d.url }),
+    };
+  },
+  document(d) {
+    const paragraphs = [greeting(d.name), `${d.tenantName} shared a new document: ${d.title}`];
+    return {
+      subject: `New document: ${d.title}`,
+      text: text(paragraphs, `View documents: ${d.url}`),
+      html: layout(paragraphs, { label: "View documents", url: d.url }),
+    };
+  },
+  vendor_assignment(d) {
+    const paragraphs = [
+      greeting(d.contactName),
+      `${d.tenantName} has assigned you a maintenance ticket: ${d.ticketTitle}`,
+      `Location: ${d.location}. Priority: ${d.priority}.`,
+    ];
+    if (d.description) paragraphs.push(excerpt(d.description));
+    paragraphs.push("Use the link to see the ticket, post updates and upload photos. You do not need an account.");
+    const footer = "Do not share this link: anyone who has it can post on the ticket.";
+    return {
+      subject: `New job from ${d.tenantName}: ${d.ticketTitle}`,
+      text: text(paragraphs, `Open the ticket: ${d.url}`, footer),
+      html: layout(paragraphs, { label: "Open ticket", url: d.url }, footer),
+    };
+  },
+};
+
+export function renderEmail<T extends EmailTemplate>(template: T, data: TemplateData[T]): RenderedEmail {
+  return templates[template](data);
+}
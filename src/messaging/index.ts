@@ -0,0 +1,6 @@
+import type { MessagingProvider } from "./interface.js";
+import { createStubMessagingProvider } from "./stub.js";
+import { createTwilioMessagingProvider } from "./twilio.js";
+
+export const messagingProvider: MessagingProvider =
+  process.env.MESSAGING_PROVIDER === "twilio" ? createTwilioMessagingProvider() : createStubMessagingProvider();
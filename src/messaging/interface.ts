@@ -0,0 +1,13 @@
+export type MessageChannel = "whatsapp" | "sms";
+
+export interface OutgoingMessage {
+  channel: MessageChannel;
+  /** E.164 phone number. */
+  to: string;
+  body: string;
+}
+
+export interface MessagingProvider {
+  /** Deliver one message. Throws on failure so the job is retried. */
+  send(message: OutgoingMessage): Promise<void>;
+}
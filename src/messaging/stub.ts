@@ -0,0 +1,13 @@
+import type { MessagingProvider, OutgoingMessage } from "./interface.js";
+
+/** Logs messages and keeps them in `sent` instead of delivering them (local development and tests). */
+export function createStubMessagingProvider(): MessagingProvider & { sent: OutgoingMessage[] } {
+  const sent: OutgoingMessage[] = [];
+  return {
+    sent,
+    async send(message: OutgoingMessage): Promise<void> {
+      sent.push(message);
+      console.log(`[messaging] ${message.channel} (stub)`, { to: message.to, body: message.body });
+    },
+  };
+}
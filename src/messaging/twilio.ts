@@ -0,0 +1,30 @@
+import type { MessagingProvider, OutgoingMessage } from "./interface.js";
+
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+
+/** Twilio Programmable Messaging: SMS from TWILIO_SMS_FROM, WhatsApp from TWILIO_WHATSAPP_FROM. */
+export function createTwilioMessagingProvider(): MessagingProvider {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  if (!accountSid || !authToken) throw new Error("TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN are required when MESSAGING_PROVIDER=twilio");
+  const url = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
+  const auth = Buffer.from(`${accountSid}:${authToken}`).toString("base64");
+
+  return {
+    async send(message: OutgoingMessage): Promise<void> {
+      const from = message.channel === "whatsapp" ? process.env.TWILIO_WHATSAPP_FROM : process.env.TWILIO_SMS_FROM;
+      if (!from) throw new Error(`No Twilio sender configured for ${message.channel}`);
+      const prefix = message.channel === "whatsapp" ? "whatsapp:" : "";
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { Authorization: `Basic ${auth}`, "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({ From: `${prefix}${from}`, To: `${prefix}${message.to}`, Body: message.body }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!res.ok) {
+        const body = await res.text().catch(() => "");
+        throw new Error(`Twilio responded ${res.status}: ${body.slice(0, 500)}`);
+      }
+    },
+  };
+}
@@ -1,10 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 
 describe("requireTenant middleware", () => {
-  const mockReq = (tenantHeader: string | undefined, user: { tenantSlugs: string[] } | undefined) =>
+  const mockReq = (
+    tenantHeader: string | undefined,
+    user: { tenantSlugs: string[]; twoFactorEnabled?: boolean; twoFactorRequiredTenants?: string[] } | undefined
+  ) =>
     ({
       headers: { "x-tenant": tenantHeader },
-      user,
+      user: user && { twoFactorEnabled: false, twoFactorRequiredTenants: [], ...user },
       body: {},
     }) as any;
   const mockRes = () => {
@@ -57,4 +60,42 @@ describe("requireTenant middleware", () => {
     expect(mockNext).toHaveBeenCalled();
     expect(req.tenantSlug).toBe("my-tenant");
   });
+
+  it("rejects when the tenant requires 2FA and the user has not enabled it", async () => {
+    const { requireTenant } = await import("./auth.js");
+    const req = mockReq("my-tenant", { tenantSlugs: ["my-tenant"], twoFactorRequiredTenants: ["my-tenant"] });
+    const res = mockRes();
+    await requireTenant(req, res, mockNext);
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(mockNext).not.toHaveBeenCalled();
+  });
+
+  it("allows a 2FA-required tenant once the user has enabled 2FA", async () => {
+    const { requireTenant } = await import("./auth.js");
+    const req = mockReq("my-tenant", {
+      tenantSlugs: ["my-tenant"],
+      twoFactorEnabled: true,
+      twoFactorRequiredTenants: ["my-tenant"],
+    });
+    const res = mockRes();
+    await requireTenant(req, res, mockNext);
+    expect(mockNext).toHaveBeenCalled();
+  });
+});
+
+describe("signToken / verifyToken", () => {
+  it("round-trips the session id", async () => {
+    const { signToken, verifyToken } = await import("./auth.js");
+    const token = signToken({ sub: 1, email: "a@b.com", tenantSlugs: ["foo"], sid: 42 });
+    const decoded = verifyToken(token);
+    expect(decoded?.sub).toBe(1);
+    expect(decoded?.sid).toBe(42);
+  });
+
+  it("rejects tokens without a session id", async () => {
+    const jwt = (await import("jsonwebtoken")).default;
+    const { verifyToken } = await import("./auth.js");
+    const legacy = jwt.sign({ sub: 1, email: "a@b.com", tenantSlugs: [] }, process.env.JWT_SECRET!);
+    expect(verifyToken(legacy)).toBeNull();
+  });
 });
@@ -1,8 +1,9 @@
 import type { Request, Response, NextFunction } from "express";
+import crypto from "node:crypto";
 import jwt from "jsonwebtoken";
 import { publicDb } from "../db/index.js";
-import { tenantUsers, users, tenants } from "../db/schema/public.js";
-import { eq } from "drizzle-orm";
+import { tenantUsers, users, tenants, sessions } from "../db/schema/public.js";
+import { and, eq } from "drizzle-orm";
 
 export interface AuthUser {
   userId: number;
@@ -10,6 +11,10 @@ export interface AuthUser {
   name: string | null;
   tenantSlugs: string[];
   roleByTenant: Record<string, string>;
+  sessionId: number;
+  twoFactorEnabled: boolean;
+  /** Tenants whose policy requires 2FA for this user's role there. */
+  twoFactorRequiredTenants: string[];
 }
 
 declare global {
@@ -27,19 +32,33 @@ if (!JWT_SECRET || JWT_SECRET.length < 32) {
 }
 const secret: string = JWT_SECRET;
 
-export function signToken(payload: {
+/** Access tokens are short-lived; clients renew them with the session's refresh token. */
+export const ACCESS_TOKEN_TTL = "15m";
+
+export interface AccessTokenPayload {
   sub: number;
   email: string;
   tenantSlugs: string[];
-}): string {
-  return jwt.sign(payload, secret, { expiresIn: "7d" });
+  /** Session id (public.sessions); the token is rejected once the session is revoked. */
+  sid: number;
+}
+
+export function signToken(payload: AccessTokenPayload): string {
+  return jwt.sign(payload, secret, { expiresIn: ACCESS_TOKEN_TTL });
 }
 
-export function verifyToken(token: string): { sub: number; email: string; tenantSlugs: string[] } | null {
+export function verifyToken(token: string): AccessTokenPayload | null {
   try {
     const decoded = jwt.verify(token, secret);
-    if (typeof decoded === "object" && decoded !== null && "sub" in decoded && "email" in decoded && "tenantSlugs" in decoded) {
-      return decoded as unknown as { sub: number; email: string; tenantSlugs: string[] };
+    if (
+      typeof decoded === "object" &&
+      decoded !== null &&
+      "sub" in decoded &&
+      "email" in decoded &&
+      "tenantSlugs" in decoded &&
+      "sid" in decoded
+    ) {
+      return decoded as unknown as AccessTokenPayload;
     }
     return null;
   } catch {
@@ -47,6 +66,53 @@ export function verifyToken(token: string): { sub: number; email: string; tenant
   }
 }
 
+const CHALLENGE_TOKEN_TTL = "5m";
+
+/** Short-lived token proving the password step of a two-step (2FA) login succeeded. */
+export function signChallengeToken(userId: number): string {
+  return jwt.sign({ sub: userId, purpose: "2fa_challenge" }, secret, {
+    expiresIn: CHALLENGE_TOKEN_TTL,
+    jwtid: crypto.randomUUID(),
+  });
+}
+
+export interface LoginChallenge {
+  userId: number;
+  /** Token id, recorded once the challenge completes a login so it cannot be replayed */
+  jti: string;
+  expiresAt: Date;
+}
+
+/** Returns the challenge of a valid 2FA challenge token, or null. */
+export function verifyChallengeToken(token: string): LoginChallenge | null {
+  try {
+    const decoded = jwt.verify(token, secret);
+    if (
+      typeof decoded === "object" &&
+      decoded !== null &&
+      decoded.purpose === "2fa_challenge" &&
+      typeof decoded.sub === "number" &&
+      typeof decoded.jti === "string" &&
+      typeof decoded.exp === "number"
+    ) {
+      return { userId: decoded.sub, jti: decoded.jti, expiresAt: new Date(decoded.exp * 1000) };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/** True when the tenant's 2FA policy applies to a role (residents are never required to use 2FA). */
+export function roleRequiresTwoFactor(requireTwoFactor: boolean, role: string): boolean {
+  return requireTwoFactor && role !== "resident";
+}
+
+/** True if the user may act in the tenant as far as its 2FA policy is concerned. */
+export function satisfiesTwoFactorPolicy(user: AuthUser, tenantSlug: string): boolean {
+  return user.twoFactorEnabled || !user.twoFactorRequiredTenants.includes(tenantSlug);
+}
+
 export async function requireAuth(
   req: Request,
   res: Response,
@@ -65,6 +131,15 @@ export async function requireAuth(
     res.status(401).json({ error: "Invalid or expired token" });
     return;
   }
+  const [session] = await publicDb
+    .select({ revokedAt: sessions.revokedAt, expiresAt: sessions.expiresAt })
+    .from(sessions)
+    .where(and(eq(sessions.id, decoded.sid), eq(sessions.userId, decoded.sub)))
+    .limit(1);
+  if (!session || session.revokedAt || session.expiresAt < new Date()) {
+    res.status(401).json({ error: "Session expired or revoked" });
+    return;
+  }
   const [user] = await publicDb
     .select()
     .from(users)
@@ -78,6 +153,7 @@ export async function requireAuth(
     .select({
       slug: tenants.slug,
       role: tenantUsers.role,
+      requireTwoFactor: tenants.requireTwoFactor,
     })
     .from(tenantUsers)
     .innerJoin(tenants, eq(tenantUsers.tenantId, tenants.id))
@@ -87,12 +163,18 @@ export async function requireAuth(
   for (const r of tenantUserRows) {
     roleByTenant[r.slug] = r.role;
   }
+  const twoFactorRequiredTenants = tenantUserRows
+    .filter((r) => roleRequiresTwoFactor(r.requireTwoFactor, r.role))
+    .map((r) => r.slug);
   req.user = {
     userId: user.id,
     email: user.email,
     name: user.name,
     tenantSlugs,
     roleByTenant,
+    sessionId: decoded.sid,
+    twoFactorEnabled: user.totpEnabledAt != null,
+    twoFactorRequiredTenants,
   };
   next();
 }
@@ -115,6 +197,10 @@ export async function requireTenant(
     res.status(403).json({ error: "Access denied to this tenant" });
     return;
   }
+  if (!satisfiesTwoFactorPolicy(req.user, tenantSlug)) {
+    res.status(403).json({ error: "Two-factor authentication is required for this tenant. Enable it under /me/2fa." });
+    return;
+  }
   req.tenantSlug = tenantSlug;
   next();
 }
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from "vitest";
+import { rateLimit, emailKey } from "./rateLimit.js";
+import { createMemoryRateLimitStore } from "../rateLimit/memory.js";
+
+describe("rateLimit middleware", () => {
+  const mockReq = (ip: string, body: Record<string, unknown> = {}) => ({ ip, body }) as any;
+  const mockRes = () => {
+    const res: any = {};
+    res.status = vi.fn().mockReturnValue(res);
+    res.json = vi.fn().mockReturnValue(res);
+    res.setHeader = vi.fn();
+    return res;
+  };
+
+  it("allows up to max requests per key, then responds 429 with Retry-After", async () => {
+    const limiter = rateLimit({ name: "t", windowMs: 60_000, max: 2, store: createMemoryRateLimitStore() });
+    const next = vi.fn();
+    await limiter(mockReq("1.1.1.1"), mockRes(), next);
+    await limiter(mockReq("1.1.1.1"), mockRes(), next);
+    expect(next).toHaveBeenCalledTimes(2);
+    const res = mockRes();
+    await limiter(mockReq("1.1.1.1"), res, next);
+    expect(next).toHaveBeenCalledTimes(2);
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.setHeader).toHaveBeenCalledWith("Retry-After", expect.any(String));
+  });
+
+  it("counts keys independently", async () => {
+    const limiter = rateLimit({ name: "t", windowMs: 60_000, max: 1, store: createMemoryRateLimitStore() });
+    const next = vi.fn();
+    await limiter(mockReq("1.1.1.1"), mockRes(), next);
+    await limiter(mockReq("2.2.2.2"), mockRes(), next);
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it("keys by normalized email and skips requests without one", async () => {
+    expect(emailKey(mockReq("x", { email: " Foo@Example.com " }))).toBe("foo@example.com");
+    expect(emailKey(mockReq("x"))).toBeNull();
+    const limiter = rateLimit({ name: "t", windowMs: 60_000, max: 1, key: emailKey, store: createMemoryRateLimitStore() });
+    const next = vi.fn();
+    await limiter(mockReq("x"), mockRes(), next);
+    await limiter(mockReq("x"), mockRes(), next);
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it("fails open when the store errors", async () => {
+    const store = { hit: vi.fn().mockRejectedValue(new Error("down")), reset: vi.fn() };
+    const limiter = rateLimit({ name: "t", windowMs: 60_000, max: 1, store });
+    const next = vi.fn();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await limiter(mockReq("1.1.1.1"), mockRes(), next);
+    expect(next).toHaveBeenCalled();
+  });
+});
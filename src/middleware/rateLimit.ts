@@ -0,0 +1,57 @@
+import type { Request, Response, NextFunction } from "express";
+import { rateLimitStore } from "../rateLimit/index.js";
+import type { RateLimitStore } from "../rateLimit/interface.js";
+
+export interface RateLimitOptions {
+  /** Namespace for the counters, e.g. "login-ip". */
+  name: string;
+  windowMs: number;
+  /** Requests allowed per key per window. */
+  max: number;
+  /** Key to count by; defaults to the client IP. Return null to skip limiting for this request. */
+  key?: (req: Request) => string | null;
+  store?: RateLimitStore;
+}
+
+/** Key by the `email` field of the JSON body (lowercased), for per-account limits. */
+export function emailKey(req: Request): string | null {
+  const email = req.body?.email;
+  return typeof email === "string" && email.trim() ? email.trim().toLowerCase() : null;
+}
+
+/**
+ * Fixed-window rate limiter. Responds 429 with Retry-After once `max` is exceeded.
+ * Fails open if the store is unavailable so an outage does not lock everyone out.
+ */
+export function rateLimit(options: RateLimitOptions) {
+  const store = options.store ?? rateLimitStore;
+  return async function rateLimitMiddleware(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const key = options.key ? options.key(req) : req.ip ?? "unknown";
+    if (key == null) {
+      next();
+      return;
+    }
+    let hit;
+    try {
+      hit = await store.hit(`${options.name}:${key}`, options.windowMs);
+    } catch (err) {
+      console.error("[rateLimit] store error", err);
+      next();
+      return;
+    }
+    res.setHeader("RateLimit-Limit", String(options.max));
+    res.setHeader("RateLimit-Remaining", String(Math.max(0, options.max - hit.count)));
+    if (hit.count > options.max) {
+      const retryAfter = Math.max(1, Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000));
+      res.setHeader("Retry-After", String(retryAfter));
+      res.status(429).json({ error: "Too many requests. Please try again later." });
+      return;
+    }
+    next();
+  };
+}
+
+const MINUTE = 60 * 1000;
+
+/** Shared limit for unauthenticated token links (invites, budget approvals, vendor portal, signed file links): 60 requests / 15 min per IP. */
+export const publicLinkRateLimit = rateLimit({ name: "public-link", windowMs: 15 * MINUTE, max: 60 });
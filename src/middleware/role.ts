@@ -1,7 +1,10 @@
 import type { Request, Response, NextFunction } from "express";
 import { tenantDb } from "../db/tenantDb.js";
-import { unitMembers, units } from "../db/schema/tenant.js";
-import { eq, inArray } from "drizzle-orm";
+import { publicDb } from "../db/index.js";
+import { tenants, tenantUsers } from "../db/schema/public.js";
+import { unitMembers, units, rolePermissions, buildingStaff } from "../db/schema/tenant.js";
+import { and, eq, inArray } from "drizzle-orm";
+import { resolvePermissions, type Permission } from "../services/permissions.js";
 
 /** Returns true if the user has resident role in this tenant. */
 export function isResident(req: Request): boolean {
@@ -37,11 +40,89 @@ export async function getResidentBuildingIds(
   return [...new Set(rows.map((r) => r.buildingId))];
 }
 
-/** Returns true if the user is an org admin (org_owner or org_admin). */
-export function isAdmin(req: Request): boolean {
+/** Roles that only see and act on the buildings they are assigned to in building_staff. */
+export const BUILDING_SCOPED_ROLES: readonly string[] = ["property_manager"];
+
+/** Returns true if the user's role is limited to assigned buildings in this tenant. */
+export function isBuildingScoped(req: Request): boolean {
   if (!req.user || !req.tenantSlug) return false;
-  const role = req.user.roleByTenant[req.tenantSlug];
-  return role === "org_owner" || role === "org_admin";
+  return BUILDING_SCOPED_ROLES.includes(req.user.roleByTenant[req.tenantSlug] ?? "");
+}
+
+/** Get building IDs the staff member is assigned to. */
+export async function getStaffBuildingIds(
+  tenantSlug: string,
+  userId: number
+): Promise<number[]> {
+  const rows = await tenantDb(tenantSlug, (db) =>
+    db
+      .select({ buildingId: buildingStaff.buildingId })
+      .from(buildingStaff)
+      .where(eq(buildingStaff.userId, userId))
+  );
+  return rows.map((r) => r.buildingId);
+}
+
+/**
+ * Tickets can be assigned to staff of this tenant (not residents). Building-scoped staff only to tickets
+ * of buildings they are assigned to, since they could not see the ticket otherwise.
+ */
+export async function isAssignableStaff(slug: string, userId: number, buildingId: number): Promise<boolean> {
+  const [membership] = await publicDb
+    .select({ role: tenantUsers.role })
+    .from(tenantUsers)
+    .innerJoin(tenants, eq(tenantUsers.tenantId, tenants.id))
+    .where(and(eq(tenants.slug, slug), eq(tenantUsers.userId, userId)))
+    .limit(1);
+  if (!membership || membership.role === "resident") return false;
+  if (!BUILDING_SCOPED_ROLES.includes(membership.role)) return true;
+  return (await getStaffBuildingIds(slug, userId)).includes(buildingId);
+}
+
+const visibleBuildingCache = new WeakMap<Request, number[] | null>();
+
+/**
+ * Building IDs the user may see in this tenant: residents via their units, building-scoped staff
+ * via their assignments. null means every building (admins and unscoped staff roles).
+ */
+export async function getVisibleBuildingIds(req: Request): Promise<number[] | null> {
+  if (visibleBuildingCache.has(req)) return visibleBuildingCache.get(req)!;
+  const slug = req.tenantSlug!;
+  const userId = req.user!.userId;
+  let ids: number[] | null = null;
+  if (isResident(req)) ids = await getResidentBuildingIds(slug, userId);
+  else if (isBuildingScoped(req)) ids = await getStaffBuildingIds(slug, userId);
+  visibleBuildingCache.set(req, ids);
+  return ids;
+}
+
+/** Returns true if the building is visible to the user (see getVisibleBuildingIds). */
+export async function canAccessBuilding(req: Request, buildingId: number): Promise<boolean> {
+  const ids = await getVisibleBuildingIds(req);
+  return ids == null || ids.includes(buildingId);
+}
+
+/**
+ * Staff check for unit-level actions: the unit must belong to a building the user may act on.
+ * Returns false for unknown units.
+ */
+export async function canManageUnit(req: Request, unitId: number): Promise<boolean> {
+  const [unit] = await tenantDb(req.tenantSlug!, (db) =>
+    db.select({ buildingId: units.buildingId }).from(units).where(eq(units.id, unitId)).limit(1)
+  );
+  if (!unit) return false;
+  if (isResident(req)) return false;
+  return canAccessBuilding(req, unit.buildingId);
+}
+
+/**
+ * Staff check for records with an optional building (announcements, documents, fee templates):
+ * building-scoped staff may only manage records of their own buildings, not tenant-wide ones (null).
+ */
+export async function canManageBuildingRecord(req: Request, buildingId: number | null): Promise<boolean> {
+  if (isResident(req)) return false;
+  if (buildingId == null) return !isBuildingScoped(req);
+  return canAccessBuilding(req, buildingId);
 }
 
 /** Require staff (non-resident). Returns 403 for residents. */
@@ -61,19 +142,48 @@ export async function requireStaff(
   next();
 }
 
-/** Require org admin (org_owner or org_admin). Returns 403 for non-admins. */
-export async function requireAdmin(
-  req: Request,
-  res: Response,
-  next: NextFunction
-): Promise<void> {
-  if (!req.user || !req.tenantSlug) {
-    res.status(401).json({ error: "Unauthorized" });
-    return;
-  }
-  if (!isAdmin(req)) {
-    res.status(403).json({ error: "Access denied: admins only" });
-    return;
-  }
-  next();
+const permissionCache = new WeakMap<Request, Set<Permission>>();
+
+/** Effective permissions of the current user in the current tenant (role defaults + tenant overrides). */
+export async function getPermissions(req: Request): Promise<Set<Permission>> {
+  const cached = permissionCache.get(req);
+  if (cached) return cached;
+  if (!req.user || !req.tenantSlug) return new Set();
+  const role = req.user.roleByTenant[req.tenantSlug];
+  if (!role) return new Set();
+  const overrides =
+    role === "org_owner" || role === "resident"
+      ? []
+      : await tenantDb(req.tenantSlug, (db) =>
+          db.select().from(rolePermissions).where(eq(rolePermissions.role, role))
+        );
+  const permissions = resolvePermissions(role, overrides);
+  permissionCache.set(req, permissions);
+  return permissions;
+}
+
+export async function hasPermission(req: Request, permission: Permission): Promise<boolean> {
+  return (await getPermissions(req)).has(permission);
+}
+
+/** Require a specific permission in the current tenant. Returns 403 when the user's role lacks it. */
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user || !req.tenantSlug) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    let allowed: boolean;
+    try {
+      allowed = await hasPermission(req, permission);
+    } catch (err) {
+      next(err);
+      return;
+    }
+    if (!allowed) {
+      res.status(403).json({ error: `Access denied: missing permission ${permission}` });
+      return;
+    }
+    next();
+  };
 }
@@ -0,0 +1,6 @@
+import type { RateLimitStore } from "./interface.js";
+import { createMemoryRateLimitStore } from "./memory.js";
+import { postgresRateLimitStore } from "./postgres.js";
+
+export const rateLimitStore: RateLimitStore =
+  process.env.RATE_LIMIT_STORE === "postgres" ? postgresRateLimitStore : createMemoryRateLimitStore();
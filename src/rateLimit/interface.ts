@@ -0,0 +1,13 @@
+export interface RateLimitHit {
+  /** Number of hits in the current window, including this one. */
+  count: number;
+  /** When the current window ends. */
+  resetAt: Date;
+}
+
+export interface RateLimitStore {
+  /** Record one hit for `key` in a fixed window of `windowMs` and return the running count. */
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+  /** Forget all hits for `key` (e.g. after a successful login). */
+  reset(key: string): Promise<void>;
+}
@@ -0,0 +1,31 @@
+import type { RateLimitHit, RateLimitStore } from "./interface.js";
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/** Per-process fixed-window counters. Fine for a single instance; use the Postgres store when running several. */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [key, w] of windows) {
+      if (w.resetAt <= now) windows.delete(key);
+    }
+  }, SWEEP_INTERVAL_MS);
+  sweep.unref();
+
+  return {
+    async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+      const now = Date.now();
+      let w = windows.get(key);
+      if (!w || w.resetAt <= now) {
+        w = { count: 0, resetAt: now + windowMs };
+        windows.set(key, w);
+      }
+      w.count += 1;
+      return { count: w.count, resetAt: new Date(w.resetAt) };
+    },
+    async reset(key: string): Promise<void> {
+      windows.delete(key);
+    },
+  };
+}
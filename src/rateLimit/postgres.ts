@@ -0,0 +1,23 @@
+import { pool } from "../db/index.js";
+import type { RateLimitHit, RateLimitStore } from "./interface.js";
+
+/** Fixed-window counters in public.rate_limits, shared by all API instances. */
+export const postgresRateLimitStore: RateLimitStore = {
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    // One round trip: start a new window if the old one has expired, otherwise increment.
+    const result = await pool.query<{ count: number; reset_at: Date }>(
+      `INSERT INTO public.rate_limits (key, count, reset_at)
+       VALUES ($1, 1, now() + ($2::int * interval '1 millisecond'))
+       ON CONFLICT (key) DO UPDATE SET
+         count = CASE WHEN rate_limits.reset_at <= now() THEN 1 ELSE rate_limits.count + 1 END,
+         reset_at = CASE WHEN rate_limits.reset_at <= now() THEN EXCLUDED.reset_at ELSE rate_limits.reset_at END
+       RETURNING count, reset_at`,
+      [key, windowMs]
+    );
+    const row = result.rows[0]!;
+    return { count: row.count, resetAt: new Date(row.reset_at) };
+  },
+  async reset(key: string): Promise<void> {
+    await pool.query(`DELETE FROM public.rate_limits WHERE key = $1`, [key]);
+  },
+};
@@ -1,7 +1,7 @@
 import { Router } from "express";
 import { z } from "zod";
 import { requireAuth, requireTenant } from "../middleware/auth.js";
-import { isResident, getResidentBuildingIds, requireStaff } from "../middleware/role.js";
+import { getVisibleBuildingIds, canAccessBuilding, canManageBuildingRecord, requirePermission } from "../middleware/role.js";
 import { tenantDb } from "../db/tenantDb.js";
 import {
   announcements as announcementsTable,
@@ -9,6 +9,8 @@ import {
 } from "../db/schema/tenant.js";
 import { eq, and, desc, or, inArray, isNull } from "drizzle-orm";
 import { logAudit } from "../services/auditLog.js";
+import { queueNotification } from "../services/notify.js";
+import { publishLiveEvent } from "../services/liveEvents.js";
 import { getPublicUser } from "../services/userLookup.js";
 
 export const announcementsRouter = Router();
@@ -26,8 +28,8 @@ announcementsRouter.get("/", async (req, res) => {
   const userId = req.user!.userId;
   const list = await tenantDb(slug, async (db) => {
     let rows;
-    if (isResident(req)) {
-      const buildingIds = await getResidentBuildingIds(slug, userId);
+    const buildingIds = await getVisibleBuildingIds(req);
+    if (buildingIds != null) {
       const residentCondition =
         buildingIds.length > 0
           ? or(isNull(announcementsTable.buildingId), inArray(announcementsTable.buildingId, buildingIds))
@@ -63,12 +65,16 @@ announcementsRouter.get("/", async (req, res) => {
   res.json(list);
 });
 
-announcementsRouter.post("/", requireStaff, async (req, res) => {
+announcementsRouter.post("/", requirePermission("announcements:write"), async (req, res) => {
   const parsed = createAnnouncementSchema.safeParse(req.body);
   if (!parsed.success) {
     res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
     return;
   }
+  if (!(await canManageBuildingRecord(req, parsed.data.buildingId ?? null))) {
+    res.status(403).json({ error: "Access denied: you can only post announcements for your buildings" });
+    return;
+  }
   const slug = req.tenantSlug!;
   const actorId = req.user!.userId;
   const [row] = await tenantDb(slug, async (db) => {
@@ -84,6 +90,10 @@ announcementsRouter.post("/", requireStaff, async (req, res) => {
     if (r) await logAudit(db, { actorId, action: "create", entityType: "announcement", entityId: r.id, details: { title: r.title } });
     return r ? [r] : [];
   });
+  if (row) {
+    await queueNotification(slug, { event: "announcement", announcementId: row.id, actorId });
+    await publishLiveEvent(slug, { type: "announcement", announcementId: row.id, buildingId: row.buildingId });
+  }
   res.status(201).json(row);
 });
 
@@ -101,18 +111,15 @@ announcementsRouter.get("/:id", async (req, res) => {
     res.status(404).json({ error: "Not found" });
     return;
   }
-  if (isResident(req) && row.buildingId != null) {
-    const buildingIds = await getResidentBuildingIds(slug, req.user!.userId);
-    if (!buildingIds.includes(row.buildingId)) {
-      res.status(404).json({ error: "Not found" });
-      return;
-    }
+  if (row.buildingId != null && !(await canAccessBuilding(req, row.buildingId))) {
+    res.status(404).json({ error: "Not found" });
+    return;
   }
   const createdByUser = await getPublicUser(row.createdBy);
   res.json({ ...row, createdByUser: createdByUser ? { id: createdByUser.id, name: createdByUser.name, email: createdByUser.email } : null });
 });
 
-announcementsRouter.patch("/:id", requireStaff, async (req, res) => {
+announcementsRouter.patch("/:id", requirePermission("announcements:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
@@ -124,6 +131,20 @@ announcementsRouter.patch("/:id", requireStaff, async (req, res) => {
     return;
   }
   const slug = req.tenantSlug!;
+  const [existing] = await tenantDb(slug, (db) =>
+    db.select({ buildingId: announcementsTable.buildingId }).from(announcementsTable).where(eq(announcementsTable.id, id)).limit(1)
+  );
+  if (!existing) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  if (
+    !(await canManageBuildingRecord(req, existing.buildingId)) ||
+    (parsed.data.buildingId !== undefined && !(await canManageBuildingRecord(req, parsed.data.buildingId)))
+  ) {
+    res.status(403).json({ error: "Access denied: you can only manage announcements for your buildings" });
+    return;
+  }
   const actorId = req.user!.userId;
   const [row] = await tenantDb(slug, async (db) => {
     const [r] = await db
@@ -141,13 +162,24 @@ announcementsRouter.patch("/:id", requireStaff, async (req, res) => {
   res.json(row);
 });
 
-announcementsRouter.delete("/:id", requireStaff, async (req, res) => {
+announcementsRouter.delete("/:id", requirePermission("announcements:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
     return;
   }
   const slug = req.tenantSlug!;
+  const [existing] = await tenantDb(slug, (db) =>
+    db.select({ buildingId: announcementsTable.buildingId }).from(announcementsTable).where(eq(announcementsTable.id, id)).limit(1)
+  );
+  if (!existing) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  if (!(await canManageBuildingRecord(req, existing.buildingId))) {
+    res.status(403).json({ error: "Access denied: you can only manage announcements for your buildings" });
+    return;
+  }
   const actorId = req.user!.userId;
   const [row] = await tenantDb(slug, async (db) => {
     const [r] = await db
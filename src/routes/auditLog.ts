@@ -1,13 +1,13 @@
 import { Router } from "express";
 import { requireAuth, requireTenant } from "../middleware/auth.js";
-import { requireAdmin } from "../middleware/role.js";
+import { requirePermission } from "../middleware/role.js";
 import { tenantDb } from "../db/tenantDb.js";
 import { auditLog as auditLogTable } from "../db/schema/tenant.js";
 import { desc } from "drizzle-orm";
 import { getPublicUsers } from "../services/userLookup.js";
 
 export const auditLogRouter = Router();
-auditLogRouter.use(requireAuth, requireTenant, requireAdmin);
+auditLogRouter.use(requireAuth, requireTenant, requirePermission("audit:read"));
 
 /** GET /audit-log - list recent audit entries for the tenant (admins only) */
 auditLogRouter.get("/", async (req, res) => {
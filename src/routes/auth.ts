@@ -1,10 +1,29 @@
 import { Router } from "express";
+import type { Request } from "express";
 import bcrypt from "bcryptjs";
 import { z } from "zod";
 import { publicDb } from "../db/index.js";
-import { users, tenantUsers, tenants } from "../db/schema/public.js";
-import { eq } from "drizzle-orm";
-import { signToken, verifyToken, requireAuth } from "../middleware/auth.js";
+import { users, tenantUsers, tenants, passwordResetTokens } from "../db/schema/public.js";
+import { and, eq, gt, isNull } from "drizzle-orm";
+import {
+  signToken,
+  requireAuth,
+  signChallengeToken,
+  verifyChallengeToken,
+  roleRequiresTwoFactor,
+} from "../middleware/auth.js";
+import {
+  createSession,
+  refreshSession,
+  revokeSession,
+  revokeAllSessions,
+  sessionMetaFromRequest,
+} from "../services/sessionService.js";
+import { generateToken, hashToken } from "../services/tokens.js";
+import { sendPasswordResetEmail } from "../services/notify.js";
+import { completeLoginChallenge } from "../services/twoFactor.js";
+import { clearFailedLogins, isLockedOut, recordFailedLogin } from "../services/loginLockout.js";
+import { rateLimit, emailKey } from "../middleware/rateLimit.js";
 
 export const authRouter = Router();
 
@@ -13,25 +32,13 @@ const loginSchema = z.object({
   password: z.string().min(1),
 });
 
-authRouter.post("/login", async (req, res) => {
-  const parsed = loginSchema.safeParse(req.body);
-  if (!parsed.success) {
-    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
-    return;
-  }
-  const { email, password } = parsed.data;
-  const [user] = await publicDb.select().from(users).where(eq(users.email, email)).limit(1);
-  if (!user) {
-    res.status(401).json({ error: "Invalid email or password" });
-    return;
-  }
-  const ok = await bcrypt.compare(password, user.passwordHash);
-  if (!ok) {
-    res.status(401).json({ error: "Invalid email or password" });
-    return;
-  }
+/** Builds the login response: opens a session and returns the token pair with the user's tenants. */
+async function completeLogin(
+  req: Request,
+  user: { id: number; email: string; name: string | null; totpEnabledAt: Date | null }
+) {
   const tenantRows = await publicDb
-    .select({ slug: tenants.slug, role: tenantUsers.role })
+    .select({ slug: tenants.slug, role: tenantUsers.role, requireTwoFactor: tenants.requireTwoFactor })
     .from(tenantUsers)
     .innerJoin(tenants, eq(tenantUsers.tenantId, tenants.id))
     .where(eq(tenantUsers.userId, user.id));
@@ -40,21 +47,125 @@ authRouter.post("/login", async (req, res) => {
   for (const r of tenantRows) {
     roleByTenant[r.slug] = r.role;
   }
-  const accessToken = signToken({
-    sub: user.id,
-    email: user.email,
-    tenantSlugs,
-  });
-  res.json({
+  const twoFactorRequiredTenants = tenantRows
+    .filter((r) => roleRequiresTwoFactor(r.requireTwoFactor, r.role))
+    .map((r) => r.slug);
+  await clearFailedLogins(user.id);
+  const { accessToken, refreshToken } = await createSession(user, sessionMetaFromRequest(req));
+  return {
     user: {
       id: user.id,
       email: user.email,
       name: user.name,
       tenantSlugs,
       roleByTenant,
+      twoFactorEnabled: user.totpEnabledAt != null,
+      twoFactorRequiredTenants,
     },
     accessToken,
-  });
+    refreshToken,
+  };
+}
+
+/**
+ * POST /auth/login - email + password. When the user has 2FA enabled, no tokens are issued;
+ * instead { twoFactorRequired: true, challengeToken } is returned for POST /auth/login/2fa.
+ */
+const MINUTE = 60 * 1000;
+const loginIpLimit = rateLimit({ name: "login-ip", windowMs: 15 * MINUTE, max: 30 });
+const loginEmailLimit = rateLimit({ name: "login-email", windowMs: 15 * MINUTE, max: 10, key: emailKey });
+
+authRouter.post("/login", loginIpLimit, loginEmailLimit, async (req, res) => {
+  const parsed = loginSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const { email, password } = parsed.data;
+  const [user] = await publicDb.select().from(users).where(eq(users.email, email)).limit(1);
+  if (!user) {
+    res.status(401).json({ error: "Invalid email or password" });
+    return;
+  }
+  if (isLockedOut(user)) {
+    res.status(429).json({ error: "Too many failed sign-in attempts. Please try again later." });
+    return;
+  }
+  const ok = await bcrypt.compare(password, user.passwordHash);
+  if (!ok) {
+    await recordFailedLogin(user.id, req.ip ?? null);
+    res.status(401).json({ error: "Invalid email or password" });
+    return;
+  }
+  if (user.totpEnabledAt) {
+    res.json({ twoFactorRequired: true, challengeToken: signChallengeToken(user.id) });
+    return;
+  }
+  res.json(await completeLogin(req, user));
+});
+
+const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().min(1).max(32),
+});
+
+/** POST /auth/login/2fa - second login step: TOTP code or recovery code for the challenge from /auth/login */
+authRouter.post("/login/2fa", loginIpLimit, async (req, res) => {
+  const parsed = twoFactorLoginSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const challenge = verifyChallengeToken(parsed.data.challengeToken);
+  if (!challenge) {
+    res.status(401).json({ error: "Login challenge expired. Sign in again." });
+    return;
+  }
+  const [user] = await publicDb.select().from(users).where(eq(users.id, challenge.userId)).limit(1);
+  if (!user) {
+    res.status(401).json({ error: "Invalid authentication code" });
+    return;
+  }
+  if (isLockedOut(user)) {
+    res.status(429).json({ error: "Too many failed sign-in attempts. Please try again later." });
+    return;
+  }
+  const result = await completeLoginChallenge(challenge, user, parsed.data.code);
+  if (result === "used") {
+    res.status(401).json({ error: "Login challenge already used. Sign in again." });
+    return;
+  }
+  if (result === "invalid") {
+    await recordFailedLogin(user.id, req.ip ?? null);
+    res.status(401).json({ error: "Invalid authentication code" });
+    return;
+  }
+  res.json(await completeLogin(req, user));
+});
+
+const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+/** POST /auth/refresh - exchange a refresh token for a new access token; the refresh token is rotated */
+authRouter.post("/refresh", rateLimit({ name: "refresh-ip", windowMs: 15 * MINUTE, max: 120 }), async (req, res) => {
+  const parsed = refreshSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const tokens = await refreshSession(parsed.data.refreshToken, sessionMetaFromRequest(req));
+  if (!tokens) {
+    res.status(401).json({ error: "Invalid or expired refresh token" });
+    return;
+  }
+  res.json({ accessToken: tokens.accessToken, refreshToken: tokens.refreshToken });
+});
+
+/** POST /auth/logout - revoke the current session (access and refresh token stop working) */
+authRouter.post("/logout", requireAuth, async (req, res) => {
+  await revokeSession(req.user!.userId, req.user!.sessionId);
+  res.status(204).send();
 });
 
 const switchTenantSchema = z.object({
@@ -76,6 +187,83 @@ authRouter.post("/switch-tenant", requireAuth, async (req, res) => {
     sub: req.user!.userId,
     email: req.user!.email,
     tenantSlugs: req.user!.tenantSlugs,
+    sid: req.user!.sessionId,
   });
   res.json({ accessToken, activeTenantSlug: tenantSlug });
 });
+
+/** Reset links are valid for one hour. */
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+/**
+ * POST /auth/forgot-password - email a single-use reset link.
+ * Always answers the same way so the response does not reveal whether the email is registered.
+ */
+authRouter.post(
+  "/forgot-password",
+  rateLimit({ name: "forgot-ip", windowMs: 60 * MINUTE, max: 10 }),
+  rateLimit({ name: "forgot-email", windowMs: 60 * MINUTE, max: 3, key: emailKey }),
+  async (req, res) => {
+    const parsed = forgotPasswordSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+      return;
+    }
+    const [user] = await publicDb
+      .select({ id: users.id, email: users.email, name: users.name })
+      .from(users)
+      .where(eq(users.email, parsed.data.email))
+      .limit(1);
+    if (user) {
+      const token = generateToken();
+      const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MS);
+      // Only the latest link works: invalidate any earlier unused ones.
+      await publicDb
+        .update(passwordResetTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(passwordResetTokens.userId, user.id), isNull(passwordResetTokens.usedAt)));
+      await publicDb.insert(passwordResetTokens).values({ userId: user.id, tokenHash: hashToken(token), expiresAt });
+      await sendPasswordResetEmail({ email: user.email, name: user.name, token, expiresAt });
+    }
+    res.json({ ok: true, message: "If an account exists for this email, a reset link has been sent." });
+  }
+);
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  newPassword: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+/** POST /auth/reset-password - consume a reset token and set a new password. Signs out all existing sessions. */
+authRouter.post("/reset-password", rateLimit({ name: "reset-ip", windowMs: 15 * MINUTE, max: 10 }), async (req, res) => {
+  const parsed = resetPasswordSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const now = new Date();
+  const [consumed] = await publicDb
+    .update(passwordResetTokens)
+    .set({ usedAt: now })
+    .where(
+      and(
+        eq(passwordResetTokens.tokenHash, hashToken(parsed.data.token)),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, now)
+      )
+    )
+    .returning({ userId: passwordResetTokens.userId });
+  if (!consumed) {
+    res.status(400).json({ error: "Invalid or expired reset token" });
+    return;
+  }
+  const passwordHash = await bcrypt.hash(parsed.data.newPassword, 10);
+  await publicDb.update(users).set({ passwordHash }).where(eq(users.id, consumed.userId));
+  await revokeAllSessions(consumed.userId);
+  await clearFailedLogins(consumed.userId);
+  res.status(204).send();
+});
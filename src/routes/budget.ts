@@ -1,7 +1,7 @@
 import { Router } from "express";
 import { z } from "zod";
 import { requireAuth, requireTenant } from "../middleware/auth.js";
-import { requireStaff, isResident, getResidentBuildingIds } from "../middleware/role.js";
+import { requireStaff, requirePermission, getVisibleBuildingIds, canAccessBuilding } from "../middleware/role.js";
 import { tenantDb } from "../db/tenantDb.js";
 import {
   budgetPeriods,
@@ -15,19 +15,43 @@ import {
   units,
   buildings,
   feeTemplates,
-  unitMembers,
   documents as documentsTable,
 } from "../db/schema/tenant.js";
 import { eq, and, desc, or, isNull, lt, sql, inArray } from "drizzle-orm";
 import { logAudit } from "../services/auditLog.js";
-import { publicDb } from "../db/index.js";
-import { users } from "../db/schema/public.js";
-import { sendBudgetApprovalEmail } from "../services/notify.js";
+import { enqueueJob } from "../jobs/queue.js";
+import { getTenantId } from "../services/tenantService.js";
+import { publishBudgetApprovalCounts } from "../services/liveEvents.js";
+import { emitWebhookEvent } from "../services/webhooks.js";
 import crypto from "crypto";
+import type { Request, Response, NextFunction } from "express";
 
 export const budgetRouter = Router();
 budgetRouter.use(requireAuth, requireTenant);
 
+/**
+ * Every /periods/:id and /periods/:periodId route is limited to periods of buildings the user can see
+ * (residents via their units, property managers via their building assignments).
+ */
+async function checkPeriodAccess(req: Request, res: Response, next: NextFunction, value: string): Promise<void> {
+  const id = parseInt(value, 10);
+  if (Number.isNaN(id)) return next();
+  try {
+    const [period] = await tenantDb(req.tenantSlug!, (db) =>
+      db.select({ buildingId: budgetPeriods.buildingId }).from(budgetPeriods).where(eq(budgetPeriods.id, id)).limit(1)
+    );
+    if (period && !(await canAccessBuilding(req, period.buildingId))) {
+      res.status(404).json({ error: "Not found" });
+      return;
+    }
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+budgetRouter.param("id", checkPeriodAccess);
+budgetRouter.param("periodId", checkPeriodAccess);
+
 const categoryEnum = z.enum(["one_time", "recurring", "extras"]);
 const statusEnum = z.enum(["draft", "proposed", "approved", "closed"]);
 
@@ -61,9 +85,8 @@ budgetRouter.get("/periods", async (req, res) => {
   const slug = req.tenantSlug!;
   const buildingIdParam = req.query.buildingId as string | undefined;
   const buildingId = buildingIdParam ? parseInt(buildingIdParam, 10) : undefined;
-  let allowedBuildingIds: number[] | null = null;
-  if (isResident(req)) {
-    allowedBuildingIds = await getResidentBuildingIds(slug, req.user!.userId);
+  const allowedBuildingIds = await getVisibleBuildingIds(req);
+  if (allowedBuildingIds) {
     if (allowedBuildingIds.length === 0) return res.json([]);
     if (buildingId != null && !Number.isNaN(buildingId) && !allowedBuildingIds.includes(buildingId)) {
       return res.status(403).json({ error: "Access denied to this building" });
@@ -105,13 +128,6 @@ budgetRouter.get("/periods/:id", async (req, res) => {
     res.status(404).json({ error: "Not found" });
     return;
   }
-  if (isResident(req)) {
-    const buildingIds = await getResidentBuildingIds(slug, req.user!.userId);
-    if (!buildingIds.includes(period.buildingId)) {
-      res.status(404).json({ error: "Not found" });
-      return;
-    }
-  }
   const lines = await tenantDb(slug, (db) => db.select().from(budgetLines).where(eq(budgetLines.budgetPeriodId, id)).orderBy(budgetLines.sortOrder, budgetLines.id));
   const missing = await tenantDb(slug, (db) => db.select().from(budgetMissingPayments).where(eq(budgetMissingPayments.budgetPeriodId, id)));
   const contributions = await tenantDb(slug, (db) => db.select().from(budgetUnitContributions).where(eq(budgetUnitContributions.budgetPeriodId, id)));
@@ -181,7 +197,7 @@ budgetRouter.get("/periods/:id", async (req, res) => {
 
 budgetRouter.use(requireStaff);
 
-budgetRouter.post("/periods", async (req, res) => {
+budgetRouter.post("/periods", requirePermission("budget:write"), async (req, res) => {
   const parsed = createPeriodSchema.safeParse(req.body);
   if (!parsed.success) {
     res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
@@ -190,6 +206,10 @@ budgetRouter.post("/periods", async (req, res) => {
   const slug = req.tenantSlug!;
   const actorId = req.user!.userId;
   const bid = parsed.data!.buildingId;
+  if (!(await canAccessBuilding(req, bid))) {
+    res.status(403).json({ error: "Access denied to this building" });
+    return;
+  }
   const year = parsed.data!.year;
   const startDate = `${year}-01-01`;
   const endDate = `${year}-12-31`;
@@ -277,7 +297,7 @@ budgetRouter.post("/periods", async (req, res) => {
   res.status(201).json(period);
 });
 
-budgetRouter.post("/periods/:id/send-for-approval", async (req, res) => {
+budgetRouter.post("/periods/:id/send-for-approval", requirePermission("budget:send"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
@@ -294,76 +314,42 @@ budgetRouter.post("/periods/:id/send-for-approval", async (req, res) => {
     return;
   }
   const unitsList = await tenantDb(slug, (db) => db.select().from(units).where(eq(units.buildingId, period.buildingId)));
-  const contributions = await tenantDb(slug, (db) =>
-    db.select().from(budgetUnitContributions).where(eq(budgetUnitContributions.budgetPeriodId, id))
-  );
-  const contributionByUnit = Object.fromEntries(contributions.map((c) => [c.unitId, parseFloat(String(c.amount))]));
-  const lines = await tenantDb(slug, (db) =>
-    db.select().from(budgetLines).where(eq(budgetLines.budgetPeriodId, id)).orderBy(budgetLines.sortOrder, budgetLines.id)
-  );
-  const total = lines.reduce((sum, l) => sum + parseFloat(String(l.amount)), 0);
-  const sharePerUnitDefault = unitsList.length ? (total / unitsList.length).toFixed(2) : "0";
-  const [building] = await tenantDb(slug, (db) => db.select().from(buildings).where(eq(buildings.id, period.buildingId)).limit(1));
-  await tenantDb(slug, async (db) => {
-    const existing = await db.select().from(budgetApprovals).where(eq(budgetApprovals.budgetPeriodId, id));
-    if (existing.length > 0) {
-      return;
-    }
-    for (const u of unitsList) {
-      const token = crypto.randomBytes(32).toString("hex");
-      await db.insert(budgetApprovals).values({
-        budgetPeriodId: id,
-        unitId: u.id,
-        token,
-      });
-    }
-    await db
+  const tenantId = await getTenantId(slug);
+  const actorId = req.user!.userId;
+  // The approvals, the email job and the audit entry commit together, so a crash cannot leave a proposed
+  // budget whose approval requests never go out.
+  const sent = await tenantDb(slug, async (db) => {
+    const [claimed] = await db
       .update(budgetPeriods)
       .set({ status: "proposed", sentForApprovalAt: new Date() })
-      .where(eq(budgetPeriods.id, id));
-  });
-  const approvalsWithToken = await tenantDb(slug, (db) =>
-    db.select({ unitId: budgetApprovals.unitId, token: budgetApprovals.token }).from(budgetApprovals).where(eq(budgetApprovals.budgetPeriodId, id))
-  );
-  const tokenByUnit = Object.fromEntries(approvalsWithToken.map((a) => [a.unitId, a.token]));
-  for (const u of unitsList) {
-    const token = tokenByUnit[u.id];
-    if (!token) continue;
-    const sharePerUnit = (contributionByUnit[u.id] ?? sharePerUnitDefault).toFixed(2);
-    const members = await tenantDb(slug, (db) =>
-      db.select({ userId: unitMembers.userId }).from(unitMembers).where(eq(unitMembers.unitId, u.id))
-    );
-    const userIds = members.map((m) => m.userId);
-    const recipientList =
-      userIds.length === 0
-        ? []
-        : await publicDb
-            .select({ email: users.email, name: users.name })
-            .from(users)
-            .where(inArray(users.id, userIds));
-    if (recipientList.length === 0) {
-      continue;
-    }
-    for (const r of recipientList) {
-      await sendBudgetApprovalEmail({
-        email: r.email,
-        name: r.name,
-        unitIdentifier: u.identifier ?? `Unit ${u.id}`,
-        token,
-        tenantSlug: slug,
-        periodId: id,
-        periodName: period.name,
-        year: period.year,
-        sharePerUnit,
-      });
+      .where(and(eq(budgetPeriods.id, id), eq(budgetPeriods.status, "draft")))
+      .returning({ id: budgetPeriods.id });
+    if (!claimed) return false;
+    const existing = await db.select().from(budgetApprovals).where(eq(budgetApprovals.budgetPeriodId, id));
+    if (existing.length === 0) {
+      for (const u of unitsList) {
+        const token = crypto.randomBytes(32).toString("hex");
+        await db.insert(budgetApprovals).values({
+          budgetPeriodId: id,
+          unitId: u.id,
+          token,
+        });
+      }
     }
+    // Emails go out from the worker so a slow mail provider doesn't hold up the response.
+    await enqueueJob("budget_approval", { periodId: id }, { tenantId }, db);
+    await logAudit(db, { actorId, action: "send_for_approval", entityType: "budget_period", entityId: id, details: {} });
+    return true;
+  });
+  if (!sent) {
+    res.status(400).json({ error: "Budget can only be sent for approval when status is draft" });
+    return;
   }
-  const actorId = req.user!.userId;
-  await tenantDb(slug, (db) => logAudit(db, { actorId, action: "send_for_approval", entityType: "budget_period", entityId: id, details: {} }));
+  await publishBudgetApprovalCounts(slug, id);
   res.json({ ok: true, message: "Sent for approval", unitCount: unitsList.length });
 });
 
-budgetRouter.patch("/periods/:id", async (req, res) => {
+budgetRouter.patch("/periods/:id", requirePermission("budget:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
@@ -381,9 +367,12 @@ budgetRouter.patch("/periods/:id", async (req, res) => {
     update.approvedAt = new Date();
   }
   const [row] = await tenantDb(slug, async (db) => {
+    const [before] = await db.select({ status: budgetPeriods.status }).from(budgetPeriods).where(eq(budgetPeriods.id, id)).limit(1);
     const [r] = await db.update(budgetPeriods).set(update).where(eq(budgetPeriods.id, id)).returning();
-    if (r) await logAudit(db, { actorId, action: "update", entityType: "budget_period", entityId: id, details: update });
-    return r ? [r] : [];
+    if (!r) return [];
+    await logAudit(db, { actorId, action: "update", entityType: "budget_period", entityId: id, details: update });
+    if (r.status === "approved" && before?.status !== "approved") await emitWebhookEvent(db, slug, "budget.approved", r);
+    return [r];
   });
   if (!row) {
     res.status(404).json({ error: "Not found" });
@@ -392,7 +381,7 @@ budgetRouter.patch("/periods/:id", async (req, res) => {
   res.json(row);
 });
 
-budgetRouter.delete("/periods/:id", async (req, res) => {
+budgetRouter.delete("/periods/:id", requirePermission("budget:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
@@ -425,7 +414,7 @@ budgetRouter.get("/periods/:id/documents", async (req, res) => {
   res.json(list);
 });
 
-budgetRouter.post("/periods/:id/documents", async (req, res) => {
+budgetRouter.post("/periods/:id/documents", requirePermission("budget:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   const documentId = typeof req.body?.documentId === "number" ? req.body.documentId : parseInt(String(req.body?.documentId ?? ""), 10);
   if (Number.isNaN(id) || Number.isNaN(documentId)) {
@@ -460,7 +449,7 @@ budgetRouter.post("/periods/:id/documents", async (req, res) => {
   res.status(201).json(row);
 });
 
-budgetRouter.delete("/periods/:periodId/documents/:documentId", async (req, res) => {
+budgetRouter.delete("/periods/:periodId/documents/:documentId", requirePermission("budget:write"), async (req, res) => {
   const periodId = parseInt(req.params.periodId, 10);
   const documentId = parseInt(req.params.documentId, 10);
   if (Number.isNaN(periodId) || Number.isNaN(documentId)) {
@@ -485,7 +474,7 @@ budgetRouter.get("/periods/:id/lines", async (req, res) => {
   res.json(list);
 });
 
-budgetRouter.post("/periods/:id/lines", async (req, res) => {
+budgetRouter.post("/periods/:id/lines", requirePermission("budget:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
@@ -519,7 +508,7 @@ budgetRouter.post("/periods/:id/lines", async (req, res) => {
   res.status(201).json(row);
 });
 
-budgetRouter.patch("/periods/:periodId/lines/:lineId", async (req, res) => {
+budgetRouter.patch("/periods/:periodId/lines/:lineId", requirePermission("budget:write"), async (req, res) => {
   const periodId = parseInt(req.params.periodId, 10);
   const lineId = parseInt(req.params.lineId, 10);
   if (Number.isNaN(periodId) || Number.isNaN(lineId)) {
@@ -549,7 +538,7 @@ budgetRouter.patch("/periods/:periodId/lines/:lineId", async (req, res) => {
   res.json(row);
 });
 
-budgetRouter.delete("/periods/:periodId/lines/:lineId", async (req, res) => {
+budgetRouter.delete("/periods/:periodId/lines/:lineId", requirePermission("budget:write"), async (req, res) => {
   const periodId = parseInt(req.params.periodId, 10);
   const lineId = parseInt(req.params.lineId, 10);
   if (Number.isNaN(periodId) || Number.isNaN(lineId)) {
@@ -576,7 +565,7 @@ budgetRouter.get("/periods/:id/missing-payments", async (req, res) => {
   res.json(list);
 });
 
-budgetRouter.post("/periods/:id/missing-payments", async (req, res) => {
+budgetRouter.post("/periods/:id/missing-payments", requirePermission("budget:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
@@ -606,7 +595,7 @@ budgetRouter.post("/periods/:id/missing-payments", async (req, res) => {
   res.status(201).json(row);
 });
 
-budgetRouter.delete("/periods/:periodId/missing-payments/:mpId", async (req, res) => {
+budgetRouter.delete("/periods/:periodId/missing-payments/:mpId", requirePermission("budget:write"), async (req, res) => {
   const periodId = parseInt(req.params.periodId, 10);
   const mpId = parseInt(req.params.mpId, 10);
   if (Number.isNaN(periodId) || Number.isNaN(mpId)) {
@@ -632,7 +621,7 @@ budgetRouter.get("/periods/:id/contributions", async (req, res) => {
   res.json(list);
 });
 
-budgetRouter.post("/periods/:id/contributions", async (req, res) => {
+budgetRouter.post("/periods/:id/contributions", requirePermission("budget:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
@@ -663,7 +652,7 @@ budgetRouter.post("/periods/:id/contributions", async (req, res) => {
   res.status(201).json(row);
 });
 
-budgetRouter.patch("/periods/:periodId/contributions/:contribId", async (req, res) => {
+budgetRouter.patch("/periods/:periodId/contributions/:contribId", requirePermission("budget:write"), async (req, res) => {
   const periodId = parseInt(req.params.periodId, 10);
   const contribId = parseInt(req.params.contribId, 10);
   if (Number.isNaN(periodId) || Number.isNaN(contribId)) {
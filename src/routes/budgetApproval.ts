@@ -1,5 +1,6 @@
-import { Router } from "express";
+import { Router, type Request } from "express";
 import { setTenantFromHeader } from "../middleware/auth.js";
+import { publicLinkRateLimit } from "../middleware/rateLimit.js";
 import { tenantDb } from "../db/tenantDb.js";
 import {
   budgetPeriods,
@@ -12,14 +13,16 @@ import {
   buildings,
   documents as documentsTable,
 } from "../db/schema/tenant.js";
-import { eq, and, sql } from "drizzle-orm";
-import { storage } from "../storage/index.js";
+import { eq, and, ne, sql } from "drizzle-orm";
+import { storage, createDownloadUrl } from "../storage/index.js";
+import { publishBudgetApprovalCounts } from "../services/liveEvents.js";
+import { emitWebhookEvent } from "../services/webhooks.js";
 
 export const budgetApprovalRouter = Router();
 budgetApprovalRouter.use(setTenantFromHeader);
 
 /** GET approval info by token (no auth). Query: ?token= */
-budgetApprovalRouter.get("/periods/:id/approve-info", async (req, res) => {
+budgetApprovalRouter.get("/periods/:id/approve-info", publicLinkRateLimit, async (req, res) => {
   const id = parseInt(req.params.id, 10);
   const token = (req.query.token as string)?.trim();
   if (Number.isNaN(id) || !token) {
@@ -129,7 +132,7 @@ budgetApprovalRouter.get("/periods/:id/approve-info", async (req, res) => {
 });
 
 /** POST approve by token (no auth). Body: { token } */
-budgetApprovalRouter.post("/periods/:id/approve", async (req, res) => {
+budgetApprovalRouter.post("/periods/:id/approve", publicLinkRateLimit, async (req, res) => {
   const id = parseInt(req.params.id, 10);
   const token = (req.body?.token as string)?.trim();
   if (Number.isNaN(id) || !token) {
@@ -170,10 +173,16 @@ budgetApprovalRouter.post("/periods/:id/approve", async (req, res) => {
   const unitCount = unitsList.length;
   const requiredApprovalCount = Math.ceil((2 / 3) * unitCount);
   if (approvedUnitCount >= requiredApprovalCount) {
-    await tenantDb(slug, (db) =>
-      db.update(budgetPeriods).set({ status: "approved", approvedAt: new Date() }).where(eq(budgetPeriods.id, id))
-    );
+    await tenantDb(slug, async (db) => {
+      const [approved] = await db
+        .update(budgetPeriods)
+        .set({ status: "approved", approvedAt: new Date() })
+        .where(and(eq(budgetPeriods.id, id), ne(budgetPeriods.status, "approved")))
+        .returning();
+      if (approved) await emitWebhookEvent(db, slug, "budget.approved", { ...approved, approvedUnitCount, unitCount });
+    });
   }
+  await publishBudgetApprovalCounts(slug, id);
   res.json({
     ok: true,
     message: "Approval recorded",
@@ -185,7 +194,7 @@ budgetApprovalRouter.post("/periods/:id/approve", async (req, res) => {
 });
 
 /** POST reject by token (no auth). Body: { token, reason } */
-budgetApprovalRouter.post("/periods/:id/reject", async (req, res) => {
+budgetApprovalRouter.post("/periods/:id/reject", publicLinkRateLimit, async (req, res) => {
   const id = parseInt(req.params.id, 10);
   const token = (req.body?.token as string)?.trim();
   const reason = typeof req.body?.reason === "string" ? req.body.reason.trim().slice(0, 2000) : "";
@@ -212,26 +221,25 @@ budgetApprovalRouter.post("/periods/:id/reject", async (req, res) => {
   await tenantDb(slug, (db) =>
     db.update(budgetApprovals).set({ rejectedAt: new Date(), rejectionReason: reason || null }).where(eq(budgetApprovals.id, approval.id))
   );
+  await publishBudgetApprovalCounts(slug, id);
   res.json({ ok: true, message: "Decline recorded. Your reason has been shared with management." });
 });
 
-/** GET document download for approval flow (no auth). Query: ?token= */
-budgetApprovalRouter.get("/periods/:id/documents/:documentId/download", async (req, res) => {
+type ApprovalDocument = typeof documentsTable.$inferSelect;
+
+/** The document in :documentId, if it belongs to the budget period in :id and the approval token is valid. */
+async function findApprovalDocument(req: Request): Promise<{ doc: ApprovalDocument } | { status: number; body: object }> {
   const periodId = parseInt(req.params.id, 10);
   const documentId = parseInt(req.params.documentId, 10);
   const token = (req.query.token as string)?.trim();
   if (Number.isNaN(periodId) || Number.isNaN(documentId) || !token) {
-    res.status(400).json({ error: "Invalid id or missing token" });
-    return;
+    return { status: 400, body: { error: "Invalid id or missing token" } };
   }
   const slug = req.tenantSlug!;
   const [approval] = await tenantDb(slug, (db) =>
     db.select().from(budgetApprovals).where(and(eq(budgetApprovals.budgetPeriodId, periodId), eq(budgetApprovals.token, token))).limit(1)
   );
-  if (!approval) {
-    res.status(404).json({ error: "Invalid or expired link" });
-    return;
-  }
+  if (!approval) return { status: 404, body: { error: "Invalid or expired link" } };
   const [link] = await tenantDb(slug, (db) =>
     db
       .select()
@@ -239,17 +247,22 @@ budgetApprovalRouter.get("/periods/:id/documents/:documentId/download", async (r
       .where(and(eq(budgetPeriodDocuments.budgetPeriodId, periodId), eq(budgetPeriodDocuments.documentId, documentId)))
       .limit(1)
   );
-  if (!link) {
-    res.status(404).json({ error: "Document not found for this budget" });
-    return;
-  }
+  if (!link) return { status: 404, body: { error: "Document not found for this budget" } };
   const [doc] = await tenantDb(slug, (db) =>
     db.select().from(documentsTable).where(eq(documentsTable.id, documentId)).limit(1)
   );
-  if (!doc) {
-    res.status(404).json({ error: "Document not found" });
+  if (!doc) return { status: 404, body: { error: "Document not found" } };
+  return { doc };
+}
+
+/** GET document download for approval flow (no auth). Query: ?token= */
+budgetApprovalRouter.get("/periods/:id/documents/:documentId/download", publicLinkRateLimit, async (req, res) => {
+  const found = await findApprovalDocument(req);
+  if ("status" in found) {
+    res.status(found.status).json(found.body);
     return;
   }
+  const { doc } = found;
   const stream = await storage.get(doc.fileKey);
   if (!stream) {
     res.status(404).json({ error: "File not found" });
@@ -258,3 +271,13 @@ budgetApprovalRouter.get("/periods/:id/documents/:documentId/download", async (r
   res.setHeader("Content-Disposition", `attachment; filename="${doc.filename}"`);
   stream.pipe(res);
 });
+
+/** GET signed download link for a document of the approval flow (no auth): { url, expiresAt }. Query: ?token= */
+budgetApprovalRouter.get("/periods/:id/documents/:documentId/url", publicLinkRateLimit, async (req, res) => {
+  const found = await findApprovalDocument(req);
+  if ("status" in found) {
+    res.status(found.status).json(found.body);
+    return;
+  }
+  res.json(await createDownloadUrl(found.doc.fileKey, { filename: found.doc.filename }));
+});
@@ -1,20 +1,31 @@
 import { Router } from "express";
 import { z } from "zod";
 import { requireAuth, requireTenant } from "../middleware/auth.js";
-import { requireStaff, isResident, getResidentBuildingIds, getResidentUnitIds } from "../middleware/role.js";
+import {
+  requireStaff,
+  requirePermission,
+  isResident,
+  isBuildingScoped,
+  getResidentUnitIds,
+  getVisibleBuildingIds,
+  canAccessBuilding,
+} from "../middleware/role.js";
 import { tenantDb } from "../db/tenantDb.js";
 import { publicDb } from "../db/index.js";
-import { users } from "../db/schema/public.js";
+import { users, tenants, tenantUsers } from "../db/schema/public.js";
 import {
   buildings as buildingsTable,
+  buildingStaff,
   units as unitsTable,
   unitMembers,
   buildingFinancials,
   financialTransactions,
   budgetPeriods,
 } from "../db/schema/tenant.js";
-import { eq, inArray, desc } from "drizzle-orm";
+import { eq, and, inArray, desc } from "drizzle-orm";
 import { logAudit } from "../services/auditLog.js";
+import { getPublicUsers } from "../services/userLookup.js";
+import { emitWebhookEvent } from "../services/webhooks.js";
 
 export const buildingsRouter = Router();
 buildingsRouter.use(requireAuth, requireTenant);
@@ -27,8 +38,8 @@ const updateBuildingSchema = createBuildingSchema.partial();
 
 buildingsRouter.get("/", async (req, res) => {
   const slug = req.tenantSlug!;
-  if (isResident(req)) {
-    const buildingIds = await getResidentBuildingIds(slug, req.user!.userId);
+  const buildingIds = await getVisibleBuildingIds(req);
+  if (buildingIds != null) {
     if (buildingIds.length === 0) return res.json([]);
     const list = await tenantDb(slug, (db) =>
       db.select().from(buildingsTable).where(inArray(buildingsTable.id, buildingIds))
@@ -53,12 +64,9 @@ buildingsRouter.get("/:id", async (req, res) => {
     res.status(404).json({ error: "Not found" });
     return;
   }
-  if (isResident(req)) {
-    const buildingIds = await getResidentBuildingIds(slug, req.user!.userId);
-    if (!buildingIds.includes(id)) {
-      res.status(404).json({ error: "Not found" });
-      return;
-    }
+  if (!(await canAccessBuilding(req, id))) {
+    res.status(404).json({ error: "Not found" });
+    return;
   }
   res.json(row);
 });
@@ -70,12 +78,11 @@ buildingsRouter.get("/:id/units", async (req, res) => {
     return;
   }
   const slug = req.tenantSlug!;
+  if (!(await canAccessBuilding(req, buildingId))) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
   if (isResident(req)) {
-    const buildingIds = await getResidentBuildingIds(slug, req.user!.userId);
-    if (!buildingIds.includes(buildingId)) {
-      res.status(404).json({ error: "Not found" });
-      return;
-    }
     const residentUnitIds = await getResidentUnitIds(slug, req.user!.userId);
     const units = await tenantDb(slug, (db) =>
       db.select().from(unitsTable).where(eq(unitsTable.buildingId, buildingId))
@@ -155,12 +162,9 @@ buildingsRouter.get("/:id/financials", async (req, res) => {
     return;
   }
   const slug = req.tenantSlug!;
-  if (isResident(req)) {
-    const buildingIds = await getResidentBuildingIds(slug, req.user!.userId);
-    if (!buildingIds.includes(buildingId)) {
-      res.status(404).json({ error: "Not found" });
-      return;
-    }
+  if (!(await canAccessBuilding(req, buildingId))) {
+    res.status(404).json({ error: "Not found" });
+    return;
   }
   const [building] = await tenantDb(slug, (db) =>
     db.select().from(buildingsTable).where(eq(buildingsTable.id, buildingId)).limit(1)
@@ -188,12 +192,9 @@ buildingsRouter.get("/:id/transactions", async (req, res) => {
     return;
   }
   const slug = req.tenantSlug!;
-  if (isResident(req)) {
-    const buildingIds = await getResidentBuildingIds(slug, req.user!.userId);
-    if (!buildingIds.includes(buildingId)) {
-      res.status(404).json({ error: "Not found" });
-      return;
-    }
+  if (!(await canAccessBuilding(req, buildingId))) {
+    res.status(404).json({ error: "Not found" });
+    return;
   }
   const list = await tenantDb(slug, (db) =>
     db.select().from(financialTransactions).where(eq(financialTransactions.buildingId, buildingId)).orderBy(desc(financialTransactions.createdAt))
@@ -201,9 +202,7 @@ buildingsRouter.get("/:id/transactions", async (req, res) => {
   res.json(list);
 });
 
-buildingsRouter.use(requireStaff);
-
-buildingsRouter.post("/", async (req, res) => {
+buildingsRouter.post("/", requirePermission("buildings:write"), async (req, res) => {
   const parsed = createBuildingSchema.safeParse(req.body);
   if (!parsed.success) {
     res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
@@ -211,10 +210,14 @@ buildingsRouter.post("/", async (req, res) => {
   }
   const slug = req.tenantSlug!;
   const actorId = req.user!.userId;
+  const scoped = isBuildingScoped(req);
   const [row] = await tenantDb(slug, async (db) => {
     const [r] = await db.insert(buildingsTable).values(parsed.data).returning();
-    if (r) await logAudit(db, { actorId, action: "create", entityType: "building", entityId: r.id, details: { name: r.name } });
-    return r ? [r] : [];
+    if (!r) return [];
+    // A building-scoped manager would otherwise lose sight of the building they just created.
+    if (scoped) await db.insert(buildingStaff).values({ buildingId: r.id, userId: actorId, createdBy: actorId });
+    await logAudit(db, { actorId, action: "create", entityType: "building", entityId: r.id, details: { name: r.name } });
+    return [r];
   });
   res.status(201).json(row);
 });
@@ -226,7 +229,7 @@ const createTransactionSchema = z.object({
   description: z.string().max(512).optional(),
 });
 
-buildingsRouter.post("/:id/transactions", async (req, res) => {
+buildingsRouter.post("/:id/transactions", requirePermission("transactions:create"), async (req, res) => {
   const buildingId = parseInt(req.params.id, 10);
   if (Number.isNaN(buildingId)) {
     res.status(400).json({ error: "Invalid id" });
@@ -238,6 +241,10 @@ buildingsRouter.post("/:id/transactions", async (req, res) => {
     return;
   }
   const slug = req.tenantSlug!;
+  if (!(await canAccessBuilding(req, buildingId))) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
   const actorId = req.user!.userId;
   if (parsed.data.budgetPeriodId != null) {
     const [period] = await tenantDb(slug, (db) =>
@@ -268,6 +275,7 @@ buildingsRouter.post("/:id/transactions", async (req, res) => {
     } else {
       await db.insert(buildingFinancials).values({ buildingId, currentBalance: newBalance });
     }
+    await emitWebhookEvent(db, slug, "transaction.created", row);
     return [row];
   });
   if (!tx) {
@@ -277,7 +285,7 @@ buildingsRouter.post("/:id/transactions", async (req, res) => {
   res.status(201).json(tx);
 });
 
-buildingsRouter.patch("/:id", async (req, res) => {
+buildingsRouter.patch("/:id", requirePermission("buildings:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
@@ -289,6 +297,10 @@ buildingsRouter.patch("/:id", async (req, res) => {
     return;
   }
   const slug = req.tenantSlug!;
+  if (!(await canAccessBuilding(req, id))) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
   const actorId = req.user!.userId;
   const [row] = await tenantDb(slug, async (db) => {
     const [r] = await db.update(buildingsTable).set(parsed.data).where(eq(buildingsTable.id, id)).returning();
@@ -302,13 +314,17 @@ buildingsRouter.patch("/:id", async (req, res) => {
   res.json(row);
 });
 
-buildingsRouter.delete("/:id", async (req, res) => {
+buildingsRouter.delete("/:id", requirePermission("buildings:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
     return;
   }
   const slug = req.tenantSlug!;
+  if (!(await canAccessBuilding(req, id))) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
   const actorId = req.user!.userId;
   const [row] = await tenantDb(slug, async (db) => {
     const [r] = await db.delete(buildingsTable).where(eq(buildingsTable.id, id)).returning({ id: buildingsTable.id });
@@ -324,7 +340,7 @@ buildingsRouter.delete("/:id", async (req, res) => {
 
 const createUnitSchema = z.object({ identifier: z.string().min(1).max(64) });
 
-buildingsRouter.post("/:id/units", async (req, res) => {
+buildingsRouter.post("/:id/units", requirePermission("buildings:write"), async (req, res) => {
   const buildingId = parseInt(req.params.id, 10);
   if (Number.isNaN(buildingId)) {
     res.status(400).json({ error: "Invalid id" });
@@ -336,6 +352,10 @@ buildingsRouter.post("/:id/units", async (req, res) => {
     return;
   }
   const slug = req.tenantSlug!;
+  if (!(await canAccessBuilding(req, buildingId))) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
   const [building] = await tenantDb(slug, (db) =>
     db.select().from(buildingsTable).where(eq(buildingsTable.id, buildingId)).limit(1)
   );
@@ -351,3 +371,112 @@ buildingsRouter.post("/:id/units", async (req, res) => {
   });
   res.status(201).json(row);
 });
+
+/** GET /buildings/:id/staff - staff assigned to the building (staff only) */
+buildingsRouter.get("/:id/staff", requireStaff, async (req, res) => {
+  const buildingId = parseInt(req.params.id, 10);
+  if (Number.isNaN(buildingId)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  if (!(await canAccessBuilding(req, buildingId))) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  const rows = await tenantDb(slug, (db) =>
+    db.select().from(buildingStaff).where(eq(buildingStaff.buildingId, buildingId))
+  );
+  const userMap = await getPublicUsers(rows.map((r) => r.userId));
+  res.json(
+    rows.map((r) => ({
+      userId: r.userId,
+      email: userMap[r.userId]?.email ?? "",
+      name: userMap[r.userId]?.name ?? null,
+      createdAt: r.createdAt,
+    }))
+  );
+});
+
+const assignStaffSchema = z.object({ userId: z.number().int().positive() });
+
+/** POST /buildings/:id/staff - assign a staff member to the building (buildings:assign_staff) */
+buildingsRouter.post("/:id/staff", requirePermission("buildings:assign_staff"), async (req, res) => {
+  const buildingId = parseInt(req.params.id, 10);
+  if (Number.isNaN(buildingId)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const parsed = assignStaffSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  if (!(await canAccessBuilding(req, buildingId))) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  const [building] = await tenantDb(slug, (db) =>
+    db.select({ id: buildingsTable.id }).from(buildingsTable).where(eq(buildingsTable.id, buildingId)).limit(1)
+  );
+  if (!building) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  const { userId } = parsed.data;
+  const [membership] = await publicDb
+    .select({ role: tenantUsers.role })
+    .from(tenantUsers)
+    .innerJoin(tenants, eq(tenantUsers.tenantId, tenants.id))
+    .where(and(eq(tenants.slug, slug), eq(tenantUsers.userId, userId)))
+    .limit(1);
+  if (!membership || membership.role === "resident") {
+    res.status(400).json({ error: "User is not a staff member of this tenant" });
+    return;
+  }
+  const actorId = req.user!.userId;
+  const [row] = await tenantDb(slug, async (db) => {
+    const [r] = await db
+      .insert(buildingStaff)
+      .values({ buildingId, userId, createdBy: actorId })
+      .onConflictDoNothing()
+      .returning();
+    if (r) await logAudit(db, { actorId, action: "create", entityType: "building_staff", entityId: buildingId, details: { userId } });
+    return r ? [r] : [];
+  });
+  if (!row) {
+    res.status(409).json({ error: "User is already assigned to this building" });
+    return;
+  }
+  res.status(201).json(row);
+});
+
+/** DELETE /buildings/:id/staff/:userId - remove a staff assignment (buildings:assign_staff) */
+buildingsRouter.delete("/:id/staff/:userId", requirePermission("buildings:assign_staff"), async (req, res) => {
+  const buildingId = parseInt(req.params.id, 10);
+  const userId = parseInt(req.params.userId, 10);
+  if (Number.isNaN(buildingId) || Number.isNaN(userId)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  if (!(await canAccessBuilding(req, buildingId))) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  const actorId = req.user!.userId;
+  const [row] = await tenantDb(slug, async (db) => {
+    const [r] = await db
+      .delete(buildingStaff)
+      .where(and(eq(buildingStaff.buildingId, buildingId), eq(buildingStaff.userId, userId)))
+      .returning();
+    if (r) await logAudit(db, { actorId, action: "delete", entityType: "building_staff", entityId: buildingId, details: { userId } });
+    return r ? [r] : [];
+  });
+  if (!row) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  res.status(204).send();
+});
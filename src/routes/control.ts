@@ -1,13 +1,19 @@
 import type { Request, Response, NextFunction } from "express";
 import { Router } from "express";
 import { z } from "zod";
-import crypto from "node:crypto";
-import { requireAuth } from "../middleware/auth.js";
-import { requireStaff } from "../middleware/role.js";
+import multer from "multer";
+import { requireAuth, satisfiesTwoFactorPolicy } from "../middleware/auth.js";
+import { requirePermission, isBuildingScoped, canManageUnit, getVisibleBuildingIds, canAccessBuilding } from "../middleware/role.js";
 import { createTenant } from "../services/tenantService.js";
 import { publicDb } from "../db/index.js";
-import { tenants, tenantUsers, invites as invitesTable } from "../db/schema/public.js";
-import { and, desc, eq, isNull } from "drizzle-orm";
+import { tenants, tenantUsers, users, invites as invitesTable } from "../db/schema/public.js";
+import { and, desc, eq, gt, inArray, isNull, sql } from "drizzle-orm";
+import { tenantDb } from "../db/tenantDb.js";
+import { units as unitsTable, unitMembers } from "../db/schema/tenant.js";
+import { logAudit } from "../services/auditLog.js";
+import { parseCsv } from "../services/csv.js";
+import { generateToken } from "../services/tokens.js";
+import { sendInviteEmail, inviteAcceptUrl, type InviteRecipient } from "../services/notify.js";
 
 export const controlRouter = Router();
 
@@ -19,16 +25,82 @@ function setTenantFromParam(req: Request, res: Response, next: NextFunction): vo
     res.status(403).json({ error: "Access denied to this tenant" });
     return;
   }
+  if (!satisfiesTwoFactorPolicy(req.user!, tenantSlug)) {
+    res.status(403).json({ error: "Two-factor authentication is required for this tenant. Enable it under /me/2fa." });
+    return;
+  }
   req.tenantSlug = tenantSlug;
   next();
 }
 
+const RESIDENT_ROLES = ["owner", "tenant", "resident"] as const;
+
 const createInviteSchema = z.object({
   email: z.string().email(),
   role: z.enum(["org_owner", "org_admin", "property_manager", "accountant", "support", "resident"]),
   unitId: z.number().int().positive().optional(),
+  unitIds: z.array(z.number().int().positive()).min(1).max(50).optional(),
+  unitRole: z.enum(RESIDENT_ROLES).optional(),
 });
 
+/**
+ * Whether the caller may invite someone with this role to these units (on create and on resend): only an
+ * org_owner invites org_owners, building-scoped staff only invite residents, and only to units they manage.
+ * Returns the response to send when they may not.
+ */
+async function inviteScopeError(
+  req: Request,
+  role: string,
+  unitIds: number[]
+): Promise<{ status: number; body: object } | null> {
+  if (role === "org_owner" && req.user!.roleByTenant[req.tenantSlug!] !== "org_owner") {
+    return { status: 403, body: { error: "Access denied: only an org_owner can invite another org_owner" } };
+  }
+  if (isBuildingScoped(req) && role !== "resident") {
+    return { status: 403, body: { error: "Access denied: you can only invite residents" } };
+  }
+  for (const unitId of unitIds) {
+    if (!(await canManageUnit(req, unitId))) return { status: 404, body: { error: `Unit ${unitId} not found` } };
+  }
+  return null;
+}
+
+/** Invites are valid for 7 days. */
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Put invite emails in the outbox; delivery and retries happen in the background. */
+async function queueInviteEmails(recipients: InviteRecipient[]): Promise<void> {
+  for (const recipient of recipients) {
+    await sendInviteEmail(recipient);
+  }
+}
+
+/** Units an invite covers: `unitIds` when set, otherwise the single `unitId`. */
+function inviteUnitIds(invite: { unitId: number | null; unitIds: number[] | null }): number[] {
+  if (invite.unitIds && invite.unitIds.length > 0) return invite.unitIds;
+  return invite.unitId != null ? [invite.unitId] : [];
+}
+
+/** Unit identifiers for the invite email, e.g. "A-101, A-102". */
+async function getUnitIdentifiers(tenantSlug: string, unitIds: number[]): Promise<string | null> {
+  if (unitIds.length === 0) return null;
+  const rows = await tenantDb(tenantSlug, (db) =>
+    db.select({ identifier: unitsTable.identifier }).from(unitsTable).where(inArray(unitsTable.id, unitIds))
+  );
+  return rows.length > 0 ? rows.map((r) => r.identifier).join(", ") : null;
+}
+
+type InviteStatus = "pending" | "accepted" | "expired" | "revoked";
+
+function inviteStatus(
+  invite: { acceptedAt: Date | null; revokedAt: Date | null; expiresAt: Date },
+  now = new Date()
+): InviteStatus {
+  if (invite.acceptedAt) return "accepted";
+  if (invite.revokedAt) return "revoked";
+  return invite.expiresAt < now ? "expired" : "pending";
+}
+
 const createTenantSchema = z.object({
   name: z.string().min(1).max(255),
   slug: z.string().min(1).max(64).regex(/^[a-z0-9_-]+$/, "Slug: lowercase letters, numbers, _ and - only"),
@@ -64,16 +136,26 @@ controlRouter.get("/tenants", async (req, res) => {
   res.json(list);
 });
 
-controlRouter.post("/tenants/:tenantSlug/invites", setTenantFromParam, requireStaff, async (req, res) => {
+controlRouter.post("/tenants/:tenantSlug/invites", setTenantFromParam, requirePermission("invites:manage"), async (req, res) => {
   const tenantSlug = req.tenantSlug!;
   const parsed = createInviteSchema.safeParse(req.body);
   if (!parsed.success) {
     res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
     return;
   }
-  const { email, role, unitId } = parsed.data;
-  if (role === "resident" && !unitId) {
-    res.status(400).json({ error: "unitId required for resident invites" });
+  const { email, role, unitRole } = parsed.data;
+  const unitIds = [...new Set([...(parsed.data.unitId ? [parsed.data.unitId] : []), ...(parsed.data.unitIds ?? [])])];
+  if (role === "resident" && unitIds.length === 0) {
+    res.status(400).json({ error: "unitId or unitIds required for resident invites" });
+    return;
+  }
+  if (unitRole && role !== "resident") {
+    res.status(400).json({ error: "unitRole only applies to resident invites" });
+    return;
+  }
+  const denied = await inviteScopeError(req, role, unitIds);
+  if (denied) {
+    res.status(denied.status).json(denied.body);
     return;
   }
   const [tenant] = await publicDb.select().from(tenants).where(eq(tenants.slug, tenantSlug)).limit(1);
@@ -81,25 +163,266 @@ controlRouter.post("/tenants/:tenantSlug/invites", setTenantFromParam, requireSt
     res.status(404).json({ error: "Tenant not found" });
     return;
   }
-  const token = crypto.randomBytes(32).toString("hex");
-  const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
-  await publicDb.insert(invitesTable).values({
-    tenantId: tenant.id,
-    email,
-    role,
-    unitId: unitId ?? null,
-    token,
-    expiresAt,
-  });
+  const token = generateToken();
+  const expiresAt = new Date(Date.now() + INVITE_TTL_MS);
+  const [invite] = await publicDb
+    .insert(invitesTable)
+    .values({
+      tenantId: tenant.id,
+      email,
+      role,
+      unitId: unitIds[0] ?? null,
+      unitIds: unitIds.length > 1 ? unitIds : null,
+      unitRole: unitRole ?? null,
+      token,
+      expiresAt,
+    })
+    .returning({ id: invitesTable.id });
+  await queueInviteEmails([
+    {
+      email,
+      tenantId: tenant.id,
+      tenantName: tenant.name,
+      role: unitRole ?? role,
+      token,
+      expiresAt,
+      unitIdentifier: await getUnitIdentifiers(tenantSlug, unitIds),
+    },
+  ]);
   res.status(201).json({
+    id: invite?.id,
     email,
     role,
+    unitIds,
+    unitRole: role === "resident" ? (unitRole ?? "resident") : null,
     expiresAt,
-    inviteLink: `${process.env.CORS_ORIGIN ?? "http://localhost:3000"}/invites/accept/${token}`,
+    inviteLink: inviteAcceptUrl(token),
   });
 });
 
-controlRouter.get("/tenants/:tenantSlug/invites", setTenantFromParam, requireStaff, async (req, res) => {
+const bulkUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 1024 * 1024 } });
+const MAX_BULK_INVITES = 1000;
+
+const bulkInviteSchema = z.object({
+  csv: z.string().optional(),
+  dryRun: z
+    .union([z.boolean(), z.enum(["true", "false"])])
+    .optional()
+    .transform((v) => v === true || v === "true"),
+  buildingId: z
+    .union([z.string(), z.number()])
+    .optional()
+    .nullable()
+    .transform((v) => (v === "" || v == null ? null : Number(v))),
+});
+
+/** Accepted header names per column; without a header row the order is unit, email, role. */
+const BULK_COLUMNS = {
+  unit: ["unit", "unit_identifier", "unitidentifier", "identifier", "flat"],
+  email: ["email", "e-mail"],
+  role: ["role", "resident_role", "unit_role"],
+} as const;
+
+interface BulkInviteRow {
+  line: number;
+  unitIdentifier: string;
+  email: string;
+  role: string;
+  unitId: number | null;
+  errors: string[];
+}
+
+/**
+ * POST /control/tenants/:slug/invites/bulk - invite residents from a CSV (multipart "file" or body.csv)
+ * with columns unit identifier, email and resident role (owner/tenant/resident, default resident).
+ * dryRun=true only validates. Otherwise all invites are created in one transaction, or none if any row is invalid.
+ * Pass buildingId when unit identifiers repeat across buildings.
+ */
+controlRouter.post(
+  "/tenants/:tenantSlug/invites/bulk",
+  setTenantFromParam,
+  requirePermission("invites:manage"),
+  bulkUpload.single("file"),
+  async (req, res) => {
+    const tenantSlug = req.tenantSlug!;
+    const parsed = bulkInviteSchema.safeParse({ ...req.body, dryRun: req.body?.dryRun ?? req.query.dryRun });
+    if (!parsed.success) {
+      res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+      return;
+    }
+    const { dryRun, buildingId } = parsed.data;
+    const csvText = req.file ? req.file.buffer.toString("utf8") : parsed.data.csv;
+    if (!csvText) {
+      res.status(400).json({ error: "Upload a CSV file or pass csv in the body" });
+      return;
+    }
+    if (buildingId != null && (Number.isNaN(buildingId) || !(await canAccessBuilding(req, buildingId)))) {
+      res.status(404).json({ error: "Building not found" });
+      return;
+    }
+    const [tenant] = await publicDb.select().from(tenants).where(eq(tenants.slug, tenantSlug)).limit(1);
+    if (!tenant) {
+      res.status(404).json({ error: "Tenant not found" });
+      return;
+    }
+
+    let records = parseCsv(csvText);
+    let columns = { unit: 0, email: 1, role: 2 };
+    const header = records[0]?.fields.map((f) => f.trim().toLowerCase());
+    if (header?.some((f) => (BULK_COLUMNS.email as readonly string[]).includes(f))) {
+      const find = (names: readonly string[]) => header.findIndex((f) => names.includes(f));
+      columns = { unit: find(BULK_COLUMNS.unit), email: find(BULK_COLUMNS.email), role: find(BULK_COLUMNS.role) };
+      if (columns.unit === -1) {
+        res.status(400).json({ error: "CSV header must include a unit column" });
+        return;
+      }
+      records = records.slice(1);
+    }
+    if (records.length === 0) {
+      res.status(400).json({ error: "CSV contains no rows" });
+      return;
+    }
+    if (records.length > MAX_BULK_INVITES) {
+      res.status(400).json({ error: `At most ${MAX_BULK_INVITES} rows per upload` });
+      return;
+    }
+
+    // Resolve unit identifiers against the buildings this user can manage.
+    const visibleBuildingIds = await getVisibleBuildingIds(req);
+    const candidateUnits =
+      visibleBuildingIds?.length === 0
+        ? []
+        : await tenantDb(tenantSlug, (db) => {
+            const query = db
+              .select({ id: unitsTable.id, identifier: unitsTable.identifier, buildingId: unitsTable.buildingId })
+              .from(unitsTable);
+            if (buildingId != null) return query.where(eq(unitsTable.buildingId, buildingId));
+            if (visibleBuildingIds) return query.where(inArray(unitsTable.buildingId, visibleBuildingIds));
+            return query;
+          });
+    const unitsByIdentifier = new Map<string, typeof candidateUnits>();
+    for (const u of candidateUnits) {
+      const key = u.identifier.trim().toLowerCase();
+      unitsByIdentifier.set(key, [...(unitsByIdentifier.get(key) ?? []), u]);
+    }
+
+    const emailSchema = z.string().email();
+    const seen = new Set<string>();
+    const rows: BulkInviteRow[] = records.map(({ line, fields }) => {
+      const cell = (i: number) => (i >= 0 ? (fields[i] ?? "").trim() : "");
+      const row: BulkInviteRow = {
+        line,
+        unitIdentifier: cell(columns.unit),
+        email: cell(columns.email),
+        role: cell(columns.role).toLowerCase() || "resident",
+        unitId: null,
+        errors: [],
+      };
+      if (!emailSchema.safeParse(row.email).success) row.errors.push("Invalid email");
+      if (!(RESIDENT_ROLES as readonly string[]).includes(row.role)) {
+        row.errors.push(`Role must be one of ${RESIDENT_ROLES.join(", ")}`);
+      }
+      if (!row.unitIdentifier) {
+        row.errors.push("Unit identifier is required");
+      } else {
+        const matches = unitsByIdentifier.get(row.unitIdentifier.toLowerCase()) ?? [];
+        if (matches.length === 0) row.errors.push("Unit not found");
+        else if (matches.length > 1) row.errors.push("Unit identifier exists in several buildings; pass buildingId");
+        else row.unitId = matches[0]!.id;
+      }
+      const key = `${row.email.toLowerCase()}|${row.unitId ?? row.unitIdentifier.toLowerCase()}`;
+      if (seen.has(key)) row.errors.push("Duplicate row");
+      seen.add(key);
+      return row;
+    });
+
+    // Skip people who are already in the unit or already have a pending invite for it (emails match case-insensitively).
+    const resolved = rows.filter((r) => r.unitId != null && r.errors.length === 0);
+    if (resolved.length > 0) {
+      const emails = [...new Set(resolved.map((r) => r.email.toLowerCase()))];
+      const pending = await publicDb
+        .select({ email: invitesTable.email, unitId: invitesTable.unitId, unitIds: invitesTable.unitIds })
+        .from(invitesTable)
+        .where(
+          and(
+            eq(invitesTable.tenantId, tenant.id),
+            inArray(sql`lower(${invitesTable.email})`, emails),
+            isNull(invitesTable.acceptedAt),
+            isNull(invitesTable.revokedAt),
+            gt(invitesTable.expiresAt, new Date())
+          )
+        );
+      const pendingKeys = new Set(
+        pending.flatMap((p) => inviteUnitIds(p).map((unitId) => `${p.email.toLowerCase()}|${unitId}`))
+      );
+      const existingUsers = await publicDb
+        .select({ id: users.id, email: users.email })
+        .from(users)
+        .where(inArray(sql`lower(${users.email})`, emails));
+      const userIdByEmail = new Map(existingUsers.map((u) => [u.email.toLowerCase(), u.id]));
+      const memberships =
+        existingUsers.length > 0
+          ? await tenantDb(tenantSlug, (db) =>
+              db
+                .select({ userId: unitMembers.userId, unitId: unitMembers.unitId })
+                .from(unitMembers)
+                .where(inArray(unitMembers.userId, existingUsers.map((u) => u.id)))
+            )
+          : [];
+      const memberKeys = new Set(memberships.map((m) => `${m.userId}|${m.unitId}`));
+      for (const row of resolved) {
+        const email = row.email.toLowerCase();
+        if (pendingKeys.has(`${email}|${row.unitId}`)) row.errors.push("A pending invite already exists for this email and unit");
+        const userId = userIdByEmail.get(email);
+        if (userId != null && memberKeys.has(`${userId}|${row.unitId}`)) row.errors.push("Already a member of this unit");
+      }
+    }
+
+    const invalid = rows.filter((r) => r.errors.length > 0).length;
+    const summary = { dryRun, total: rows.length, valid: rows.length - invalid, invalid, rows };
+    if (dryRun) {
+      res.json(summary);
+      return;
+    }
+    if (invalid > 0) {
+      res.status(400).json({ error: "CSV contains invalid rows; nothing was imported", ...summary });
+      return;
+    }
+
+    const expiresAt = new Date(Date.now() + INVITE_TTL_MS);
+    const values = rows.map((r) => ({
+      tenantId: tenant.id,
+      email: r.email,
+      role: "resident",
+      unitId: r.unitId,
+      unitRole: r.role,
+      token: generateToken(),
+      expiresAt,
+    }));
+    const created = await publicDb.transaction((tx) =>
+      tx.insert(invitesTable).values(values).returning({ id: invitesTable.id, email: invitesTable.email, token: invitesTable.token })
+    );
+    const actorId = req.user!.userId;
+    await tenantDb(tenantSlug, (db) =>
+      logAudit(db, { actorId, action: "create", entityType: "invite_batch", details: { count: created.length } })
+    );
+    const rowByToken = new Map(values.map((v, i) => [v.token, rows[i]!]));
+    await queueInviteEmails(
+      created.map((inv) => ({
+        email: inv.email,
+        tenantId: tenant.id,
+        tenantName: tenant.name,
+        role: rowByToken.get(inv.token)?.role ?? "resident",
+        token: inv.token,
+        expiresAt,
+        unitIdentifier: rowByToken.get(inv.token)?.unitIdentifier ?? null,
+      }))
+    );
+    res.status(201).json({ ...summary, created: created.length, inviteIds: created.map((c) => c.id) });
+  }
+);
+
+controlRouter.get("/tenants/:tenantSlug/invites", setTenantFromParam, requirePermission("invites:manage"), async (req, res) => {
   const tenantSlug = req.tenantSlug!;
   const [tenant] = await publicDb.select().from(tenants).where(eq(tenants.slug, tenantSlug)).limit(1);
   if (!tenant) {
@@ -107,26 +430,91 @@ controlRouter.get("/tenants/:tenantSlug/invites", setTenantFromParam, requireSta
     return;
   }
 
-  // Select only columns that exist in all migration states (revoked_at may be missing if 0003 not applied)
   const rows = await publicDb
     .select({
       id: invitesTable.id,
       email: invitesTable.email,
       role: invitesTable.role,
       unitId: invitesTable.unitId,
+      unitRole: invitesTable.unitRole,
+      unitIds: invitesTable.unitIds,
       createdAt: invitesTable.createdAt,
       expiresAt: invitesTable.expiresAt,
       acceptedAt: invitesTable.acceptedAt,
       acceptedUserId: invitesTable.acceptedUserId,
+      revokedAt: invitesTable.revokedAt,
     })
     .from(invitesTable)
     .where(eq(invitesTable.tenantId, tenant.id))
     .orderBy(desc(invitesTable.createdAt));
 
-  res.json(rows);
+  const now = new Date();
+  res.json(rows.map((r) => ({ ...r, status: inviteStatus(r, now) })));
+});
+
+/**
+ * POST /control/tenants/:slug/invites/:inviteId/resend - issue a new link for a pending or expired invite:
+ * the token is rotated (old links stop working), expiry is reset to 7 days and the email is sent again.
+ */
+controlRouter.post("/tenants/:tenantSlug/invites/:inviteId/resend", setTenantFromParam, requirePermission("invites:manage"), async (req, res) => {
+  const tenantSlug = req.tenantSlug!;
+  const inviteId = parseInt(req.params.inviteId, 10);
+  if (Number.isNaN(inviteId)) {
+    res.status(400).json({ error: "Invalid invite id" });
+    return;
+  }
+  const [tenant] = await publicDb.select().from(tenants).where(eq(tenants.slug, tenantSlug)).limit(1);
+  if (!tenant) {
+    res.status(404).json({ error: "Tenant not found" });
+    return;
+  }
+  const [invite] = await publicDb
+    .select()
+    .from(invitesTable)
+    .where(and(eq(invitesTable.id, inviteId), eq(invitesTable.tenantId, tenant.id)))
+    .limit(1);
+  if (!invite) {
+    res.status(404).json({ error: "Invite not found" });
+    return;
+  }
+  const status = inviteStatus(invite);
+  if (status === "accepted" || status === "revoked") {
+    res.status(400).json({ error: `Invite is already ${status}` });
+    return;
+  }
+  const unitIds = inviteUnitIds(invite);
+  // A new link lets whoever holds it join with the invite's role, so only someone who could have sent it may.
+  const denied = await inviteScopeError(req, invite.role, unitIds);
+  if (denied) {
+    res.status(denied.status).json(denied.status === 404 ? { error: "Invite not found" } : denied.body);
+    return;
+  }
+  const token = generateToken();
+  const expiresAt = new Date(Date.now() + INVITE_TTL_MS);
+  const [updated] = await publicDb
+    .update(invitesTable)
+    .set({ token, expiresAt })
+    .where(and(eq(invitesTable.id, invite.id), isNull(invitesTable.acceptedAt), isNull(invitesTable.revokedAt)))
+    .returning({ id: invitesTable.id });
+  if (!updated) {
+    res.status(400).json({ error: "Invite is no longer pending" });
+    return;
+  }
+  await queueInviteEmails([
+    {
+      email: invite.email,
+      tenantId: tenant.id,
+      tenantName: tenant.name,
+      role: invite.unitRole ?? invite.role,
+      token,
+      expiresAt,
+      unitIdentifier: await getUnitIdentifiers(tenantSlug, unitIds),
+    },
+  ]);
+  res.json({ id: invite.id, email: invite.email, expiresAt, status: "pending", inviteLink: inviteAcceptUrl(token) });
 });
 
-controlRouter.delete("/tenants/:tenantSlug/invites/:inviteId", setTenantFromParam, requireStaff, async (req, res) => {
+controlRouter.delete("/tenants/:tenantSlug/invites/:inviteId", setTenantFromParam, requirePermission("invites:manage"), async (req, res) => {
   const tenantSlug = req.tenantSlug!;
   const inviteId = parseInt(req.params.inviteId, 10);
   if (Number.isNaN(inviteId)) {
@@ -1,6 +1,6 @@
 import { Router } from "express";
 import { requireAuth, requireTenant } from "../middleware/auth.js";
-import { isResident, getResidentUnitIds, getResidentBuildingIds } from "../middleware/role.js";
+import { isResident, getResidentUnitIds, getResidentBuildingIds, getVisibleBuildingIds } from "../middleware/role.js";
 import { tenantDb } from "../db/tenantDb.js";
 import {
   tickets as ticketsTable,
@@ -9,28 +9,57 @@ import {
   buildings as buildingsTable,
   buildingFinancials,
   financialTransactions,
+  notifications as notificationsTable,
 } from "../db/schema/tenant.js";
-import { eq, desc, or, and, inArray, isNull, sql, gte } from "drizzle-orm";
+import { eq, asc, desc, or, and, inArray, isNull, sql, gte, lt } from "drizzle-orm";
+import { toDateString } from "../services/maintenance.js";
 
 export const dashboardRouter = Router();
 dashboardRouter.use(requireAuth, requireTenant);
 
+/**
+ * GET /dashboard - overview for the current user; ?assignedToMe=true limits staff openTickets to their assignments.
+ * Staff also get overdueMaintenance: open tickets past their due date.
+ */
 dashboardRouter.get("/", async (req, res) => {
   const slug = req.tenantSlug!;
   const userId = req.user!.userId;
+  const assignedToMe = req.query.assignedToMe === "true";
 
   let openTickets: Array<{
     id: number;
     title: string;
     createdAt: Date;
     status: string;
-    unitIdentifier: string;
+    priority: string;
+    assigneeId: number | null;
+    /** null for common-area tickets */
+    unitIdentifier: string | null;
+    location: string | null;
     buildingName: string;
   }> = [];
   let recentAnnouncements: Array<{ id: number; title: string; createdAt: Date }> = [];
+  // Staff only: tickets past their due date (opened by maintenance schedules), oldest first
+  const overdueMaintenance: {
+    count: number;
+    tickets: Array<{
+      id: number;
+      title: string;
+      dueDate: string | null;
+      status: string;
+      assigneeId: number | null;
+      vendorId: number | null;
+      maintenanceScheduleId: number | null;
+      buildingName: string;
+    }>;
+  } = { count: 0, tickets: [] };
   let totalBalance = "0";
   const balanceByBuilding: Array<{ buildingId: number; buildingName: string; balance: string }> = [];
   const transactionsPerMonth: Array<{ month: string; income: number; expenses: number }> = [];
+  let unreadNotifications = 0;
+
+  // null = every building; set for building-scoped staff (property managers)
+  const staffBuildingIds = isResident(req) ? null : await getVisibleBuildingIds(req);
 
   await tenantDb(slug, async (db) => {
     const resident = isResident(req);
@@ -42,20 +71,34 @@ dashboardRouter.get("/", async (req, res) => {
     }
 
     if (resident) {
-      if (unitIds.length > 0) {
+      if (unitIds.length > 0 || buildingIds.length > 0) {
+        // Their units' tickets and the common-area tickets of their buildings
         openTickets = await db
           .select({
             id: ticketsTable.id,
             title: ticketsTable.title,
             createdAt: ticketsTable.createdAt,
             status: ticketsTable.status,
+            priority: ticketsTable.priority,
+            assigneeId: ticketsTable.assigneeId,
             unitIdentifier: unitsTable.identifier,
+            location: ticketsTable.location,
             buildingName: buildingsTable.name,
           })
           .from(ticketsTable)
-          .innerJoin(unitsTable, eq(ticketsTable.unitId, unitsTable.id))
-          .innerJoin(buildingsTable, eq(unitsTable.buildingId, buildingsTable.id))
-          .where(and(eq(ticketsTable.status, "open"), inArray(ticketsTable.unitId, unitIds)))
+          .leftJoin(unitsTable, eq(ticketsTable.unitId, unitsTable.id))
+          .innerJoin(buildingsTable, eq(ticketsTable.buildingId, buildingsTable.id))
+          .where(
+            and(
+              eq(ticketsTable.status, "open"),
+              or(
+                unitIds.length > 0 ? inArray(ticketsTable.unitId, unitIds) : undefined,
+                buildingIds.length > 0
+                  ? and(isNull(ticketsTable.unitId), inArray(ticketsTable.buildingId, buildingIds))
+                  : undefined
+              )
+            )
+          )
           .orderBy(desc(ticketsTable.createdAt))
           .limit(20);
       }
@@ -74,21 +117,55 @@ dashboardRouter.get("/", async (req, res) => {
         .orderBy(desc(announcementsTable.createdAt))
         .limit(5);
     } else {
-      openTickets = await db
-        .select({
-          id: ticketsTable.id,
-          title: ticketsTable.title,
-          createdAt: ticketsTable.createdAt,
-          status: ticketsTable.status,
-          unitIdentifier: unitsTable.identifier,
-          buildingName: buildingsTable.name,
-        })
-        .from(ticketsTable)
-        .innerJoin(unitsTable, eq(ticketsTable.unitId, unitsTable.id))
-        .innerJoin(buildingsTable, eq(unitsTable.buildingId, buildingsTable.id))
-        .where(eq(ticketsTable.status, "open"))
-        .orderBy(desc(ticketsTable.createdAt))
-        .limit(20);
+      if (staffBuildingIds == null || staffBuildingIds.length > 0) {
+        openTickets = await db
+          .select({
+            id: ticketsTable.id,
+            title: ticketsTable.title,
+            createdAt: ticketsTable.createdAt,
+            status: ticketsTable.status,
+            priority: ticketsTable.priority,
+            assigneeId: ticketsTable.assigneeId,
+            unitIdentifier: unitsTable.identifier,
+            location: ticketsTable.location,
+            buildingName: buildingsTable.name,
+          })
+          .from(ticketsTable)
+          .leftJoin(unitsTable, eq(ticketsTable.unitId, unitsTable.id))
+          .innerJoin(buildingsTable, eq(ticketsTable.buildingId, buildingsTable.id))
+          .where(
+            and(
+              eq(ticketsTable.status, "open"),
+              staffBuildingIds == null ? undefined : inArray(ticketsTable.buildingId, staffBuildingIds),
+              assignedToMe ? eq(ticketsTable.assigneeId, userId) : undefined
+            )
+          )
+          .orderBy(desc(ticketsTable.createdAt))
+          .limit(20);
+        const overdue = and(
+          lt(ticketsTable.dueDate, toDateString(new Date())),
+          inArray(ticketsTable.status, ["open", "in_progress"]),
+          staffBuildingIds == null ? undefined : inArray(ticketsTable.buildingId, staffBuildingIds)
+        );
+        overdueMaintenance.tickets = await db
+          .select({
+            id: ticketsTable.id,
+            title: ticketsTable.title,
+            dueDate: ticketsTable.dueDate,
+            status: ticketsTable.status,
+            assigneeId: ticketsTable.assigneeId,
+            vendorId: ticketsTable.vendorId,
+            maintenanceScheduleId: ticketsTable.maintenanceScheduleId,
+            buildingName: buildingsTable.name,
+          })
+          .from(ticketsTable)
+          .innerJoin(buildingsTable, eq(ticketsTable.buildingId, buildingsTable.id))
+          .where(overdue)
+          .orderBy(asc(ticketsTable.dueDate), asc(ticketsTable.id))
+          .limit(20);
+        const [overdueCount] = await db.select({ count: sql<number>`count(*)::int` }).from(ticketsTable).where(overdue);
+        overdueMaintenance.count = overdueCount?.count ?? 0;
+      }
       recentAnnouncements = await db
         .select({
           id: announcementsTable.id,
@@ -96,6 +173,13 @@ dashboardRouter.get("/", async (req, res) => {
           createdAt: announcementsTable.createdAt,
         })
         .from(announcementsTable)
+        .where(
+          staffBuildingIds == null
+            ? undefined
+            : staffBuildingIds.length > 0
+              ? or(isNull(announcementsTable.buildingId), inArray(announcementsTable.buildingId, staffBuildingIds))
+              : isNull(announcementsTable.buildingId)
+        )
         .orderBy(desc(announcementsTable.createdAt))
         .limit(5);
     }
@@ -103,7 +187,7 @@ dashboardRouter.get("/", async (req, res) => {
     // Financial stats: which buildings to include
     const allowedBuildingIds = resident
       ? buildingIds
-      : (await db.select({ id: buildingsTable.id }).from(buildingsTable)).map((r) => r.id);
+      : staffBuildingIds ?? (await db.select({ id: buildingsTable.id }).from(buildingsTable)).map((r) => r.id);
 
     if (allowedBuildingIds.length > 0) {
       // Balance per building (itemized) and total across all user's buildings
@@ -162,13 +246,21 @@ dashboardRouter.get("/", async (req, res) => {
         transactionsPerMonth.push({ month: m, income: v.income, expenses: v.expenses });
       }
     }
+
+    const [unread] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notificationsTable)
+      .where(and(eq(notificationsTable.userId, userId), isNull(notificationsTable.readAt)));
+    unreadNotifications = unread?.count ?? 0;
   });
 
   res.json({
     openTickets,
+    overdueMaintenance,
     recentAnnouncements,
     totalBalance,
     balanceByBuilding,
     transactionsPerMonth,
+    unreadNotifications,
   });
 });
@@ -1,16 +1,16 @@
-import { Router } from "express";
+import { Router, type Request } from "express";
 import multer from "multer";
 import { z } from "zod";
 import crypto from "node:crypto";
 import { requireAuth, requireTenant } from "../middleware/auth.js";
-import { requireStaff } from "../middleware/role.js";
+import { requirePermission, getVisibleBuildingIds, canAccessBuilding, canManageBuildingRecord } from "../middleware/role.js";
 import { tenantDb } from "../db/tenantDb.js";
 import { documents as documentsTable } from "../db/schema/tenant.js";
 import { eq, desc, or, isNull, inArray } from "drizzle-orm";
-import { storage } from "../storage/index.js";
-import { isResident, getResidentBuildingIds } from "../middleware/role.js";
+import { storage, createDownloadUrl } from "../storage/index.js";
 import { logAudit } from "../services/auditLog.js";
 import { getPublicUsers } from "../services/userLookup.js";
+import { queueNotification } from "../services/notify.js";
 
 export const documentsRouter = Router();
 documentsRouter.use(requireAuth, requireTenant);
@@ -34,8 +34,8 @@ documentsRouter.get("/", async (req, res) => {
   const buildingId = buildingIdParam ? parseInt(buildingIdParam, 10) : undefined;
 
   const list = await tenantDb(slug, async (db) => {
-    if (isResident(req)) {
-      const buildingIds = await getResidentBuildingIds(slug, req.user!.userId);
+    const buildingIds = await getVisibleBuildingIds(req);
+    if (buildingIds != null) {
       if (buildingId != null && !Number.isNaN(buildingId) && buildingIds.includes(buildingId)) {
         return db
           .select()
@@ -82,7 +82,7 @@ documentsRouter.get("/", async (req, res) => {
   res.json(listWithUsers);
 });
 
-documentsRouter.post("/", requireStaff, upload.single("file"), async (req, res) => {
+documentsRouter.post("/", requirePermission("documents:write"), upload.single("file"), async (req, res) => {
   const parsed = createDocumentSchema.safeParse(req.body);
   if (!parsed.success) {
     res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
@@ -93,11 +93,15 @@ documentsRouter.post("/", requireStaff, upload.single("file"), async (req, res)
     res.status(400).json({ error: "No file uploaded" });
     return;
   }
+  const buildingId = parsed.data.buildingId != null && !Number.isNaN(parsed.data.buildingId) ? parsed.data.buildingId : null;
+  if (!(await canManageBuildingRecord(req, buildingId))) {
+    res.status(403).json({ error: "Access denied: you can only upload documents for your buildings" });
+    return;
+  }
   const slug = req.tenantSlug!;
   const ext = file.originalname.split(".").pop() ?? "bin";
   const fileKey = `tenants/${slug}/documents/${crypto.randomUUID()}.${ext}`;
   await storage.put(fileKey, file.buffer, file.mimetype);
-  const buildingId = parsed.data.buildingId != null && !Number.isNaN(parsed.data.buildingId) ? parsed.data.buildingId : null;
   const actorId = req.user!.userId;
   const [row] = await tenantDb(slug, async (db) => {
     const [r] = await db
@@ -113,11 +117,12 @@ documentsRouter.post("/", requireStaff, upload.single("file"), async (req, res)
     if (r) await logAudit(db, { actorId, action: "create", entityType: "document", entityId: r.id, details: { title: r.title, filename: r.filename } });
     return r ? [r] : [];
   });
+  if (row) await queueNotification(slug, { event: "document", documentId: row.id, actorId });
   res.status(201).json(row);
 });
 
 /** DELETE /documents/:id - staff only; removes record and storage file */
-documentsRouter.delete("/:id", requireStaff, async (req, res) => {
+documentsRouter.delete("/:id", requirePermission("documents:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
@@ -131,6 +136,10 @@ documentsRouter.delete("/:id", requireStaff, async (req, res) => {
     res.status(404).json({ error: "Not found" });
     return;
   }
+  if (!(await canManageBuildingRecord(req, doc.buildingId))) {
+    res.status(403).json({ error: "Access denied: you can only manage documents for your buildings" });
+    return;
+  }
   const actorId = req.user!.userId;
   await tenantDb(slug, async (db) => {
     await db.delete(documentsTable).where(eq(documentsTable.id, id));
@@ -144,27 +153,29 @@ documentsRouter.delete("/:id", requireStaff, async (req, res) => {
   res.status(204).send();
 });
 
-documentsRouter.get("/:id/download", async (req, res) => {
+type Document = typeof documentsTable.$inferSelect;
+
+/** The document of /:id, if it is tenant-wide or in one of the caller's buildings (download and its signed link). */
+async function findDocument(req: Request): Promise<{ doc: Document } | { status: number; body: object }> {
   const id = parseInt(req.params.id, 10);
-  if (Number.isNaN(id)) {
-    res.status(400).json({ error: "Invalid id" });
-    return;
-  }
-  const slug = req.tenantSlug!;
-  const [doc] = await tenantDb(slug, (db) =>
+  if (Number.isNaN(id)) return { status: 400, body: { error: "Invalid id" } };
+  const [doc] = await tenantDb(req.tenantSlug!, (db) =>
     db.select().from(documentsTable).where(eq(documentsTable.id, id)).limit(1)
   );
-  if (!doc) {
-    res.status(404).json({ error: "Not found" });
-    return;
+  if (!doc) return { status: 404, body: { error: "Not found" } };
+  if (doc.buildingId != null && !(await canAccessBuilding(req, doc.buildingId))) {
+    return { status: 404, body: { error: "Not found" } };
   }
-  if (isResident(req) && doc.buildingId != null) {
-    const buildingIds = await getResidentBuildingIds(slug, req.user!.userId);
-    if (!buildingIds.includes(doc.buildingId)) {
-      res.status(404).json({ error: "Not found" });
-      return;
-    }
+  return { doc };
+}
+
+documentsRouter.get("/:id/download", async (req, res) => {
+  const found = await findDocument(req);
+  if ("status" in found) {
+    res.status(found.status).json(found.body);
+    return;
   }
+  const { doc } = found;
   const stream = await storage.get(doc.fileKey);
   if (!stream) {
     res.status(404).json({ error: "File not found" });
@@ -173,3 +184,13 @@ documentsRouter.get("/:id/download", async (req, res) => {
   res.setHeader("Content-Disposition", `attachment; filename="${doc.filename}"`);
   stream.pipe(res);
 });
+
+/** GET /documents/:id/url - signed download link: { url, expiresAt } */
+documentsRouter.get("/:id/url", async (req, res) => {
+  const found = await findDocument(req);
+  if ("status" in found) {
+    res.status(found.status).json(found.body);
+    return;
+  }
+  res.json(await createDownloadUrl(found.doc.fileKey, { filename: found.doc.filename }));
+});
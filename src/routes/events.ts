@@ -0,0 +1,98 @@
+import { Router } from "express";
+import type { Request } from "express";
+import { requireAuth, requireTenant } from "../middleware/auth.js";
+import {
+  isResident,
+  isBuildingScoped,
+  getResidentUnitIds,
+  getResidentBuildingIds,
+  getStaffBuildingIds,
+} from "../middleware/role.js";
+import { subscribeLiveEvents, canReceive, type ViewerScope, type LiveEnvelope } from "../services/liveEvents.js";
+
+export const eventsRouter = Router();
+eventsRouter.use(requireAuth, requireTenant);
+
+const HEARTBEAT_MS = 25 * 1000;
+/** Unit memberships and building assignments change; reload them this often while connected. */
+const SCOPE_TTL_MS = 60 * 1000;
+/** Matches the access token lifetime: the client reconnects with a fresh token (and a still-valid session). */
+const MAX_STREAM_MS = 15 * 60 * 1000;
+
+/** Same scope as getVisibleBuildingIds, without its per-request cache (a stream outlives its memberships). */
+async function loadScope(req: Request): Promise<ViewerScope> {
+  const slug = req.tenantSlug!;
+  const userId = req.user!.userId;
+  if (isResident(req)) {
+    return {
+      resident: true,
+      unitIds: await getResidentUnitIds(slug, userId),
+      buildingIds: await getResidentBuildingIds(slug, userId),
+    };
+  }
+  return {
+    resident: false,
+    unitIds: [],
+    buildingIds: isBuildingScoped(req) ? await getStaffBuildingIds(slug, userId) : null,
+  };
+}
+
+/**
+ * GET /events - Server-Sent Events stream of live updates in this tenant: ticket comments, announcements and
+ * budget approval counts the user can see. Each message is `event: <type>` with the event as JSON data.
+ */
+eventsRouter.get("/", async (req, res) => {
+  const slug = req.tenantSlug!;
+  let scope = await loadScope(req);
+  let scopeLoadedAt = Date.now();
+  let refreshing: Promise<void> | null = null;
+
+  const send = (envelope: LiveEnvelope) => {
+    if (!canReceive(scope, envelope.event)) return;
+    res.write(`event: ${envelope.event.type}\ndata: ${JSON.stringify(envelope.event)}\n\n`);
+  };
+
+  let unsubscribe: () => void;
+  try {
+    unsubscribe = await subscribeLiveEvents((envelope) => {
+      if (envelope.tenantSlug !== slug) return;
+      if (!refreshing && Date.now() - scopeLoadedAt >= SCOPE_TTL_MS) {
+        refreshing = loadScope(req)
+          .then((s) => {
+            scope = s;
+            scopeLoadedAt = Date.now();
+          })
+          .catch((err) => console.error("Failed to refresh event scope", err))
+          .finally(() => {
+            refreshing = null;
+          });
+      }
+      if (refreshing) refreshing.then(() => send(envelope));
+      else send(envelope);
+    });
+  } catch (err) {
+    console.error("Failed to subscribe to live events", err);
+    res.status(503).json({ error: "Live events unavailable" });
+    return;
+  }
+  if (req.socket.destroyed) {
+    unsubscribe();
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write("retry: 5000\n\n");
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+  const maxAge = setTimeout(() => res.end(), MAX_STREAM_MS);
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    clearTimeout(maxAge);
+    unsubscribe();
+  });
+});
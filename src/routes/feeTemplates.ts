@@ -1,15 +1,39 @@
 import { Router } from "express";
 import { z } from "zod";
 import { requireAuth, requireTenant } from "../middleware/auth.js";
-import { requireStaff } from "../middleware/role.js";
+import {
+  requireStaff,
+  requirePermission,
+  getVisibleBuildingIds,
+  canAccessBuilding,
+  canManageBuildingRecord,
+  canManageUnit,
+} from "../middleware/role.js";
 import { tenantDb } from "../db/tenantDb.js";
 import { feeTemplates as feeTemplatesTable, unitFees, units } from "../db/schema/tenant.js";
-import { eq, desc, inArray } from "drizzle-orm";
+import { eq, desc, inArray, or, isNull } from "drizzle-orm";
 import { logAudit } from "../services/auditLog.js";
+import type { Request } from "express";
 
 export const feeTemplatesRouter = Router();
 feeTemplatesRouter.use(requireAuth, requireTenant, requireStaff);
 
+/** Building of a fee template (null = tenant-wide), or undefined when it does not exist. */
+async function getTemplateBuildingId(slug: string, id: number): Promise<number | null | undefined> {
+  const [row] = await tenantDb(slug, (db) =>
+    db.select({ buildingId: feeTemplatesTable.buildingId }).from(feeTemplatesTable).where(eq(feeTemplatesTable.id, id)).limit(1)
+  );
+  return row ? row.buildingId : undefined;
+}
+
+/** Unit fees can only be managed by staff who can act on the unit's building. */
+async function canManageUnitFee(req: Request, id: number): Promise<boolean> {
+  const [row] = await tenantDb(req.tenantSlug!, (db) =>
+    db.select({ unitId: unitFees.unitId }).from(unitFees).where(eq(unitFees.id, id)).limit(1)
+  );
+  return !!row && (await canManageUnit(req, row.unitId));
+}
+
 const frequencyEnum = z.enum(["monthly", "yearly"]);
 const createTemplateSchema = z.object({
   name: z.string().min(1).max(255),
@@ -30,21 +54,36 @@ feeTemplatesRouter.get("/", async (req, res) => {
   const slug = req.tenantSlug!;
   const buildingIdParam = req.query.buildingId as string | undefined;
   const buildingId = buildingIdParam ? parseInt(buildingIdParam, 10) : undefined;
+  const visibleBuildingIds = await getVisibleBuildingIds(req);
+  if (buildingId != null && !Number.isNaN(buildingId) && visibleBuildingIds && !visibleBuildingIds.includes(buildingId)) {
+    return res.json([]);
+  }
   const list = await tenantDb(slug, (db) => {
     if (buildingId != null && !Number.isNaN(buildingId)) {
       return db.select().from(feeTemplatesTable).where(eq(feeTemplatesTable.buildingId, buildingId));
     }
+    if (visibleBuildingIds) {
+      const condition =
+        visibleBuildingIds.length > 0
+          ? or(isNull(feeTemplatesTable.buildingId), inArray(feeTemplatesTable.buildingId, visibleBuildingIds))
+          : isNull(feeTemplatesTable.buildingId);
+      return db.select().from(feeTemplatesTable).where(condition).orderBy(desc(feeTemplatesTable.id));
+    }
     return db.select().from(feeTemplatesTable).orderBy(desc(feeTemplatesTable.id));
   });
   res.json(list);
 });
 
-feeTemplatesRouter.post("/", async (req, res) => {
+feeTemplatesRouter.post("/", requirePermission("fees:write"), async (req, res) => {
   const parsed = createTemplateSchema.safeParse(req.body);
   if (!parsed.success) {
     res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
     return;
   }
+  if (!(await canManageBuildingRecord(req, parsed.data.buildingId ?? null))) {
+    res.status(403).json({ error: "Access denied: you can only manage fees for your buildings" });
+    return;
+  }
   const slug = req.tenantSlug!;
   const actorId = req.user!.userId;
   const [row] = await tenantDb(slug, async (db) => {
@@ -72,12 +111,25 @@ feeTemplatesRouter.get("/unit-fees/list", async (req, res) => {
   const slug = req.tenantSlug!;
   const buildingIdParam = req.query.buildingId as string | undefined;
   const unitIdParam = req.query.unitId as string | undefined;
+  const visibleBuildingIds = await getVisibleBuildingIds(req);
   const list = await tenantDb(slug, async (db) => {
     if (unitIdParam) {
       const unitId = parseInt(unitIdParam, 10);
       if (Number.isNaN(unitId)) return [];
+      if (visibleBuildingIds && !(await canManageUnit(req, unitId))) return [];
       return db.select().from(unitFees).where(eq(unitFees.unitId, unitId)).orderBy(desc(unitFees.effectiveFrom));
     }
+    if (visibleBuildingIds) {
+      const buildingId = buildingIdParam ? parseInt(buildingIdParam, 10) : NaN;
+      const buildingIds = Number.isNaN(buildingId)
+        ? visibleBuildingIds
+        : visibleBuildingIds.filter((id) => id === buildingId);
+      if (buildingIds.length === 0) return [];
+      const unitIds = await db.select({ id: units.id }).from(units).where(inArray(units.buildingId, buildingIds));
+      const ids = unitIds.map((u) => u.id);
+      if (ids.length === 0) return [];
+      return db.select().from(unitFees).where(inArray(unitFees.unitId, ids)).orderBy(desc(unitFees.effectiveFrom));
+    }
     if (buildingIdParam) {
       const buildingId = parseInt(buildingIdParam, 10);
       if (Number.isNaN(buildingId)) return db.select().from(unitFees).orderBy(desc(unitFees.id));
@@ -91,12 +143,16 @@ feeTemplatesRouter.get("/unit-fees/list", async (req, res) => {
   res.json(list);
 });
 
-feeTemplatesRouter.post("/unit-fees", async (req, res) => {
+feeTemplatesRouter.post("/unit-fees", requirePermission("fees:write"), async (req, res) => {
   const parsed = createUnitFeeSchema.safeParse(req.body);
   if (!parsed.success) {
     res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
     return;
   }
+  if (!(await canManageUnit(req, parsed.data.unitId))) {
+    res.status(404).json({ error: "Unit not found" });
+    return;
+  }
   const slug = req.tenantSlug!;
   const actorId = req.user!.userId;
   const [row] = await tenantDb(slug, async (db) => {
@@ -121,7 +177,7 @@ feeTemplatesRouter.post("/unit-fees", async (req, res) => {
   res.status(201).json(row);
 });
 
-feeTemplatesRouter.patch("/unit-fees/:id", async (req, res) => {
+feeTemplatesRouter.patch("/unit-fees/:id", requirePermission("fees:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
@@ -133,6 +189,10 @@ feeTemplatesRouter.patch("/unit-fees/:id", async (req, res) => {
     return;
   }
   const slug = req.tenantSlug!;
+  if (!(await canManageUnitFee(req, id))) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
   const update: Record<string, unknown> = {};
   if (parsed.data?.amount != null) update.amount = parsed.data.amount.toFixed(2);
   if (parsed.data?.frequency != null) update.frequency = parsed.data.frequency;
@@ -151,13 +211,17 @@ feeTemplatesRouter.patch("/unit-fees/:id", async (req, res) => {
   res.json(row);
 });
 
-feeTemplatesRouter.delete("/unit-fees/:id", async (req, res) => {
+feeTemplatesRouter.delete("/unit-fees/:id", requirePermission("fees:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
     return;
   }
   const slug = req.tenantSlug!;
+  if (!(await canManageUnitFee(req, id))) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
   const [deleted] = await tenantDb(slug, (db) => db.delete(unitFees).where(eq(unitFees.id, id)).returning({ id: unitFees.id }));
   if (!deleted) {
     res.status(404).json({ error: "Not found" });
@@ -174,14 +238,14 @@ feeTemplatesRouter.get("/:id", async (req, res) => {
   }
   const slug = req.tenantSlug!;
   const [row] = await tenantDb(slug, (db) => db.select().from(feeTemplatesTable).where(eq(feeTemplatesTable.id, id)).limit(1));
-  if (!row) {
+  if (!row || (row.buildingId != null && !(await canAccessBuilding(req, row.buildingId)))) {
     res.status(404).json({ error: "Not found" });
     return;
   }
   res.json(row);
 });
 
-feeTemplatesRouter.patch("/:id", async (req, res) => {
+feeTemplatesRouter.patch("/:id", requirePermission("fees:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
@@ -193,6 +257,18 @@ feeTemplatesRouter.patch("/:id", async (req, res) => {
     return;
   }
   const slug = req.tenantSlug!;
+  const templateBuildingId = await getTemplateBuildingId(slug, id);
+  if (templateBuildingId === undefined) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  if (
+    !(await canManageBuildingRecord(req, templateBuildingId)) ||
+    (parsed.data.buildingId !== undefined && !(await canManageBuildingRecord(req, parsed.data.buildingId ?? null)))
+  ) {
+    res.status(403).json({ error: "Access denied: you can only manage fees for your buildings" });
+    return;
+  }
   const update: Record<string, unknown> = {};
   if (parsed.data?.name != null) update.name = parsed.data.name;
   if (parsed.data?.amount != null) update.amount = parsed.data.amount.toFixed(2);
@@ -210,13 +286,22 @@ feeTemplatesRouter.patch("/:id", async (req, res) => {
   res.json(row);
 });
 
-feeTemplatesRouter.delete("/:id", async (req, res) => {
+feeTemplatesRouter.delete("/:id", requirePermission("fees:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
     return;
   }
   const slug = req.tenantSlug!;
+  const templateBuildingId = await getTemplateBuildingId(slug, id);
+  if (templateBuildingId === undefined) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  if (!(await canManageBuildingRecord(req, templateBuildingId))) {
+    res.status(403).json({ error: "Access denied: you can only manage fees for your buildings" });
+    return;
+  }
   const actorId = req.user!.userId;
   const [deleted] = await tenantDb(slug, async (db) => {
     const [r] = await db.delete(feeTemplatesTable).where(eq(feeTemplatesTable.id, id)).returning({ id: feeTemplatesTable.id });
@@ -0,0 +1,31 @@
+import { Router } from "express";
+import path from "node:path";
+import { filesystemStorage } from "../storage/filesystem.js";
+import { fileUrlSecret, verifySignedFile } from "../storage/signedUrl.js";
+import { contentDisposition } from "../services/fileType.js";
+import { publicLinkRateLimit } from "../middleware/rateLimit.js";
+
+/** Serves the signed links of the filesystem storage adapter. No auth or X-Tenant: the signature is the access check. */
+export const filesRouter = Router();
+
+filesRouter.use(publicLinkRateLimit);
+
+/** GET /files/<key>?expires=&disposition=&filename=&type=&sig= - a stored file, until the link expires (no auth) */
+filesRouter.get("/*", async (req, res) => {
+  const key = (req.params as Record<string, string>)[0];
+  const file = key ? verifySignedFile(fileUrlSecret(), key, req.query) : null;
+  if (!file) {
+    res.status(403).json({ error: "Invalid or expired link" });
+    return;
+  }
+  const stream = await filesystemStorage.get(file.key);
+  if (!stream) {
+    res.status(404).json({ error: "File not found" });
+    return;
+  }
+  res.setHeader("Content-Type", file.contentType ?? "application/octet-stream");
+  res.setHeader("Content-Disposition", contentDisposition(file.disposition, file.filename ?? path.basename(file.key)));
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.setHeader("Cache-Control", `private, max-age=${Math.max(0, file.expires - Math.floor(Date.now() / 1000))}`);
+  stream.pipe(res);
+});
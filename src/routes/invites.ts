@@ -6,10 +6,15 @@ import { publicDb } from "../db/index.js";
 import { invites as invitesTable, tenants, users, tenantUsers } from "../db/schema/public.js";
 import { eq, and, isNull } from "drizzle-orm";
 import { tenantDb } from "../db/tenantDb.js";
-import { unitMembers } from "../db/schema/tenant.js";
-import { signToken } from "../middleware/auth.js";
+import { units as unitsTable, unitMembers } from "../db/schema/tenant.js";
+import { createSession, sessionMetaFromRequest } from "../services/sessionService.js";
+import { signChallengeToken } from "../middleware/auth.js";
+import { publicLinkRateLimit } from "../middleware/rateLimit.js";
+import { isLockedOut, recordFailedLogin } from "../services/loginLockout.js";
+import { logAudit } from "../services/auditLog.js";
 
 export const invitesRouter = Router();
+invitesRouter.use(publicLinkRateLimit);
 
 const acceptInviteSchema = z.object({
   password: z.string().min(8),
@@ -23,6 +28,8 @@ invitesRouter.get("/accept/:token", async (req, res) => {
       email: invitesTable.email,
       role: invitesTable.role,
       unitId: invitesTable.unitId,
+      unitIds: invitesTable.unitIds,
+      unitRole: invitesTable.unitRole,
       expiresAt: invitesTable.expiresAt,
       tenantId: invitesTable.tenantId,
       acceptedAt: invitesTable.acceptedAt,
@@ -43,6 +50,8 @@ invitesRouter.get("/accept/:token", async (req, res) => {
   res.json({
     email: inv.email,
     role: inv.role,
+    unitRole: inv.role === "resident" ? (inv.unitRole ?? "resident") : null,
+    unitCount: inv.unitIds?.length ?? (inv.unitId != null ? 1 : 0),
     tenantName: tenant.name,
     tenantSlug: tenant.slug,
   });
@@ -83,8 +92,13 @@ invitesRouter.post("/accept/:token", async (req, res) => {
       .returning();
   } else {
     isExistingUser = true;
+    if (isLockedOut(user)) {
+      res.status(429).json({ error: "Too many failed sign-in attempts. Please try again later." });
+      return;
+    }
     const passwordValid = await bcrypt.compare(parsed.data.password, user.passwordHash);
     if (!passwordValid) {
+      await recordFailedLogin(user.id, req.ip ?? null);
       res.status(401).json({ error: "Incorrect password. Use the password for your existing Komun account." });
       return;
     }
@@ -94,7 +108,8 @@ invitesRouter.post("/accept/:token", async (req, res) => {
     .from(tenantUsers)
     .where(and(eq(tenantUsers.tenantId, tenant.id), eq(tenantUsers.userId, user.id)))
     .limit(1);
-  if (existingTu.length === 0) {
+  const joinedTenant = existingTu.length === 0;
+  if (joinedTenant) {
     const orgRole = invite.role as "org_owner" | "org_admin" | "property_manager" | "accountant" | "support" | "resident";
     await publicDb.insert(tenantUsers).values({
       tenantId: tenant.id,
@@ -102,22 +117,43 @@ invitesRouter.post("/accept/:token", async (req, res) => {
       role: orgRole,
     });
   }
-  if (invite.role === "resident" && invite.unitId) {
-    await tenantDb(tenant.slug, async (db) => {
+  await tenantDb(tenant.slug, async (db) => {
+    if (joinedTenant) {
+      await logAudit(db, {
+        actorId: user.id,
+        action: "create",
+        entityType: "membership",
+        entityId: user.id,
+        details: { role: invite.role, inviteId: invite.id },
+      });
+    }
+    if (invite.role !== "resident") return;
+    const unitRole = (invite.unitRole ?? "resident") as "owner" | "tenant" | "resident";
+    const unitIds = invite.unitIds?.length ? invite.unitIds : invite.unitId != null ? [invite.unitId] : [];
+    for (const unitId of unitIds) {
       const [existing] = await db
         .select({ id: unitMembers.id })
         .from(unitMembers)
-        .where(and(eq(unitMembers.unitId, invite.unitId!), eq(unitMembers.userId, user.id)))
+        .where(and(eq(unitMembers.unitId, unitId), eq(unitMembers.userId, user.id)))
         .limit(1);
-      if (!existing) {
-        await db.insert(unitMembers).values({
-          unitId: invite.unitId!,
-          userId: user.id,
-          role: "resident",
+      if (existing) continue;
+      const [unit] = await db.select({ id: unitsTable.id }).from(unitsTable).where(eq(unitsTable.id, unitId)).limit(1);
+      if (!unit) continue; // unit deleted since the invite was sent
+      const [member] = await db
+        .insert(unitMembers)
+        .values({ unitId, userId: user.id, role: unitRole })
+        .returning({ id: unitMembers.id });
+      if (member) {
+        await logAudit(db, {
+          actorId: user.id,
+          action: "create",
+          entityType: "unit_member",
+          entityId: member.id,
+          details: { unitId, userId: user.id, role: unitRole, inviteId: invite.id },
         });
       }
-    });
-  }
+    }
+  });
   await publicDb
     .update(invitesTable)
     .set({ acceptedAt: new Date(), acceptedUserId: user.id })
@@ -128,11 +164,12 @@ invitesRouter.post("/accept/:token", async (req, res) => {
     .innerJoin(tenants, eq(tenantUsers.tenantId, tenants.id))
     .where(eq(tenantUsers.userId, user.id));
   const tenantSlugs = tenantUserRows.map((r) => r.slug);
-  const accessToken = signToken({
-    sub: user.id,
-    email: user.email,
-    tenantSlugs,
-  });
+  if (user.totpEnabledAt) {
+    // The invite is accepted, but signing in still needs the second factor.
+    res.json({ twoFactorRequired: true, challengeToken: signChallengeToken(user.id), existingUser: isExistingUser });
+    return;
+  }
+  const { accessToken, refreshToken } = await createSession(user, sessionMetaFromRequest(req));
   res.json({
     user: {
       id: user.id,
@@ -141,6 +178,7 @@ invitesRouter.post("/accept/:token", async (req, res) => {
       tenantSlugs,
     },
     accessToken,
+    refreshToken,
     existingUser: isExistingUser,
   });
 });
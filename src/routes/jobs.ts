@@ -0,0 +1,95 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth, requireTenant } from "../middleware/auth.js";
+import { requirePermission } from "../middleware/role.js";
+import { publicDb } from "../db/index.js";
+import { jobs } from "../db/schema/public.js";
+import { tenantDb } from "../db/tenantDb.js";
+import { and, desc, eq, type SQL } from "drizzle-orm";
+import { retryJob } from "../jobs/queue.js";
+import { logAudit } from "../services/auditLog.js";
+import { getTenantId } from "../services/tenantService.js";
+
+export const jobsRouter = Router();
+jobsRouter.use(requireAuth, requireTenant, requirePermission("jobs:manage"));
+
+const listQuerySchema = z.object({
+  status: z.enum(["pending", "running", "completed", "failed"]).optional(),
+  type: z.string().max(64).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/** GET /jobs - background jobs for this tenant, newest first; filter with ?status=failed&type=email (jobs:manage) */
+jobsRouter.get("/", async (req, res) => {
+  const parsed = listQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const tenantId = await getTenantId(req.tenantSlug!);
+  if (tenantId == null) {
+    res.status(404).json({ error: "Tenant not found" });
+    return;
+  }
+  const { status, type, limit, offset } = parsed.data;
+  const conditions: SQL[] = [eq(jobs.tenantId, tenantId)];
+  if (status) conditions.push(eq(jobs.status, status));
+  if (type) conditions.push(eq(jobs.type, type));
+  const rows = await publicDb
+    .select()
+    .from(jobs)
+    .where(and(...conditions))
+    .orderBy(desc(jobs.createdAt))
+    .limit(limit)
+    .offset(offset);
+  res.json(rows);
+});
+
+/** GET /jobs/:id - one job with its payload and last error (jobs:manage) */
+jobsRouter.get("/:id", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const tenantId = await getTenantId(req.tenantSlug!);
+  const [row] =
+    tenantId == null
+      ? []
+      : await publicDb.select().from(jobs).where(and(eq(jobs.id, id), eq(jobs.tenantId, tenantId))).limit(1);
+  if (!row) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  res.json(row);
+});
+
+/** POST /jobs/:id/retry - re-queue a failed job with a fresh set of attempts (jobs:manage) */
+jobsRouter.post("/:id/retry", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const tenantId = await getTenantId(slug);
+  if (tenantId == null) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  const job = await retryJob(id, tenantId);
+  if (!job) {
+    const [existing] = await publicDb
+      .select({ status: jobs.status })
+      .from(jobs)
+      .where(and(eq(jobs.id, id), eq(jobs.tenantId, tenantId)))
+      .limit(1);
+    if (!existing) res.status(404).json({ error: "Not found" });
+    else res.status(400).json({ error: "Only failed jobs can be retried" });
+    return;
+  }
+  const actorId = req.user!.userId;
+  await tenantDb(slug, (db) => logAudit(db, { actorId, action: "retry", entityType: "job", entityId: id, details: { type: job.type } }));
+  res.json(job);
+});
@@ -0,0 +1,354 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth, requireTenant } from "../middleware/auth.js";
+import {
+  requireStaff,
+  requirePermission,
+  getVisibleBuildingIds,
+  canAccessBuilding,
+  isAssignableStaff,
+} from "../middleware/role.js";
+import { tenantDb } from "../db/tenantDb.js";
+import {
+  maintenanceSchedules,
+  maintenanceFrequencyEnum,
+  tickets as ticketsTable,
+  buildings as buildingsTable,
+  vendors as vendorsTable,
+  ticketPriorityEnum,
+  ticketCategoryEnum,
+} from "../db/schema/tenant.js";
+import { and, asc, eq, gte, inArray, lte, type SQL } from "drizzle-orm";
+import type { Request } from "express";
+import { logAudit } from "../services/auditLog.js";
+import {
+  addDays,
+  buildMaintenanceCalendar,
+  occurrenceOnOrAfter,
+  toDateString,
+} from "../services/maintenance.js";
+
+export const maintenanceRouter = Router();
+maintenanceRouter.use(requireAuth, requireTenant, requireStaff);
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+const scheduleFields = {
+  task: z.string().min(1).max(255),
+  description: z.string().nullable().optional(),
+  location: z.string().max(255).nullable().optional(),
+  category: z.enum(ticketCategoryEnum.enumValues).nullable().optional(),
+  priority: z.enum(ticketPriorityEnum.enumValues).optional(),
+  frequency: z.enum(maintenanceFrequencyEnum.enumValues),
+  /** Every N days, weeks, months or years */
+  interval: z.number().int().min(1).max(365).optional(),
+  /** First occurrence; later ones are counted from it */
+  startDate: dateSchema,
+  /** Open the ticket this many days before it is due */
+  leadDays: z.number().int().min(0).max(365).optional(),
+  vendorId: z.number().int().positive().nullable().optional(),
+  /** Staff user the tickets are assigned to */
+  assigneeId: z.number().int().positive().nullable().optional(),
+  active: z.boolean().optional(),
+};
+const createScheduleSchema = z.object({ buildingId: z.number().int().positive(), ...scheduleFields });
+const updateScheduleSchema = z.object({
+  ...scheduleFields,
+  task: scheduleFields.task.optional(),
+  frequency: scheduleFields.frequency.optional(),
+  startDate: scheduleFields.startDate.optional(),
+});
+const listQuerySchema = z.object({
+  buildingId: z.coerce.number().int().positive().optional(),
+  active: z.enum(["true", "false"]).optional(),
+});
+const calendarQuerySchema = z
+  .object({
+    buildingId: z.coerce.number().int().positive().optional(),
+    /** Defaults to today */
+    from: dateSchema.optional(),
+    /** Inclusive; defaults to 30 days after from */
+    to: dateSchema.optional(),
+  })
+  .transform((q) => {
+    const from = q.from ?? toDateString(new Date());
+    return { ...q, from, to: q.to ?? addDays(from, 30) };
+  })
+  .refine((q) => q.from <= q.to && q.to <= addDays(q.from, 366), {
+    message: "to must be on or after from, and at most 366 days later",
+    path: ["to"],
+  });
+
+type Schedule = typeof maintenanceSchedules.$inferSelect;
+
+/** Schedules in buildings the user can see (null = none). */
+async function visibleSchedulesCondition(req: Request, buildingId?: number): Promise<SQL | undefined | null> {
+  const visibleBuildingIds = await getVisibleBuildingIds(req);
+  if (visibleBuildingIds != null && visibleBuildingIds.length === 0) return null;
+  return and(
+    buildingId != null ? eq(maintenanceSchedules.buildingId, buildingId) : undefined,
+    visibleBuildingIds != null ? inArray(maintenanceSchedules.buildingId, visibleBuildingIds) : undefined
+  );
+}
+
+async function findSchedule(req: Request, id: number): Promise<Schedule | undefined> {
+  const [row] = await tenantDb(req.tenantSlug!, (db) =>
+    db.select().from(maintenanceSchedules).where(eq(maintenanceSchedules.id, id)).limit(1)
+  );
+  return row && (await canAccessBuilding(req, row.buildingId)) ? row : undefined;
+}
+
+/** Error message for a vendor or assignee that cannot take the schedule's tickets, or null. */
+async function checkAssignment(
+  req: Request,
+  buildingId: number,
+  data: { vendorId?: number | null; assigneeId?: number | null }
+): Promise<string | null> {
+  const slug = req.tenantSlug!;
+  if (data.vendorId != null) {
+    const [vendor] = await tenantDb(slug, (db) =>
+      db.select({ active: vendorsTable.active }).from(vendorsTable).where(eq(vendorsTable.id, data.vendorId!)).limit(1)
+    );
+    if (!vendor?.active) return "Vendor not found or inactive";
+  }
+  if (data.assigneeId != null && !(await isAssignableStaff(slug, data.assigneeId, buildingId))) {
+    return "Assignee must be a staff member with access to this building";
+  }
+  return null;
+}
+
+/** GET /maintenance-schedules - schedules of buildings the user can see, by next due date. Filters: ?buildingId, active */
+maintenanceRouter.get("/", async (req, res) => {
+  const parsed = listQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const visible = await visibleSchedulesCondition(req, parsed.data.buildingId);
+  if (visible === null) {
+    res.json([]);
+    return;
+  }
+  const { active } = parsed.data;
+  const rows = await tenantDb(req.tenantSlug!, (db) =>
+    db
+      .select()
+      .from(maintenanceSchedules)
+      .where(and(visible, active ? eq(maintenanceSchedules.active, active === "true") : undefined))
+      .orderBy(asc(maintenanceSchedules.nextDueDate), asc(maintenanceSchedules.id))
+  );
+  res.json(rows);
+});
+
+/**
+ * GET /maintenance-schedules/calendar - maintenance due from ?from (default today) through ?to (default 30 days
+ * later, at most 366): tickets already opened by schedules, with their status and whether they are overdue, and
+ * upcoming occurrences of active schedules (ticketId null). Optional ?buildingId.
+ */
+maintenanceRouter.get("/calendar", async (req, res) => {
+  const parsed = calendarQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const { from, to, buildingId } = parsed.data;
+  const visible = await visibleSchedulesCondition(req, buildingId);
+  if (visible === null) {
+    res.json({ from, to, items: [] });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const schedules = await tenantDb(slug, (db) =>
+    db
+      .select({ schedule: maintenanceSchedules, buildingName: buildingsTable.name })
+      .from(maintenanceSchedules)
+      .innerJoin(buildingsTable, eq(maintenanceSchedules.buildingId, buildingsTable.id))
+      .where(visible)
+  );
+  const scheduleIds = schedules.map((s) => s.schedule.id);
+  const tickets =
+    scheduleIds.length > 0
+      ? await tenantDb(slug, (db) =>
+          db
+            .select({
+              id: ticketsTable.id,
+              maintenanceScheduleId: ticketsTable.maintenanceScheduleId,
+              dueDate: ticketsTable.dueDate,
+              status: ticketsTable.status,
+            })
+            .from(ticketsTable)
+            .where(
+              and(
+                inArray(ticketsTable.maintenanceScheduleId, scheduleIds),
+                gte(ticketsTable.dueDate, from),
+                lte(ticketsTable.dueDate, to)
+              )
+            )
+        )
+      : [];
+  const byId = new Map(schedules.map((s) => [s.schedule.id, s]));
+  const entries = buildMaintenanceCalendar(
+    schedules.map((s) => s.schedule),
+    tickets,
+    from,
+    to,
+    toDateString(new Date())
+  );
+  res.json({
+    from,
+    to,
+    items: entries.map((e) => {
+      const { schedule, buildingName } = byId.get(e.scheduleId)!;
+      return {
+        ...e,
+        task: schedule.task,
+        buildingId: schedule.buildingId,
+        buildingName,
+        location: schedule.location,
+        vendorId: schedule.vendorId,
+        assigneeId: schedule.assigneeId,
+      };
+    }),
+  });
+});
+
+/**
+ * POST /maintenance-schedules - add a recurring task to a building (maintenance:manage). The first ticket is
+ * due on the first occurrence from today on.
+ */
+maintenanceRouter.post("/", requirePermission("maintenance:manage"), async (req, res) => {
+  const parsed = createScheduleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const { buildingId } = parsed.data;
+  const [building] = await tenantDb(slug, (db) =>
+    db.select({ id: buildingsTable.id }).from(buildingsTable).where(eq(buildingsTable.id, buildingId)).limit(1)
+  );
+  if (!building || !(await canAccessBuilding(req, buildingId))) {
+    res.status(404).json({ error: "Building not found" });
+    return;
+  }
+  const assignmentError = await checkAssignment(req, buildingId, parsed.data);
+  if (assignmentError) {
+    res.status(400).json({ error: assignmentError });
+    return;
+  }
+  const interval = parsed.data.interval ?? 1;
+  const nextDueDate = occurrenceOnOrAfter({ ...parsed.data, interval }, toDateString(new Date()));
+  const actorId = req.user!.userId;
+  const [row] = await tenantDb(slug, async (db) => {
+    const [r] = await db
+      .insert(maintenanceSchedules)
+      .values({ ...parsed.data, interval, nextDueDate, createdBy: actorId })
+      .returning();
+    if (r) {
+      await logAudit(db, {
+        actorId,
+        action: "create",
+        entityType: "maintenance_schedule",
+        entityId: r.id,
+        details: { task: r.task, buildingId },
+      });
+    }
+    return r ? [r] : [];
+  });
+  res.status(201).json(row!);
+});
+
+/** GET /maintenance-schedules/:id - one schedule */
+maintenanceRouter.get("/:id", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const row = await findSchedule(req, id);
+  if (!row) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  res.json(row);
+});
+
+/**
+ * PATCH /maintenance-schedules/:id - change the task, recurrence, vendor or assignee, or pause it with active
+ * false (maintenance:manage). Changing the recurrence moves the next due date to its first occurrence from today on.
+ */
+maintenanceRouter.patch("/:id", requirePermission("maintenance:manage"), async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const parsed = updateScheduleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const before = await findSchedule(req, id);
+  if (!before) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  const assignmentError = await checkAssignment(req, before.buildingId, parsed.data);
+  if (assignmentError) {
+    res.status(400).json({ error: assignmentError });
+    return;
+  }
+  const rule = {
+    frequency: parsed.data.frequency ?? before.frequency,
+    interval: parsed.data.interval ?? before.interval,
+    startDate: parsed.data.startDate ?? before.startDate,
+  };
+  const ruleChanged =
+    rule.frequency !== before.frequency || rule.interval !== before.interval || rule.startDate !== before.startDate;
+  const actorId = req.user!.userId;
+  const [row] = await tenantDb(req.tenantSlug!, async (db) => {
+    const [r] = await db
+      .update(maintenanceSchedules)
+      .set({
+        ...parsed.data,
+        ...(ruleChanged ? { nextDueDate: occurrenceOnOrAfter(rule, toDateString(new Date())) } : {}),
+        updatedAt: new Date(),
+      })
+      .where(eq(maintenanceSchedules.id, id))
+      .returning();
+    if (r) {
+      await logAudit(db, { actorId, action: "update", entityType: "maintenance_schedule", entityId: id, details: parsed.data });
+    }
+    return r ? [r] : [];
+  });
+  if (!row) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  res.json(row);
+});
+
+/** DELETE /maintenance-schedules/:id - remove a schedule (maintenance:manage). Tickets it opened stay. */
+maintenanceRouter.delete("/:id", requirePermission("maintenance:manage"), async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  if (!(await findSchedule(req, id))) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  const actorId = req.user!.userId;
+  const [row] = await tenantDb(req.tenantSlug!, async (db) => {
+    const [r] = await db.delete(maintenanceSchedules).where(eq(maintenanceSchedules.id, id)).returning();
+    if (r) {
+      await logAudit(db, { actorId, action: "delete", entityType: "maintenance_schedule", entityId: id, details: { task: r.task } });
+    }
+    return r ? [r] : [];
+  });
+  if (!row) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  res.status(204).send();
+});
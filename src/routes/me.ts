@@ -1,11 +1,267 @@
 import { Router } from "express";
 import { requireAuth, requireTenant } from "../middleware/auth.js";
 import { tenantDb } from "../db/tenantDb.js";
-import { unitMembers, units, buildings, unitFees } from "../db/schema/tenant.js";
-import { eq, inArray, desc } from "drizzle-orm";
+import { unitMembers, units, buildings, unitFees, notifications } from "../db/schema/tenant.js";
+import { publicDb } from "../db/index.js";
+import { users, notificationPreferences } from "../db/schema/public.js";
+import { eq, inArray, desc, sql, and, isNull, lt, type SQL } from "drizzle-orm";
+import { z } from "zod";
+import { listSessions, revokeSession } from "../services/sessionService.js";
+import { generateTotpSecret, totpAuthUrl } from "../services/totp.js";
+import { generateRecoveryCodes, verifySecondFactor, consumeTotpCode } from "../services/twoFactor.js";
+import { getPermissions } from "../middleware/role.js";
+import { NOTIFICATION_EVENTS, NOTIFICATION_CHANNELS, resolvePreferences } from "../services/notifications.js";
 
 export const meRouter = Router();
-meRouter.use(requireAuth, requireTenant);
+meRouter.use(requireAuth);
+
+/** GET /me/sessions - active sessions (devices) of the current user; not tenant-scoped */
+meRouter.get("/sessions", async (req, res) => {
+  const list = await listSessions(req.user!.userId);
+  res.json(list.map((s) => ({ ...s, current: s.id === req.user!.sessionId })));
+});
+
+/** DELETE /me/sessions/:id - revoke one of the current user's sessions (log out a device) */
+meRouter.delete("/sessions/:id", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const revoked = await revokeSession(req.user!.userId, id);
+  if (!revoked) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  res.status(204).send();
+});
+
+const twoFactorCodeSchema = z.object({ code: z.string().min(1).max(32) });
+
+async function getTwoFactorUser(userId: number) {
+  const [user] = await publicDb
+    .select({
+      id: users.id,
+      email: users.email,
+      totpSecret: users.totpSecret,
+      totpEnabledAt: users.totpEnabledAt,
+      totpRecoveryCodes: users.totpRecoveryCodes,
+    })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  return user ?? null;
+}
+
+/** GET /me/2fa - two-factor status of the current user */
+meRouter.get("/2fa", async (req, res) => {
+  const user = await getTwoFactorUser(req.user!.userId);
+  if (!user) {
+    res.status(404).json({ error: "User not found" });
+    return;
+  }
+  res.json({
+    enabled: user.totpEnabledAt != null,
+    enabledAt: user.totpEnabledAt,
+    recoveryCodesRemaining: user.totpEnabledAt ? (user.totpRecoveryCodes ?? []).length : 0,
+    requiredByTenants: req.user!.twoFactorRequiredTenants,
+  });
+});
+
+/** POST /me/2fa/setup - start enrolment: returns a new secret and otpauth URL (QR code). Confirm with /me/2fa/verify. */
+meRouter.post("/2fa/setup", async (req, res) => {
+  const user = await getTwoFactorUser(req.user!.userId);
+  if (!user) {
+    res.status(404).json({ error: "User not found" });
+    return;
+  }
+  if (user.totpEnabledAt) {
+    res.status(409).json({ error: "Two-factor authentication is already enabled" });
+    return;
+  }
+  const secret = generateTotpSecret();
+  await publicDb.update(users).set({ totpSecret: secret }).where(eq(users.id, user.id));
+  res.json({ secret, otpauthUrl: totpAuthUrl(secret, user.email) });
+});
+
+/** POST /me/2fa/verify - confirm enrolment with a code from the app. Returns recovery codes (shown only once). */
+meRouter.post("/2fa/verify", async (req, res) => {
+  const parsed = twoFactorCodeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const user = await getTwoFactorUser(req.user!.userId);
+  if (!user) {
+    res.status(404).json({ error: "User not found" });
+    return;
+  }
+  if (user.totpEnabledAt) {
+    res.status(409).json({ error: "Two-factor authentication is already enabled" });
+    return;
+  }
+  if (!user.totpSecret) {
+    res.status(400).json({ error: "Start enrolment with POST /me/2fa/setup first" });
+    return;
+  }
+  if (!(await consumeTotpCode({ id: user.id, totpSecret: user.totpSecret }, parsed.data.code))) {
+    res.status(400).json({ error: "Invalid authentication code" });
+    return;
+  }
+  const { codes, hashes } = generateRecoveryCodes();
+  await publicDb
+    .update(users)
+    .set({ totpEnabledAt: new Date(), totpRecoveryCodes: hashes })
+    .where(eq(users.id, user.id));
+  res.json({ enabled: true, recoveryCodes: codes });
+});
+
+/** POST /me/2fa/recovery-codes - replace all recovery codes (requires a current code). */
+meRouter.post("/2fa/recovery-codes", async (req, res) => {
+  const parsed = twoFactorCodeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const user = await getTwoFactorUser(req.user!.userId);
+  if (!user?.totpEnabledAt || !user.totpSecret) {
+    res.status(400).json({ error: "Two-factor authentication is not enabled" });
+    return;
+  }
+  if (!(await consumeTotpCode({ id: user.id, totpSecret: user.totpSecret }, parsed.data.code))) {
+    res.status(400).json({ error: "Invalid authentication code" });
+    return;
+  }
+  const { codes, hashes } = generateRecoveryCodes();
+  await publicDb.update(users).set({ totpRecoveryCodes: hashes }).where(eq(users.id, user.id));
+  res.json({ recoveryCodes: codes });
+});
+
+/** DELETE /me/2fa - disable 2FA (requires a current code or a recovery code). */
+meRouter.delete("/2fa", async (req, res) => {
+  const parsed = twoFactorCodeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const user = await getTwoFactorUser(req.user!.userId);
+  if (!user?.totpEnabledAt) {
+    res.status(400).json({ error: "Two-factor authentication is not enabled" });
+    return;
+  }
+  if (!(await verifySecondFactor(user, parsed.data.code))) {
+    res.status(400).json({ error: "Invalid authentication code" });
+    return;
+  }
+  await publicDb
+    .update(users)
+    .set({ totpSecret: null, totpEnabledAt: null, totpRecoveryCodes: null })
+    .where(eq(users.id, user.id));
+  res.status(204).send();
+});
+
+const phoneSchema = z.string().regex(/^\+[1-9]\d{6,14}$/, "Phone must be in international format, e.g. +35699123456");
+
+const updateProfileSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  phone: phoneSchema.nullable().optional(),
+});
+
+/** GET /me/profile - the current user's name, email and phone; not tenant-scoped */
+meRouter.get("/profile", async (req, res) => {
+  const [user] = await publicDb
+    .select({ id: users.id, email: users.email, name: users.name, phone: users.phone })
+    .from(users)
+    .where(eq(users.id, req.user!.userId))
+    .limit(1);
+  if (!user) {
+    res.status(404).json({ error: "User not found" });
+    return;
+  }
+  res.json(user);
+});
+
+/** PATCH /me/profile - update name and phone (E.164, used for WhatsApp / SMS notifications) */
+meRouter.patch("/profile", async (req, res) => {
+  const parsed = updateProfileSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const updates: { name?: string; phone?: string | null } = {};
+  if (parsed.data.name !== undefined) updates.name = parsed.data.name;
+  if (parsed.data.phone !== undefined) updates.phone = parsed.data.phone;
+  if (Object.keys(updates).length > 0) {
+    await publicDb.update(users).set(updates).where(eq(users.id, req.user!.userId));
+  }
+  const [user] = await publicDb
+    .select({ id: users.id, email: users.email, name: users.name, phone: users.phone })
+    .from(users)
+    .where(eq(users.id, req.user!.userId))
+    .limit(1);
+  if (!user) {
+    res.status(404).json({ error: "User not found" });
+    return;
+  }
+  res.json(user);
+});
+
+/** GET /me/notification-preferences - channels per event (email / whatsapp / sms), with defaults filled in */
+meRouter.get("/notification-preferences", async (req, res) => {
+  const userId = req.user!.userId;
+  const rows = await publicDb.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+  res.json({
+    events: NOTIFICATION_EVENTS,
+    channels: NOTIFICATION_CHANNELS,
+    preferences: resolvePreferences(rows),
+  });
+});
+
+const updatePreferencesSchema = z.object({
+  preferences: z.record(z.enum(NOTIFICATION_EVENTS), z.record(z.enum(NOTIFICATION_CHANNELS), z.boolean())),
+});
+
+/**
+ * PUT /me/notification-preferences - set channels per event, e.g. { preferences: { announcement: { email: false, whatsapp: true } } }.
+ * Only the listed event/channel pairs change. WhatsApp and SMS need a phone number on the profile.
+ */
+meRouter.put("/notification-preferences", async (req, res) => {
+  const parsed = updatePreferencesSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const userId = req.user!.userId;
+  const changes = Object.entries(parsed.data.preferences).flatMap(([event, channels]) =>
+    Object.entries(channels ?? {}).map(([channel, enabled]) => ({ userId, event, channel, enabled: enabled as boolean }))
+  );
+  if (changes.some((c) => c.enabled && c.channel !== "email")) {
+    const [user] = await publicDb.select({ phone: users.phone }).from(users).where(eq(users.id, userId)).limit(1);
+    if (!user?.phone) {
+      res.status(400).json({ error: "Add a phone number to your profile before enabling WhatsApp or SMS" });
+      return;
+    }
+  }
+  if (changes.length > 0) {
+    await publicDb
+      .insert(notificationPreferences)
+      .values(changes)
+      .onConflictDoUpdate({
+        target: [notificationPreferences.userId, notificationPreferences.event, notificationPreferences.channel],
+        set: { enabled: sql`excluded.enabled`, updatedAt: new Date() },
+      });
+  }
+  const rows = await publicDb.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+  res.json({ preferences: resolvePreferences(rows) });
+});
+
+meRouter.use(requireTenant);
+
+/** GET /me/permissions - the current user's role and effective permissions in this tenant */
+meRouter.get("/permissions", async (req, res) => {
+  const role = req.user!.roleByTenant[req.tenantSlug!];
+  res.json({ role, permissions: [...(await getPermissions(req))] });
+});
 
 /** GET /me/units - units the current user is a member of (for residents: their unit(s); for staff: any they're in unit_members) */
 meRouter.get("/units", async (req, res) => {
@@ -75,3 +331,90 @@ meRouter.get("/fees", async (req, res) => {
   }));
   res.json({ units: unitsWithFees });
 });
+
+const notificationsQuerySchema = z.object({
+  unread: z.enum(["true", "false"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+  before: z.coerce.number().int().positive().optional(),
+});
+
+/** Unread inbox items of one user, for the inbox badge and the dashboard */
+async function countUnread(slug: string, userId: number): Promise<number> {
+  const [row] = await tenantDb(slug, (db) =>
+    db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+  );
+  return row?.count ?? 0;
+}
+
+/** GET /me/notifications - the current user's in-app inbox, newest first; ?unread=true, ?before=<id> for the next page */
+meRouter.get("/notifications", async (req, res) => {
+  const parsed = notificationsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const userId = req.user!.userId;
+  const { unread, limit, before } = parsed.data;
+  const conditions: SQL[] = [eq(notifications.userId, userId)];
+  if (unread === "true") conditions.push(isNull(notifications.readAt));
+  if (before) conditions.push(lt(notifications.id, before));
+  const items = await tenantDb(slug, (db) =>
+    db
+      .select()
+      .from(notifications)
+      .where(and(...conditions))
+      .orderBy(desc(notifications.id))
+      .limit(limit)
+  );
+  res.json({
+    items,
+    unreadCount: await countUnread(slug, userId),
+    nextBefore: items.length === limit ? items[items.length - 1].id : null,
+  });
+});
+
+/** GET /me/notifications/unread-count - number of unread inbox items */
+meRouter.get("/notifications/unread-count", async (req, res) => {
+  res.json({ unreadCount: await countUnread(req.tenantSlug!, req.user!.userId) });
+});
+
+/** POST /me/notifications/read-all - mark every inbox item as read */
+meRouter.post("/notifications/read-all", async (req, res) => {
+  const slug = req.tenantSlug!;
+  const userId = req.user!.userId;
+  const updated = await tenantDb(slug, (db) =>
+    db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id })
+  );
+  res.json({ marked: updated.length, unreadCount: 0 });
+});
+
+/** POST /me/notifications/:id/read - mark one inbox item as read */
+meRouter.post("/notifications/:id/read", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const userId = req.user!.userId;
+  const [row] = await tenantDb(slug, (db) =>
+    db
+      .update(notifications)
+      .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning()
+  );
+  if (!row) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  res.json(row);
+});
@@ -1,12 +1,13 @@
 import { Router } from "express";
 import { z } from "zod";
 import { requireAuth, requireTenant } from "../middleware/auth.js";
-import { isResident, getResidentBuildingIds, requireStaff } from "../middleware/role.js";
+import { getVisibleBuildingIds, canAccessBuilding, requirePermission } from "../middleware/role.js";
 import { tenantDb } from "../db/tenantDb.js";
 import { meetingMinutes as meetingMinutesTable } from "../db/schema/tenant.js";
 import { eq, desc, inArray } from "drizzle-orm";
 import { logAudit } from "../services/auditLog.js";
 import { getPublicUser } from "../services/userLookup.js";
+import { queueNotification } from "../services/notify.js";
 
 export const meetingMinutesRouter = Router();
 meetingMinutesRouter.use(requireAuth, requireTenant);
@@ -28,8 +29,8 @@ meetingMinutesRouter.get("/", async (req, res) => {
   const buildingId = buildingIdParam ? parseInt(buildingIdParam, 10) : undefined;
 
   const list = await tenantDb(slug, async (db) => {
-    if (isResident(req)) {
-      const buildingIds = await getResidentBuildingIds(slug, req.user!.userId);
+    const buildingIds = await getVisibleBuildingIds(req);
+    if (buildingIds != null) {
       if (buildingIds.length === 0) return [];
 
       if (buildingId != null && !Number.isNaN(buildingId)) {
@@ -66,7 +67,7 @@ meetingMinutesRouter.get("/", async (req, res) => {
 });
 
 // POST /meeting-minutes - staff only
-meetingMinutesRouter.post("/", requireStaff, async (req, res) => {
+meetingMinutesRouter.post("/", requirePermission("minutes:write"), async (req, res) => {
   const parsed = createMinutesSchema.safeParse(req.body);
   if (!parsed.success) {
     res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
@@ -75,6 +76,10 @@ meetingMinutesRouter.post("/", requireStaff, async (req, res) => {
   const slug = req.tenantSlug!;
   const actorId = req.user!.userId;
   const { buildingId, title, body, meetingDate } = parsed.data;
+  if (!(await canAccessBuilding(req, buildingId))) {
+    res.status(403).json({ error: "Access denied: you can only add minutes for your buildings" });
+    return;
+  }
 
   const [row] = await tenantDb(slug, async (db) => {
     const [r] = await db
@@ -90,6 +95,7 @@ meetingMinutesRouter.post("/", requireStaff, async (req, res) => {
     if (r) await logAudit(db, { actorId, action: "create", entityType: "meeting_minutes", entityId: r.id, details: { title: r.title } });
     return r ? [r] : [];
   });
+  if (row) await queueNotification(slug, { event: "minutes", minutesId: row.id, actorId });
 
   res.status(201).json(row);
 });
@@ -109,19 +115,16 @@ meetingMinutesRouter.get("/:id", async (req, res) => {
     res.status(404).json({ error: "Not found" });
     return;
   }
-  if (isResident(req)) {
-    const buildingIds = await getResidentBuildingIds(slug, req.user!.userId);
-    if (!buildingIds.includes(row.buildingId)) {
-      res.status(404).json({ error: "Not found" });
-      return;
-    }
+  if (!(await canAccessBuilding(req, row.buildingId))) {
+    res.status(404).json({ error: "Not found" });
+    return;
   }
   const createdByUser = await getPublicUser(row.createdBy);
   res.json({ ...row, createdByUser: createdByUser ? { id: createdByUser.id, name: createdByUser.name, email: createdByUser.email } : null });
 });
 
 // PATCH /meeting-minutes/:id - staff only
-meetingMinutesRouter.patch("/:id", requireStaff, async (req, res) => {
+meetingMinutesRouter.patch("/:id", requirePermission("minutes:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
@@ -133,6 +136,17 @@ meetingMinutesRouter.patch("/:id", requireStaff, async (req, res) => {
     return;
   }
   const slug = req.tenantSlug!;
+  const [existing] = await tenantDb(slug, (db) =>
+    db.select({ buildingId: meetingMinutesTable.buildingId }).from(meetingMinutesTable).where(eq(meetingMinutesTable.id, id)).limit(1)
+  );
+  if (!existing || !(await canAccessBuilding(req, existing.buildingId))) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  if (parsed.data.buildingId !== undefined && !(await canAccessBuilding(req, parsed.data.buildingId))) {
+    res.status(403).json({ error: "Access denied: you can only add minutes for your buildings" });
+    return;
+  }
   const actorId = req.user!.userId;
   const update: Record<string, unknown> = { ...parsed.data };
   if ("meetingDate" in update && typeof update.meetingDate === "string") {
@@ -156,13 +170,20 @@ meetingMinutesRouter.patch("/:id", requireStaff, async (req, res) => {
 });
 
 // DELETE /meeting-minutes/:id - staff only
-meetingMinutesRouter.delete("/:id", requireStaff, async (req, res) => {
+meetingMinutesRouter.delete("/:id", requirePermission("minutes:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
     return;
   }
   const slug = req.tenantSlug!;
+  const [existing] = await tenantDb(slug, (db) =>
+    db.select({ buildingId: meetingMinutesTable.buildingId }).from(meetingMinutesTable).where(eq(meetingMinutesTable.id, id)).limit(1)
+  );
+  if (!existing || !(await canAccessBuilding(req, existing.buildingId))) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
   const actorId = req.user!.userId;
   const [row] = await tenantDb(slug, async (db) => {
     const [r] = await db
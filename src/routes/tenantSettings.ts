@@ -3,14 +3,29 @@ import multer from "multer";
 import { z } from "zod";
 import crypto from "node:crypto";
 import { requireAuth, requireTenant } from "../middleware/auth.js";
-import { requireStaff } from "../middleware/role.js";
+import { requireStaff, requirePermission, hasPermission } from "../middleware/role.js";
 import { publicDb } from "../db/index.js";
 import { tenants } from "../db/schema/public.js";
-import { eq } from "drizzle-orm";
+import { tenantDb } from "../db/tenantDb.js";
+import { rolePermissions, ticketSlaTargets } from "../db/schema/tenant.js";
+import { and, eq } from "drizzle-orm";
 import { storage } from "../storage/index.js";
+import { logAudit } from "../services/auditLog.js";
+import { webhooksRouter } from "./webhooks.js";
+import { getSlaTargets } from "../services/ticketEvents.js";
+import { DEFAULT_SLA_TARGETS, TICKET_PRIORITIES } from "../services/ticketWorkflow.js";
+import {
+  PERMISSIONS,
+  ORG_ROLES,
+  CONFIGURABLE_ROLES,
+  DEFAULT_ROLE_PERMISSIONS,
+  resolvePermissions,
+  type Permission,
+} from "../services/permissions.js";
 
 export const tenantSettingsRouter = Router();
 tenantSettingsRouter.use(requireAuth, requireTenant, requireStaff);
+tenantSettingsRouter.use("/webhooks", webhooksRouter);
 
 const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 2 * 1024 * 1024 } }); // 2MB for logo
 
@@ -18,7 +33,7 @@ const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 2 *
 tenantSettingsRouter.get("/", async (req, res) => {
   const slug = req.tenantSlug!;
   const [tenant] = await publicDb
-    .select({ id: tenants.id, name: tenants.name, logo: tenants.logo, address: tenants.address, currency: tenants.currency })
+    .select({ id: tenants.id, name: tenants.name, logo: tenants.logo, address: tenants.address, currency: tenants.currency, requireTwoFactor: tenants.requireTwoFactor, mailFromName: tenants.mailFromName, mailReplyTo: tenants.mailReplyTo })
     .from(tenants)
     .where(eq(tenants.slug, slug))
     .limit(1);
@@ -31,6 +46,9 @@ tenantSettingsRouter.get("/", async (req, res) => {
     logo: tenant.logo ?? null,
     address: tenant.address ?? null,
     currency: tenant.currency ?? null,
+    requireTwoFactor: tenant.requireTwoFactor,
+    mailFromName: tenant.mailFromName ?? null,
+    mailReplyTo: tenant.mailReplyTo ?? null,
   });
 });
 
@@ -39,29 +57,49 @@ const updateSettingsSchema = z.object({
   logo: z.string().max(512).nullable().optional(),
   address: z.string().max(5000).nullable().optional(),
   currency: z.string().max(16).nullable().optional(),
+  /** Require 2FA for all non-resident members (security:manage only). */
+  requireTwoFactor: z.boolean().optional(),
+  /** Sender name on tenant emails; null falls back to the tenant name. */
+  mailFromName: z.string().min(1).max(255).nullable().optional(),
+  mailReplyTo: z.string().email().max(255).nullable().optional(),
 });
 
-/** PATCH /tenant-settings - update company settings (staff only) */
-tenantSettingsRouter.patch("/", async (req, res) => {
+/** PATCH /tenant-settings - update company settings (settings:write) */
+tenantSettingsRouter.patch("/", requirePermission("settings:write"), async (req, res) => {
   const slug = req.tenantSlug!;
   const parsed = updateSettingsSchema.safeParse(req.body);
   if (!parsed.success) {
     res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
     return;
   }
+  if (parsed.data.requireTwoFactor !== undefined && !(await hasPermission(req, "security:manage"))) {
+    res.status(403).json({ error: "Access denied: missing permission security:manage" });
+    return;
+  }
   const [tenant] = await publicDb.select({ id: tenants.id }).from(tenants).where(eq(tenants.slug, slug)).limit(1);
   if (!tenant) {
     res.status(404).json({ error: "Tenant not found" });
     return;
   }
-  const updates: { name?: string; logo?: string | null; address?: string | null; currency?: string | null } = {};
+  const updates: {
+    name?: string;
+    logo?: string | null;
+    address?: string | null;
+    currency?: string | null;
+    requireTwoFactor?: boolean;
+    mailFromName?: string | null;
+    mailReplyTo?: string | null;
+  } = {};
   if (parsed.data.name !== undefined) updates.name = parsed.data.name;
   if (parsed.data.logo !== undefined) updates.logo = parsed.data.logo;
   if (parsed.data.address !== undefined) updates.address = parsed.data.address;
   if (parsed.data.currency !== undefined) updates.currency = parsed.data.currency;
+  if (parsed.data.requireTwoFactor !== undefined) updates.requireTwoFactor = parsed.data.requireTwoFactor;
+  if (parsed.data.mailFromName !== undefined) updates.mailFromName = parsed.data.mailFromName;
+  if (parsed.data.mailReplyTo !== undefined) updates.mailReplyTo = parsed.data.mailReplyTo;
   if (Object.keys(updates).length === 0) {
     const [current] = await publicDb
-      .select({ name: tenants.name, logo: tenants.logo, address: tenants.address, currency: tenants.currency })
+      .select({ name: tenants.name, logo: tenants.logo, address: tenants.address, currency: tenants.currency, requireTwoFactor: tenants.requireTwoFactor, mailFromName: tenants.mailFromName, mailReplyTo: tenants.mailReplyTo })
       .from(tenants)
       .where(eq(tenants.id, tenant.id))
       .limit(1);
@@ -70,11 +108,14 @@ tenantSettingsRouter.patch("/", async (req, res) => {
       logo: current?.logo ?? null,
       address: current?.address ?? null,
       currency: current?.currency ?? null,
+      requireTwoFactor: current?.requireTwoFactor ?? false,
+      mailFromName: current?.mailFromName ?? null,
+      mailReplyTo: current?.mailReplyTo ?? null,
     });
   }
   await publicDb.update(tenants).set(updates).where(eq(tenants.id, tenant.id));
   const [updated] = await publicDb
-    .select({ name: tenants.name, logo: tenants.logo, address: tenants.address, currency: tenants.currency })
+    .select({ name: tenants.name, logo: tenants.logo, address: tenants.address, currency: tenants.currency, requireTwoFactor: tenants.requireTwoFactor, mailFromName: tenants.mailFromName, mailReplyTo: tenants.mailReplyTo })
     .from(tenants)
     .where(eq(tenants.id, tenant.id))
     .limit(1);
@@ -83,11 +124,14 @@ tenantSettingsRouter.patch("/", async (req, res) => {
     logo: updated?.logo ?? null,
     address: updated?.address ?? null,
     currency: updated?.currency ?? null,
+    requireTwoFactor: updated?.requireTwoFactor ?? false,
+    mailFromName: updated?.mailFromName ?? null,
+    mailReplyTo: updated?.mailReplyTo ?? null,
   });
 });
 
-/** POST /tenant-settings/logo - upload logo image (staff only). Returns { logo: fileKey }. */
-tenantSettingsRouter.post("/logo", upload.single("file"), async (req, res) => {
+/** POST /tenant-settings/logo - upload logo image (settings:write). Returns { logo: fileKey }. */
+tenantSettingsRouter.post("/logo", requirePermission("settings:write"), upload.single("file"), async (req, res) => {
   const slug = req.tenantSlug!;
   const file = req.file;
   if (!file) {
@@ -132,3 +176,107 @@ tenantSettingsRouter.get("/logo", async (req, res) => {
   res.setHeader("Cache-Control", "public, max-age=3600");
   stream.pipe(res);
 });
+
+/**
+ * GET /tenant-settings/permissions - permission matrix for this tenant: effective permissions per role,
+ * the built-in defaults and the tenant's overrides (staff only)
+ */
+tenantSettingsRouter.get("/permissions", async (req, res) => {
+  const slug = req.tenantSlug!;
+  const overrides = await tenantDb(slug, (db) => db.select().from(rolePermissions));
+  const roles: Record<string, Permission[]> = {};
+  for (const role of ORG_ROLES) {
+    roles[role] = [...resolvePermissions(role, overrides)];
+  }
+  res.json({
+    permissions: PERMISSIONS,
+    configurableRoles: CONFIGURABLE_ROLES,
+    roles,
+    defaults: DEFAULT_ROLE_PERMISSIONS,
+    overrides: overrides.map((o) => ({ role: o.role, permission: o.permission, allowed: o.allowed })),
+  });
+});
+
+const updatePermissionsSchema = z.object({
+  role: z.enum(CONFIGURABLE_ROLES),
+  /** true = grant, false = revoke, null = back to the role default */
+  permissions: z.record(z.enum(PERMISSIONS), z.boolean().nullable()),
+});
+
+/** PUT /tenant-settings/permissions - grant or revoke permissions for one role (permissions:manage) */
+tenantSettingsRouter.put("/permissions", requirePermission("permissions:manage"), async (req, res) => {
+  const parsed = updatePermissionsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const { role, permissions } = parsed.data;
+  const actorId = req.user!.userId;
+  const overrides = await tenantDb(slug, async (db) => {
+    for (const [permission, allowed] of Object.entries(permissions)) {
+      if (allowed == null) {
+        await db
+          .delete(rolePermissions)
+          .where(and(eq(rolePermissions.role, role), eq(rolePermissions.permission, permission)));
+      } else {
+        await db
+          .insert(rolePermissions)
+          .values({ role, permission, allowed, updatedBy: actorId })
+          .onConflictDoUpdate({
+            target: [rolePermissions.role, rolePermissions.permission],
+            set: { allowed, updatedBy: actorId, updatedAt: new Date() },
+          });
+      }
+    }
+    await logAudit(db, { actorId, action: "update", entityType: "role_permissions", entityId: role, details: permissions });
+    return db.select().from(rolePermissions).where(eq(rolePermissions.role, role));
+  });
+  res.json({ role, permissions: [...resolvePermissions(role, overrides)] });
+});
+
+/** GET /tenant-settings/ticket-sla - SLA targets per ticket priority, in hours, and the defaults (staff only) */
+tenantSettingsRouter.get("/ticket-sla", async (req, res) => {
+  res.json({ targets: await getSlaTargets(req.tenantSlug!), defaults: DEFAULT_SLA_TARGETS });
+});
+
+const slaTargetSchema = z
+  .object({
+    firstResponseHours: z.number().int().min(1).max(24 * 90),
+    resolutionHours: z.number().int().min(1).max(24 * 365),
+  })
+  .refine((t) => t.resolutionHours >= t.firstResponseHours, "resolutionHours must not be shorter than firstResponseHours");
+
+const updateSlaSchema = z.object({
+  /** null = back to the default for that priority */
+  targets: z.record(z.enum(TICKET_PRIORITIES), slaTargetSchema.nullable()),
+});
+
+/** PUT /tenant-settings/ticket-sla - override SLA targets for some priorities (settings:write) */
+tenantSettingsRouter.put("/ticket-sla", requirePermission("settings:write"), async (req, res) => {
+  const parsed = updateSlaSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const actorId = req.user!.userId;
+  await tenantDb(slug, async (db) => {
+    for (const [priority, target] of Object.entries(parsed.data.targets)) {
+      const key = priority as (typeof TICKET_PRIORITIES)[number];
+      if (target == null) {
+        await db.delete(ticketSlaTargets).where(eq(ticketSlaTargets.priority, key));
+      } else {
+        await db
+          .insert(ticketSlaTargets)
+          .values({ priority: key, ...target, updatedBy: actorId })
+          .onConflictDoUpdate({
+            target: ticketSlaTargets.priority,
+            set: { ...target, updatedBy: actorId, updatedAt: new Date() },
+          });
+      }
+    }
+    await logAudit(db, { actorId, action: "update", entityType: "ticket_sla_targets", details: parsed.data.targets });
+  });
+  res.json({ targets: await getSlaTargets(slug), defaults: DEFAULT_SLA_TARGETS });
+});
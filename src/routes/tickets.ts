@@ -1,89 +1,267 @@
 import { Router } from "express";
-import multer from "multer";
 import { z } from "zod";
 import crypto from "node:crypto";
 import { requireAuth, requireTenant } from "../middleware/auth.js";
 import {
   isResident,
   getResidentUnitIds,
-  getResidentBuildingIds,
-  requireStaff,
+  getVisibleBuildingIds,
+  canAccessBuilding,
+  requirePermission,
+  hasPermission,
+  isAssignableStaff,
 } from "../middleware/role.js";
 import { tenantDb } from "../db/tenantDb.js";
 import {
   tickets as ticketsTable,
+  ticketEvents,
+  ticketStatusEnum,
+  ticketPriorityEnum,
+  ticketCategoryEnum,
   ticketComments,
+  ticketCommentEdits,
   ticketAttachments,
+  ticketVisibilityEnum,
+  ticketVendorLinks,
+  ticketUpvotes,
+  vendors as vendorsTable,
   units as unitsTable,
+  buildings as buildingsTable,
 } from "../db/schema/tenant.js";
-import { eq, desc, inArray } from "drizzle-orm";
-import { storage } from "../storage/index.js";
+import { eq, desc, asc, inArray, and, or, gte, lt, isNull, isNotNull, sql, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { storage, createDownloadUrl } from "../storage/index.js";
 import type { Request } from "express";
 import { logAudit } from "../services/auditLog.js";
 import { getPublicUser, getPublicUsers } from "../services/userLookup.js";
+import { toDateString, isOverdue } from "../services/maintenance.js";
+import { queueNotification, sendVendorAssignment, vendorTicketUrl, getTicketLocation } from "../services/notify.js";
+import { publishLiveEvent } from "../services/liveEvents.js";
+import { ATTACHMENT_TYPES, contentDisposition } from "../services/fileType.js";
+import {
+  THUMBNAIL_CONTENT_TYPE,
+  uploadAttachmentFiles,
+  uploadedAttachmentFiles,
+  prepareAttachments,
+  storeAttachment,
+  sendStoredFile,
+  attachmentFile,
+  ATTACHMENT_VARIANTS,
+  type StoredAttachment,
+} from "../services/ticketAttachments.js";
+import { emitWebhookEvent } from "../services/webhooks.js";
+import { logTicketEvents, getSlaTargets, type TicketEventParams } from "../services/ticketEvents.js";
+import { checkTransition, allowedTransitions, slaStatus } from "../services/ticketWorkflow.js";
 
 export const ticketsRouter = Router();
 ticketsRouter.use(requireAuth, requireTenant);
 
-const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: 10 * 1024 * 1024 } });
+const priorityEnum = z.enum(ticketPriorityEnum.enumValues);
+const categoryEnum = z.enum(ticketCategoryEnum.enumValues);
 
-const createTicketSchema = z.object({
-  unitId: z.number().int().positive(),
-  title: z.string().min(1).max(255),
-  description: z.string().optional(),
-});
+const createTicketSchema = z
+  .object({
+    /** Omit for a common-area ticket (then buildingId is required) */
+    unitId: z.number().int().positive().optional(),
+    buildingId: z.number().int().positive().optional(),
+    location: z.string().max(255).nullable().optional(),
+    title: z.string().min(1).max(255),
+    description: z.string().optional(),
+    priority: priorityEnum.optional(),
+    category: categoryEnum.nullable().optional(),
+    /** Staff user to handle the ticket (tickets:assign) */
+    assigneeId: z.number().int().positive().nullable().optional(),
+  })
+  .refine((d) => d.unitId != null || d.buildingId != null, { message: "unitId or buildingId is required", path: ["unitId"] });
 const updateTicketSchema = z.object({
-  status: z.enum(["open", "in_progress", "resolved", "closed"]).optional(),
+  status: z.enum(ticketStatusEnum.enumValues).optional(),
   title: z.string().min(1).max(255).optional(),
   description: z.string().optional(),
+  location: z.string().max(255).nullable().optional(),
+  priority: priorityEnum.optional(),
+  category: categoryEnum.nullable().optional(),
+  assigneeId: z.number().int().positive().nullable().optional(),
+});
+const listQuerySchema = z.object({
+  buildingId: z.coerce.number().int().positive().optional(),
+  unitId: z.coerce.number().int().positive().optional(),
+  /** true: only common-area tickets; false: only unit tickets */
+  commonArea: z.enum(["true", "false"]).optional(),
+  /** One status or several, comma-separated */
+  status: z
+    .string()
+    .transform((v) => v.split(",").map((s) => s.trim()))
+    .pipe(z.array(z.enum(ticketStatusEnum.enumValues)).min(1))
+    .optional(),
+  priority: priorityEnum.optional(),
+  category: categoryEnum.optional(),
+  /** A user id, "me" or "none" (unassigned) */
+  assigneeId: z.union([z.enum(["me", "none"]), z.coerce.number().int().positive()]).optional(),
+  /** A user id or "me" */
+  reporterId: z.union([z.literal("me"), z.coerce.number().int().positive()]).optional(),
+  vendorId: z.coerce.number().int().positive().optional(),
+  maintenanceScheduleId: z.coerce.number().int().positive().optional(),
+  /** true: open or in progress and past their due date */
+  overdue: z.enum(["true"]).optional(),
+  createdFrom: z.coerce.date().optional(),
+  createdTo: z.coerce.date().optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+  sort: z.enum(["createdAt", "updatedAt", "priority"]).default("createdAt"),
+  order: z.enum(["desc", "asc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  /** nextCursor of the previous page */
+  cursor: z.coerce.number().int().positive().optional(),
+});
+const slaReportQuerySchema = z.object({
+  buildingId: z.coerce.number().int().positive().optional(),
+  /** Tickets created in the last N days */
+  days: z.coerce.number().int().min(1).max(366).default(90),
+});
+const visibilityEnum = z.enum(ticketVisibilityEnum.enumValues);
+const attachmentUrlQuerySchema = z.object({ variant: z.enum(ATTACHMENT_VARIANTS).default("download") });
+const createCommentSchema = z.object({ body: z.string().min(1), visibility: visibilityEnum.optional() });
+const updateCommentSchema = z.object({ body: z.string().min(1).optional(), visibility: visibilityEnum.optional() });
+const assignVendorSchema = z.object({
+  /** null removes the vendor and revokes their link */
+  vendorId: z.number().int().positive().nullable(),
+  /** Email the link to the vendor (default true; needs a vendor email) */
+  notify: z.boolean().optional(),
 });
-const createCommentSchema = z.object({ body: z.string().min(1) });
+
+/** "Me too" count of a ticket */
+const upvoteCount = sql<number>`(select count(*)::int from ${ticketUpvotes} where ${ticketUpvotes.ticketId} = ${ticketsTable.id})`;
 
 const ticketListSelect = {
   id: ticketsTable.id,
+  buildingId: ticketsTable.buildingId,
   unitId: ticketsTable.unitId,
+  location: ticketsTable.location,
   reporterId: ticketsTable.reporterId,
   title: ticketsTable.title,
   description: ticketsTable.description,
   status: ticketsTable.status,
+  priority: ticketsTable.priority,
+  category: ticketsTable.category,
+  assigneeId: ticketsTable.assigneeId,
+  vendorId: ticketsTable.vendorId,
+  maintenanceScheduleId: ticketsTable.maintenanceScheduleId,
+  dueDate: ticketsTable.dueDate,
+  upvotes: upvoteCount,
   createdAt: ticketsTable.createdAt,
   updatedAt: ticketsTable.updatedAt,
 } as const;
 
+/**
+ * Tickets the user can see (null = none; see assertTicketAccess): residents those of their units and the
+ * common-area tickets of their buildings, staff those of their buildings.
+ */
+async function visibleTicketsCondition(req: Request): Promise<SQL | undefined | null> {
+  const buildingIds = await getVisibleBuildingIds(req);
+  if (isResident(req)) {
+    const unitIds = await getResidentUnitIds(req.tenantSlug!, req.user!.userId);
+    const conditions = [
+      unitIds.length > 0 ? inArray(ticketsTable.unitId, unitIds) : undefined,
+      buildingIds != null && buildingIds.length > 0
+        ? and(isNull(ticketsTable.unitId), inArray(ticketsTable.buildingId, buildingIds))
+        : undefined,
+    ].filter((c) => c != null);
+    return conditions.length > 0 ? or(...conditions) : null;
+  }
+  if (buildingIds == null) return undefined;
+  return buildingIds.length > 0 ? inArray(ticketsTable.buildingId, buildingIds) : null;
+}
+
+/**
+ * Full-text search over title, description and comments the user can see (not deleted; public for residents).
+ * The expressions match the GIN indexes in the schema.
+ */
+function ticketSearchCondition(q: string, includeInternal: boolean): SQL {
+  const query = sql`websearch_to_tsquery('simple', ${q})`;
+  const internal = includeInternal ? sql`` : sql` and ${ticketComments.visibility} = 'public'`;
+  return sql`(to_tsvector('simple', ${ticketsTable.title} || ' ' || coalesce(${ticketsTable.description}, '')) @@ ${query}
+    or exists (select 1 from ${ticketComments} where ${ticketComments.ticketId} = ${ticketsTable.id}
+      and ${ticketComments.deletedAt} is null${internal}
+      and to_tsvector('simple', ${ticketComments.body}) @@ ${query}))`;
+}
+
+const cursorTicket = alias(ticketsTable, "cursor_ticket");
+const sortColumns = {
+  createdAt: [ticketsTable.createdAt, cursorTicket.createdAt],
+  updatedAt: [ticketsTable.updatedAt, cursorTicket.updatedAt],
+  priority: [ticketsTable.priority, cursorTicket.priority],
+} as const;
+
+/**
+ * GET /tickets - tickets the user can see, newest first, a page at a time: `{ items, total, nextCursor }`.
+ * Pass `nextCursor` back as ?cursor for the next page (?limit, default 50). Filters: ?buildingId, unitId, commonArea, status
+ * (comma-separated), priority, category, assigneeId (a user id, "me" or "none"), reporterId (a user id or "me"),
+ * vendorId, maintenanceScheduleId, overdue=true, createdFrom / createdTo (created before) and q (full-text search in title, description and comments).
+ * Sort with ?sort=createdAt|updatedAt|priority and ?order=desc|asc.
+ */
 ticketsRouter.get("/", async (req, res) => {
+  const parsed = listQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
   const slug = req.tenantSlug!;
-  const buildingIdParam = req.query.buildingId as string | undefined;
-  const buildingId = buildingIdParam ? parseInt(buildingIdParam, 10) : undefined;
-
-  const list = await tenantDb(slug, async (db) => {
-    if (buildingId != null && !Number.isNaN(buildingId)) {
-      // Residents may only query buildings they belong to.
-      if (isResident(req)) {
-        const buildingIds = await getResidentBuildingIds(slug, req.user!.userId);
-        if (!buildingIds.includes(buildingId)) return [];
-      }
-      // Tickets for ANY unit in the building (includes tickets reported by non-residents).
-      return db
-        .select(ticketListSelect)
-        .from(ticketsTable)
-        .innerJoin(unitsTable, eq(ticketsTable.unitId, unitsTable.id))
-        .where(eq(unitsTable.buildingId, buildingId))
-        .orderBy(desc(ticketsTable.createdAt));
-    }
+  const q = parsed.data;
+  const me = req.user!.userId;
+  const visible = await visibleTicketsCondition(req);
+  // Residents and building-scoped staff may only query buildings they belong to.
+  if (visible === null || (q.buildingId != null && !(await canAccessBuilding(req, q.buildingId)))) {
+    res.json({ items: [], total: 0, nextCursor: null });
+    return;
+  }
+  const filters: (SQL | undefined)[] = [visible];
+  if (q.buildingId != null) filters.push(eq(ticketsTable.buildingId, q.buildingId));
+  if (q.unitId != null) filters.push(eq(ticketsTable.unitId, q.unitId));
+  if (q.commonArea === "true") filters.push(isNull(ticketsTable.unitId));
+  else if (q.commonArea === "false") filters.push(isNotNull(ticketsTable.unitId));
+  if (q.status) filters.push(inArray(ticketsTable.status, q.status));
+  if (q.priority) filters.push(eq(ticketsTable.priority, q.priority));
+  if (q.category) filters.push(eq(ticketsTable.category, q.category));
+  if (q.assigneeId === "none") filters.push(isNull(ticketsTable.assigneeId));
+  else if (q.assigneeId != null) filters.push(eq(ticketsTable.assigneeId, q.assigneeId === "me" ? me : q.assigneeId));
+  if (q.reporterId != null) filters.push(eq(ticketsTable.reporterId, q.reporterId === "me" ? me : q.reporterId));
+  if (q.vendorId != null) filters.push(eq(ticketsTable.vendorId, q.vendorId));
+  if (q.maintenanceScheduleId != null) filters.push(eq(ticketsTable.maintenanceScheduleId, q.maintenanceScheduleId));
+  if (q.overdue) {
+    filters.push(lt(ticketsTable.dueDate, toDateString(new Date())), inArray(ticketsTable.status, ["open", "in_progress"]));
+  }
+  if (q.createdFrom) filters.push(gte(ticketsTable.createdAt, q.createdFrom));
+  if (q.createdTo) filters.push(lt(ticketsTable.createdAt, q.createdTo));
+  if (q.q) filters.push(ticketSearchCondition(q.q, !isResident(req)));
 
-    if (isResident(req)) {
-      const unitIds = await getResidentUnitIds(slug, req.user!.userId);
-      if (unitIds.length === 0) return [];
-      return db
-        .select(ticketListSelect)
-        .from(ticketsTable)
-        .where(inArray(ticketsTable.unitId, unitIds))
-        .orderBy(desc(ticketsTable.createdAt));
-    }
+  const [sortColumn, cursorColumn] = sortColumns[q.sort];
+  const direction = q.order === "asc" ? asc : desc;
 
-    return db.select(ticketListSelect).from(ticketsTable).orderBy(desc(ticketsTable.createdAt));
+  const { items, total } = await tenantDb(slug, async (db) => {
+    // Keyset pagination on (sort column, id), compared with the cursor ticket's own row so no precision is lost.
+    const after =
+      q.cursor != null
+        ? sql`(${sortColumn}, ${ticketsTable.id}) ${sql.raw(q.order === "asc" ? ">" : "<")} ${db
+            .select({ sort: cursorColumn, id: cursorTicket.id })
+            .from(cursorTicket)
+            .where(eq(cursorTicket.id, q.cursor))}`
+        : undefined;
+    const rows = await db
+      .select(ticketListSelect)
+      .from(ticketsTable)
+      .where(and(...filters, after))
+      .orderBy(direction(sortColumn), direction(ticketsTable.id))
+      .limit(q.limit);
+    const [count] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(ticketsTable)
+      .where(and(...filters));
+    return { items: rows, total: count?.count ?? 0 };
+  });
+  res.json({
+    items,
+    total,
+    nextCursor: items.length === q.limit ? items[items.length - 1].id : null,
   });
-  res.json(list);
 });
 
 ticketsRouter.post("/", async (req, res) => {
@@ -93,10 +271,48 @@ ticketsRouter.post("/", async (req, res) => {
     return;
   }
   const slug = req.tenantSlug!;
-  if (isResident(req)) {
-    const unitIds = await getResidentUnitIds(slug, req.user!.userId);
-    if (!unitIds.includes(parsed.data.unitId)) {
-      res.status(403).json({ error: "You can only create tickets for your own unit(s)" });
+  const unitId = parsed.data.unitId ?? null;
+  let buildingId = parsed.data.buildingId;
+  if (unitId != null) {
+    const [unit] = await tenantDb(slug, (db) =>
+      db.select({ buildingId: unitsTable.buildingId }).from(unitsTable).where(eq(unitsTable.id, unitId)).limit(1)
+    );
+    if (!unit || (buildingId != null && buildingId !== unit.buildingId)) {
+      res.status(404).json({ error: "Unit not found" });
+      return;
+    }
+    buildingId = unit.buildingId;
+    if (isResident(req)) {
+      const unitIds = await getResidentUnitIds(slug, req.user!.userId);
+      if (!unitIds.includes(unitId)) {
+        res.status(403).json({ error: "You can only create tickets for your own unit(s)" });
+        return;
+      }
+    } else if (!(await canAccessBuilding(req, buildingId))) {
+      res.status(404).json({ error: "Unit not found" });
+      return;
+    }
+  } else {
+    // Common-area ticket: residents of the building and staff who can act on it.
+    const [building] = await tenantDb(slug, (db) =>
+      db.select({ id: buildingsTable.id }).from(buildingsTable).where(eq(buildingsTable.id, buildingId!)).limit(1)
+    );
+    if (!building || !(await canAccessBuilding(req, building.id))) {
+      res.status(isResident(req) ? 403 : 404).json({
+        error: isResident(req) ? "You can only create tickets for your own building(s)" : "Building not found",
+      });
+      return;
+    }
+  }
+  const ticketBuildingId = buildingId!;
+  const assigneeId = parsed.data.assigneeId ?? null;
+  if (assigneeId != null) {
+    if (!(await hasPermission(req, "tickets:assign"))) {
+      res.status(403).json({ error: "Access denied: missing permission tickets:assign" });
+      return;
+    }
+    if (!(await isAssignableStaff(slug, assigneeId, ticketBuildingId))) {
+      res.status(400).json({ error: "Assignee must be a staff member with access to this building" });
       return;
     }
   }
@@ -105,34 +321,113 @@ ticketsRouter.post("/", async (req, res) => {
     const [r] = await db
       .insert(ticketsTable)
       .values({
-        unitId: parsed.data.unitId,
+        buildingId: ticketBuildingId,
+        unitId,
+        location: parsed.data.location ?? null,
         reporterId: actorId,
         title: parsed.data.title,
         description: parsed.data.description ?? null,
+        priority: parsed.data.priority,
+        category: parsed.data.category ?? null,
+        assigneeId,
       })
       .returning();
-    if (r) await logAudit(db, { actorId, action: "create", entityType: "ticket", entityId: r.id, details: { title: r.title } });
+    if (r) {
+      await logAudit(db, { actorId, action: "create", entityType: "ticket", entityId: r.id, details: { title: r.title } });
+      const events: TicketEventParams[] = [{ ticketId: r.id, actorId, type: "created", to: r.status }];
+      if (assigneeId != null) events.push({ ticketId: r.id, actorId, type: "assigned", to: assigneeId });
+      await logTicketEvents(db, events);
+      await emitWebhookEvent(db, slug, "ticket.created", r);
+    }
     return r ? [r] : [];
   });
+  if (row) {
+    if (assigneeId != null) {
+      await queueNotification(slug, { event: "ticket_assigned", ticketId: row.id, assigneeId, actorId });
+    }
+  }
   res.status(201).json(row);
 });
 
+type Ticket = typeof ticketsTable.$inferSelect;
+
+/** True for the first comment or status change on a ticket by staff other than its reporter (SLA first response). */
+function isStaffResponse(req: Request, ticket: Ticket): boolean {
+  return ticket.firstResponseAt == null && !isResident(req) && req.user!.userId !== ticket.reporterId;
+}
+
 async function assertTicketAccess(
   slug: string,
   ticketId: number,
   req: Request
-): Promise<{ ticket: Record<string, unknown> } | { status: number; body: object }> {
+): Promise<{ ticket: Ticket } | { status: number; body: object }> {
   const [ticket] = await tenantDb(slug, (db) =>
     db.select().from(ticketsTable).where(eq(ticketsTable.id, ticketId)).limit(1)
   );
   if (!ticket) return { status: 404, body: { error: "Not found" } };
-  if (isResident(req)) {
+  if (isResident(req) && ticket.unitId != null) {
     const unitIds = await getResidentUnitIds(slug, req.user!.userId);
     if (!unitIds.includes(ticket.unitId)) return { status: 404, body: { error: "Not found" } };
+  } else if (!(await canAccessBuilding(req, ticket.buildingId))) {
+    // Staff of the building, or for common-area tickets also its residents
+    return { status: 404, body: { error: "Not found" } };
   }
   return { ticket };
 }
 
+/**
+ * GET /tickets/sla-report - SLA breaches of tickets created in the last ?days (default 90), optionally for one
+ * ?buildingId: totals per priority and the breaching tickets, most overdue first (tickets:manage)
+ */
+ticketsRouter.get("/sla-report", requirePermission("tickets:manage"), async (req, res) => {
+  const parsed = slaReportQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const { buildingId, days } = parsed.data;
+  const visibleBuildingIds = await getVisibleBuildingIds(req);
+  if (buildingId != null && !(await canAccessBuilding(req, buildingId))) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const rows = await tenantDb(slug, (db) =>
+    db
+      .select({
+        ...ticketListSelect,
+        firstResponseAt: ticketsTable.firstResponseAt,
+        resolvedAt: ticketsTable.resolvedAt,
+      })
+      .from(ticketsTable)
+      .where(
+        and(
+          gte(ticketsTable.createdAt, since),
+          buildingId != null ? eq(ticketsTable.buildingId, buildingId) : undefined,
+          visibleBuildingIds != null ? inArray(ticketsTable.buildingId, visibleBuildingIds) : undefined
+        )
+      )
+      .orderBy(asc(ticketsTable.createdAt))
+  );
+  const targets = await getSlaTargets(slug);
+  const now = new Date();
+  const summary = Object.fromEntries(
+    ticketPriorityEnum.enumValues.map((p) => [p, { total: 0, firstResponseBreached: 0, resolutionBreached: 0 }])
+  );
+  const breaches = [];
+  for (const ticket of rows) {
+    const sla = slaStatus(ticket, targets[ticket.priority], now);
+    const totals = summary[ticket.priority];
+    totals.total++;
+    if (sla.firstResponseBreached) totals.firstResponseBreached++;
+    if (sla.resolutionBreached) totals.resolutionBreached++;
+    if (sla.firstResponseBreached || sla.resolutionBreached) breaches.push({ ...ticket, sla });
+  }
+  breaches.sort((a, b) => a.sla.resolutionDueAt.getTime() - b.sla.resolutionDueAt.getTime());
+  res.json({ since, targets, summary, breaches });
+});
+
 ticketsRouter.get("/:id", async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
@@ -145,21 +440,42 @@ ticketsRouter.get("/:id", async (req, res) => {
     res.status(result.status).json(result.body);
     return;
   }
-  const ticket = result.ticket as { reporterId: number; [k: string]: unknown };
+  const ticket = result.ticket;
   const reporterUser = await getPublicUser(ticket.reporterId);
+  const targets = await getSlaTargets(slug);
+  const actor = { resident: isResident(req), canManage: await hasPermission(req, "tickets:manage") };
+  const [upvotes] = await tenantDb(slug, (db) =>
+    db
+      .select({
+        count: sql<number>`count(*)::int`,
+        mine: sql<boolean>`coalesce(bool_or(${ticketUpvotes.userId} = ${req.user!.userId}), false)`,
+      })
+      .from(ticketUpvotes)
+      .where(eq(ticketUpvotes.ticketId, id))
+  );
   res.json({
-    ...result.ticket,
+    ...ticket,
+    upvotes: upvotes?.count ?? 0,
+    upvotedByMe: upvotes?.mine ?? false,
     reporterUser: reporterUser ? { id: reporterUser.id, name: reporterUser.name, email: reporterUser.email } : null,
+    allowedTransitions: allowedTransitions(ticket.status, actor),
+    sla: slaStatus(ticket, targets[ticket.priority]),
+    overdue: isOverdue(ticket, toDateString(new Date())),
   });
 });
 
-ticketsRouter.delete("/:id", requireStaff, async (req, res) => {
+ticketsRouter.delete("/:id", requirePermission("tickets:manage"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
     return;
   }
   const slug = req.tenantSlug!;
+  const access = await assertTicketAccess(slug, id, req);
+  if ("status" in access) {
+    res.status(access.status).json(access.body);
+    return;
+  }
   const actorId = req.user!.userId;
   const [deleted] = await tenantDb(slug, async (db) => {
     const [r] = await db.delete(ticketsTable).where(eq(ticketsTable.id, id)).returning({ id: ticketsTable.id });
@@ -185,28 +501,335 @@ ticketsRouter.patch("/:id", async (req, res) => {
     res.status(access.status).json(access.body);
     return;
   }
+  // Every resident of the building can see a common-area ticket, but only its reporter may change it.
+  if (isResident(req) && access.ticket.unitId == null && access.ticket.reporterId !== req.user!.userId) {
+    res.status(403).json({ error: "Only the reporter can change a common-area ticket" });
+    return;
+  }
   const parsed = updateTicketSchema.safeParse(req.body);
   if (!parsed.success) {
     res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
     return;
   }
+  const { assigneeId } = parsed.data;
+  if (assigneeId !== undefined) {
+    if (!(await hasPermission(req, "tickets:assign"))) {
+      res.status(403).json({ error: "Access denied: missing permission tickets:assign" });
+      return;
+    }
+    if (assigneeId != null && !(await isAssignableStaff(slug, assigneeId, access.ticket.buildingId))) {
+      res.status(400).json({ error: "Assignee must be a staff member with access to this building" });
+      return;
+    }
+  }
+  const before = access.ticket;
+  const canManage = await hasPermission(req, "tickets:manage");
+  // Priority sets the SLA targets and both feed the SLA report: only staff who manage tickets may change them.
+  const triageChanged =
+    (parsed.data.priority !== undefined && parsed.data.priority !== before.priority) ||
+    (parsed.data.category !== undefined && parsed.data.category !== before.category);
+  if (triageChanged && !canManage) {
+    res.status(403).json({ error: "Access denied: missing permission tickets:manage" });
+    return;
+  }
+  const statusChanged = parsed.data.status !== undefined && parsed.data.status !== before.status;
+  if (statusChanged) {
+    const check = checkTransition(before.status, parsed.data.status!, {
+      resident: isResident(req),
+      canManage,
+    });
+    if (!check.ok) {
+      res.status(check.status).json({ error: check.error });
+      return;
+    }
+  }
+  const actorId = req.user!.userId;
+  const now = new Date();
   const update: Record<string, unknown> = { ...parsed.data };
   if (Object.keys(update).length > 0) {
-    update.updatedAt = new Date();
+    update.updatedAt = now;
   }
-  const actorId = req.user!.userId;
+  if (statusChanged) {
+    if (parsed.data.status === "resolved") update.resolvedAt = now;
+    if (parsed.data.status === "closed") update.closedAt = now;
+    if (parsed.data.status === "open") Object.assign(update, { resolvedAt: null, closedAt: null });
+    if (isStaffResponse(req, before)) update.firstResponseAt = now;
+  }
+  const events: TicketEventParams[] = [];
+  if (statusChanged) events.push({ ticketId: id, actorId, type: "status_changed", from: before.status, to: parsed.data.status });
+  if (assigneeId !== undefined && assigneeId !== before.assigneeId) {
+    events.push({ ticketId: id, actorId, type: "assigned", from: before.assigneeId, to: assigneeId });
+  }
+  if (parsed.data.priority !== undefined && parsed.data.priority !== before.priority) {
+    events.push({ ticketId: id, actorId, type: "priority_changed", from: before.priority, to: parsed.data.priority });
+  }
+  if (parsed.data.category !== undefined && parsed.data.category !== before.category) {
+    events.push({ ticketId: id, actorId, type: "category_changed", from: before.category, to: parsed.data.category });
+  }
+  // A transition only applies to the status it was checked against, so concurrent changes cannot both pass.
+  const where = statusChanged
+    ? and(eq(ticketsTable.id, id), eq(ticketsTable.status, before.status))
+    : eq(ticketsTable.id, id);
   const [row] = await tenantDb(slug, async (db) => {
-    const [r] = await db.update(ticketsTable).set(update).where(eq(ticketsTable.id, id)).returning();
-    if (r) await logAudit(db, { actorId, action: "update", entityType: "ticket", entityId: id, details: parsed.data });
+    const [r] = await db.update(ticketsTable).set(update).where(where).returning();
+    if (r) {
+      await logAudit(db, { actorId, action: "update", entityType: "ticket", entityId: id, details: parsed.data });
+      await logTicketEvents(db, events);
+      if (Object.keys(parsed.data).length > 0) await emitWebhookEvent(db, slug, "ticket.updated", r);
+    }
     return r ? [r] : [];
   });
   if (!row) {
+    if (statusChanged) {
+      res.status(409).json({ error: "The ticket's status changed in the meantime. Reload it and try again." });
+      return;
+    }
     res.status(404).json({ error: "Not found" });
     return;
   }
+  if (statusChanged) {
+    await queueNotification(slug, {
+      event: "ticket_update",
+      change: "status",
+      ticketId: id,
+      actorId,
+      message: `Status changed to ${row.status.replace(/_/g, " ")}.`,
+    });
+  }
+  if (assigneeId != null && assigneeId !== before.assigneeId) {
+    await queueNotification(slug, { event: "ticket_assigned", ticketId: id, assigneeId, actorId });
+  }
   res.json(row);
 });
 
+/**
+ * PUT /tickets/:id/vendor - give the ticket to a vendor, or take it away with `vendorId: null` (tickets:assign).
+ * A new vendor gets a new portal link (the previous one stops working), emailed to them unless `notify` is false.
+ * Returns the ticket and the link.
+ */
+ticketsRouter.put("/:id/vendor", requirePermission("tickets:assign"), async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const access = await assertTicketAccess(slug, id, req);
+  if ("status" in access) {
+    res.status(access.status).json(access.body);
+    return;
+  }
+  const parsed = assignVendorSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const { vendorId } = parsed.data;
+  const before = access.ticket;
+  let vendor: typeof vendorsTable.$inferSelect | undefined;
+  if (vendorId != null) {
+    [vendor] = await tenantDb(slug, (db) => db.select().from(vendorsTable).where(eq(vendorsTable.id, vendorId)).limit(1));
+    if (!vendor || !vendor.active) {
+      res.status(400).json({ error: "Vendor not found or inactive" });
+      return;
+    }
+  }
+  const actorId = req.user!.userId;
+  const changed = vendorId !== before.vendorId;
+  const token = crypto.randomBytes(32).toString("hex");
+  const [row] = await tenantDb(slug, async (db) => {
+    if (!changed) return [before];
+    const [r] = await db
+      .update(ticketsTable)
+      .set({ vendorId, updatedAt: new Date() })
+      .where(eq(ticketsTable.id, id))
+      .returning();
+    if (r) {
+      await db.delete(ticketVendorLinks).where(eq(ticketVendorLinks.ticketId, id));
+      if (vendorId != null) await db.insert(ticketVendorLinks).values({ ticketId: id, vendorId, token, createdBy: actorId });
+      await logAudit(db, { actorId, action: "update", entityType: "ticket", entityId: id, details: { vendorId } });
+      await logTicketEvents(db, [{ ticketId: id, actorId, type: "vendor_assigned", from: before.vendorId, to: vendorId }]);
+      await emitWebhookEvent(db, slug, "ticket.updated", r);
+    }
+    return r ? [r] : [];
+  });
+  if (!row) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  const [link] = await tenantDb(slug, (db) =>
+    db.select().from(ticketVendorLinks).where(eq(ticketVendorLinks.ticketId, id)).limit(1)
+  );
+  if (changed) {
+    if (vendor?.email && link && parsed.data.notify !== false) {
+      await sendVendorAssignment({
+        email: vendor.email,
+        contactName: vendor.contactName,
+        tenantSlug: slug,
+        ticketId: id,
+        ticketTitle: row.title,
+        description: row.description,
+        location: await getTicketLocation(slug, row),
+        priority: row.priority,
+        token: link.token,
+      });
+    }
+  }
+  res.json({ ticket: row, vendorLink: link ? vendorTicketUrl(slug, id, link.token) : null });
+});
+
+/** GET /tickets/:id/vendor-link - the vendor's portal link, to share it another way (tickets:assign) */
+ticketsRouter.get("/:id/vendor-link", requirePermission("tickets:assign"), async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const access = await assertTicketAccess(slug, id, req);
+  if ("status" in access) {
+    res.status(access.status).json(access.body);
+    return;
+  }
+  const [link] = await tenantDb(slug, (db) =>
+    db.select().from(ticketVendorLinks).where(eq(ticketVendorLinks.ticketId, id)).limit(1)
+  );
+  if (!link) {
+    res.status(404).json({ error: "Ticket has no vendor" });
+    return;
+  }
+  res.json({ vendorId: link.vendorId, url: vendorTicketUrl(slug, id, link.token), createdAt: link.createdAt });
+});
+
+/** Number of "me too" upvotes of a ticket */
+async function countUpvotes(slug: string, ticketId: number): Promise<number> {
+  const [row] = await tenantDb(slug, (db) =>
+    db.select({ count: sql<number>`count(*)::int` }).from(ticketUpvotes).where(eq(ticketUpvotes.ticketId, ticketId))
+  );
+  return row?.count ?? 0;
+}
+
+/**
+ * POST /tickets/:id/upvote - "me too" on an open or in-progress common-area ticket, instead of reporting it again.
+ * Upvoting twice is a no-op; upvoters are notified of updates like the reporter.
+ */
+ticketsRouter.post("/:id/upvote", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const access = await assertTicketAccess(slug, id, req);
+  if ("status" in access) {
+    res.status(access.status).json(access.body);
+    return;
+  }
+  if (access.ticket.unitId != null) {
+    res.status(400).json({ error: "Only common-area tickets can be upvoted" });
+    return;
+  }
+  if (access.ticket.status !== "open" && access.ticket.status !== "in_progress") {
+    res.status(400).json({ error: "Ticket is already resolved" });
+    return;
+  }
+  const userId = req.user!.userId;
+  await tenantDb(slug, (db) => db.insert(ticketUpvotes).values({ ticketId: id, userId }).onConflictDoNothing());
+  res.json({ upvotes: await countUpvotes(slug, id), upvotedByMe: true });
+});
+
+/** DELETE /tickets/:id/upvote - take back a "me too" */
+ticketsRouter.delete("/:id/upvote", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const access = await assertTicketAccess(slug, id, req);
+  if ("status" in access) {
+    res.status(access.status).json(access.body);
+    return;
+  }
+  const userId = req.user!.userId;
+  await tenantDb(slug, (db) =>
+    db.delete(ticketUpvotes).where(and(eq(ticketUpvotes.ticketId, id), eq(ticketUpvotes.userId, userId)))
+  );
+  res.json({ upvotes: await countUpvotes(slug, id), upvotedByMe: false });
+});
+
+/**
+ * GET /tickets/:id/history - creation, status, assignee, vendor, priority and category changes and comments, oldest
+ * first. Comments posted by the vendor have no actor. Residents do not see internal comments here either.
+ */
+ticketsRouter.get("/:id/history", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const access = await assertTicketAccess(slug, id, req);
+  if ("status" in access) {
+    res.status(access.status).json(access.body);
+    return;
+  }
+  const { events, internalCommentIds } = await tenantDb(slug, async (db) => ({
+    events: await db
+      .select()
+      .from(ticketEvents)
+      .where(eq(ticketEvents.ticketId, id))
+      .orderBy(asc(ticketEvents.createdAt), asc(ticketEvents.id)),
+    internalCommentIds: isResident(req)
+      ? await db
+          .select({ id: ticketComments.id })
+          .from(ticketComments)
+          .where(and(eq(ticketComments.ticketId, id), eq(ticketComments.visibility, "internal")))
+      : [],
+  }));
+  const hidden = new Set(internalCommentIds.map((c) => String(c.id)));
+  const visible = events.filter((e) => !(e.type === "commented" && e.toValue != null && hidden.has(e.toValue)));
+  const userMap = await getPublicUsers([...new Set(visible.flatMap((e) => (e.actorId != null ? [e.actorId] : [])))]);
+  res.json(
+    visible.map((e) => ({
+      ...e,
+      actor: e.actorId != null && userMap[e.actorId] ? { id: e.actorId, name: userMap[e.actorId].name } : null,
+    }))
+  );
+});
+
+/** Visibility condition for comments and attachments: residents only see public ones. */
+function visibleTo(req: Request, column: typeof ticketComments.visibility | typeof ticketAttachments.visibility) {
+  return isResident(req) ? eq(column, "public") : undefined;
+}
+
+type TicketComment = typeof ticketComments.$inferSelect;
+
+/** A comment of the ticket the user may see (not deleted; public for residents), or null. */
+async function findComment(
+  req: Request,
+  ticketId: number,
+  commentId: number,
+  includeDeleted = false
+): Promise<TicketComment | null> {
+  const [comment] = await tenantDb(req.tenantSlug!, (db) =>
+    db
+      .select()
+      .from(ticketComments)
+      .where(
+        and(
+          eq(ticketComments.id, commentId),
+          eq(ticketComments.ticketId, ticketId),
+          includeDeleted ? undefined : isNull(ticketComments.deletedAt),
+          visibleTo(req, ticketComments.visibility)
+        )
+      )
+      .limit(1)
+  );
+  return comment ?? null;
+}
+
+/** GET /tickets/:id/comments - comments, oldest first. Residents only get public ones; deleted comments are left out. */
 ticketsRouter.get("/:id/comments", async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
@@ -220,19 +843,36 @@ ticketsRouter.get("/:id/comments", async (req, res) => {
     return;
   }
   const list = await tenantDb(slug, (db) =>
-    db.select().from(ticketComments).where(eq(ticketComments.ticketId, id)).orderBy(ticketComments.createdAt)
+    db
+      .select()
+      .from(ticketComments)
+      .where(
+        and(eq(ticketComments.ticketId, id), isNull(ticketComments.deletedAt), visibleTo(req, ticketComments.visibility))
+      )
+      .orderBy(ticketComments.createdAt)
   );
-  const userIds = [...new Set(list.map((c) => c.userId))];
+  const userIds = [...new Set(list.flatMap((c) => (c.userId != null ? [c.userId] : [])))];
   const userMap = await getPublicUsers(userIds);
+  const vendorIds = [...new Set(list.flatMap((c) => (c.vendorId != null ? [c.vendorId] : [])))];
+  const vendorRows =
+    vendorIds.length > 0
+      ? await tenantDb(slug, (db) =>
+          db.select({ id: vendorsTable.id, name: vendorsTable.name }).from(vendorsTable).where(inArray(vendorsTable.id, vendorIds))
+        )
+      : [];
+  const vendorMap = new Map(vendorRows.map((v) => [v.id, v]));
   const listWithUsers = list.map((c) => ({
     ...c,
-    user: userMap[c.userId]
-      ? { id: userMap[c.userId].id, name: userMap[c.userId].name, email: userMap[c.userId].email }
-      : null,
+    user:
+      c.userId != null && userMap[c.userId]
+        ? { id: userMap[c.userId].id, name: userMap[c.userId].name, email: userMap[c.userId].email }
+        : null,
+    vendor: c.vendorId != null ? (vendorMap.get(c.vendorId) ?? null) : null,
   }));
   res.json(listWithUsers);
 });
 
+/** POST /tickets/:id/comments - add a comment; staff may make it `internal` (staff only) */
 ticketsRouter.post("/:id/comments", async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
@@ -250,21 +890,57 @@ ticketsRouter.post("/:id/comments", async (req, res) => {
     res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
     return;
   }
+  const visibility = parsed.data.visibility ?? "public";
+  if (visibility === "internal" && isResident(req)) {
+    res.status(403).json({ error: "Residents cannot post internal comments" });
+    return;
+  }
   const actorId = req.user!.userId;
   const [row] = await tenantDb(slug, async (db) => {
     const [r] = await db
       .insert(ticketComments)
-      .values({ ticketId: id, userId: actorId, body: parsed.data.body })
+      .values({ ticketId: id, userId: actorId, body: parsed.data.body, visibility })
       .returning();
-    if (r) await logAudit(db, { actorId, action: "create", entityType: "ticket_comment", entityId: r.id, details: { ticketId: id } });
+    if (r) {
+      await logAudit(db, { actorId, action: "create", entityType: "ticket_comment", entityId: r.id, details: { ticketId: id, visibility } });
+      await logTicketEvents(db, [{ ticketId: id, actorId, type: "commented", to: r.id }]);
+      // Internal notes are not a response to the reporter.
+      if (visibility === "public" && isStaffResponse(req, access.ticket)) {
+        await db.update(ticketsTable).set({ firstResponseAt: r.createdAt }).where(eq(ticketsTable.id, id));
+      }
+    }
     return r ? [r] : [];
   });
+  if (row) {
+    await publishLiveEvent(slug, {
+      type: "ticket_comment",
+      ticketId: id,
+      commentId: row.id,
+      unitId: access.ticket.unitId,
+      buildingId: access.ticket.buildingId,
+      internal: visibility === "internal",
+    });
+  }
+  const excerpt = parsed.data.body.length > 200 ? `${parsed.data.body.slice(0, 199)}…` : parsed.data.body;
+  await queueNotification(slug, {
+    event: "ticket_update",
+    change: "comment",
+    ticketId: id,
+    actorId,
+    message: visibility === "internal" ? `New internal note: ${excerpt}` : `New comment: ${excerpt}`,
+    internal: visibility === "internal",
+  });
   res.status(201).json(row);
 });
 
-ticketsRouter.post("/:id/attachments", upload.single("file"), async (req, res) => {
+/**
+ * PATCH /tickets/:id/comments/:commentId - edit your own comment's body or visibility. The previous version is
+ * kept (GET .../edits). Residents cannot make a comment internal.
+ */
+ticketsRouter.patch("/:id/comments/:commentId", async (req, res) => {
   const id = parseInt(req.params.id, 10);
-  if (Number.isNaN(id)) {
+  const commentId = parseInt(req.params.commentId, 10);
+  if (Number.isNaN(id) || Number.isNaN(commentId)) {
     res.status(400).json({ error: "Invalid id" });
     return;
   }
@@ -274,29 +950,62 @@ ticketsRouter.post("/:id/attachments", upload.single("file"), async (req, res) =
     res.status(access.status).json(access.body);
     return;
   }
-  const file = req.file;
-  if (!file) {
-    res.status(400).json({ error: "No file uploaded" });
+  const parsed = updateCommentSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const comment = await findComment(req, id, commentId);
+  if (!comment) {
+    res.status(404).json({ error: "Not found" });
     return;
   }
-  const ext = file.originalname.split(".").pop() ?? "bin";
-  const fileKey = `tenants/${slug}/tickets/${id}/${crypto.randomUUID()}.${ext}`;
-  await storage.put(fileKey, file.buffer, file.mimetype);
   const actorId = req.user!.userId;
+  if (comment.userId !== actorId) {
+    res.status(403).json({ error: "You can only edit your own comments" });
+    return;
+  }
+  if (parsed.data.visibility === "internal" && isResident(req)) {
+    res.status(403).json({ error: "Residents cannot post internal comments" });
+    return;
+  }
+  const body = parsed.data.body ?? comment.body;
+  const visibility = parsed.data.visibility ?? comment.visibility;
+  if (body === comment.body && visibility === comment.visibility) {
+    res.json(comment);
+    return;
+  }
   const [row] = await tenantDb(slug, async (db) => {
     const [r] = await db
-      .insert(ticketAttachments)
-      .values({ ticketId: id, fileKey, filename: file.originalname })
+      .update(ticketComments)
+      .set({ body, visibility, editedAt: new Date() })
+      .where(eq(ticketComments.id, commentId))
       .returning();
-    if (r) await logAudit(db, { actorId, action: "create", entityType: "ticket_attachment", entityId: r.id, details: { ticketId: id, filename: file.originalname } });
+    if (r) {
+      await db.insert(ticketCommentEdits).values({
+        commentId,
+        editorId: actorId,
+        previousBody: comment.body,
+        previousVisibility: comment.visibility,
+      });
+      await logAudit(db, {
+        actorId,
+        action: "update",
+        entityType: "ticket_comment",
+        entityId: commentId,
+        details: { ticketId: id, visibility },
+      });
+    }
     return r ? [r] : [];
   });
-  res.status(201).json(row);
+  res.json(row);
 });
 
-ticketsRouter.get("/:id/attachments", async (req, res) => {
+/** DELETE /tickets/:id/comments/:commentId - delete your own comment, or any comment with tickets:manage */
+ticketsRouter.delete("/:id/comments/:commentId", async (req, res) => {
   const id = parseInt(req.params.id, 10);
-  if (Number.isNaN(id)) {
+  const commentId = parseInt(req.params.commentId, 10);
+  if (Number.isNaN(id) || Number.isNaN(commentId)) {
     res.status(400).json({ error: "Invalid id" });
     return;
   }
@@ -306,41 +1015,255 @@ ticketsRouter.get("/:id/attachments", async (req, res) => {
     res.status(access.status).json(access.body);
     return;
   }
-  const list = await tenantDb(slug, (db) =>
-    db.select().from(ticketAttachments).where(eq(ticketAttachments.ticketId, id))
+  const comment = await findComment(req, id, commentId);
+  if (!comment) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  const actorId = req.user!.userId;
+  if (comment.userId !== actorId && !(await hasPermission(req, "tickets:manage"))) {
+    res.status(403).json({ error: "You can only delete your own comments" });
+    return;
+  }
+  await tenantDb(slug, async (db) => {
+    const [deleted] = await db
+      .update(ticketComments)
+      .set({ deletedAt: new Date(), deletedBy: actorId })
+      .where(and(eq(ticketComments.id, commentId), isNull(ticketComments.deletedAt)))
+      .returning({ id: ticketComments.id });
+    if (!deleted) return;
+    // Keep what was deleted as the last version, so moderators can still read it (GET .../edits).
+    await db.insert(ticketCommentEdits).values({
+      commentId,
+      editorId: actorId,
+      previousBody: comment.body,
+      previousVisibility: comment.visibility,
+    });
+    await logAudit(db, { actorId, action: "delete", entityType: "ticket_comment", entityId: commentId, details: { ticketId: id } });
+  });
+  res.status(204).send();
+});
+
+/**
+ * GET /tickets/:id/comments/:commentId/edits - previous versions of a comment, oldest first. With tickets:manage
+ * this also works for deleted comments, whose last version is the deleted text.
+ */
+ticketsRouter.get("/:id/comments/:commentId/edits", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  const commentId = parseInt(req.params.commentId, 10);
+  if (Number.isNaN(id) || Number.isNaN(commentId)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const access = await assertTicketAccess(slug, id, req);
+  if ("status" in access) {
+    res.status(access.status).json(access.body);
+    return;
+  }
+  const comment = await findComment(req, id, commentId, await hasPermission(req, "tickets:manage"));
+  if (!comment) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  const edits = await tenantDb(slug, (db) =>
+    db
+      .select()
+      .from(ticketCommentEdits)
+      .where(
+        and(
+          eq(ticketCommentEdits.commentId, commentId),
+          // A comment made public later must not reveal what it said while internal.
+          isResident(req) ? eq(ticketCommentEdits.previousVisibility, "public") : undefined
+        )
+      )
+      .orderBy(asc(ticketCommentEdits.createdAt), asc(ticketCommentEdits.id))
+  );
+  const userMap = await getPublicUsers([...new Set(edits.flatMap((e) => (e.editorId != null ? [e.editorId] : [])))]);
+  res.json(
+    edits.map((e) => ({
+      ...e,
+      editor: e.editorId != null && userMap[e.editorId] ? { id: e.editorId, name: userMap[e.editorId].name } : null,
+    }))
   );
-  res.json(list);
 });
 
-ticketsRouter.get("/:id/attachments/:attachmentId/download", async (req, res) => {
-  const ticketId = parseInt(req.params.id, 10);
-  const attachmentId = parseInt(req.params.attachmentId, 10);
-  if (Number.isNaN(ticketId) || Number.isNaN(attachmentId)) {
+/** Attachment as returned to clients: storage keys stay on the server, the file routes serve the content. */
+function attachmentResponse({ fileKey, thumbnailKey, ...attachment }: TicketAttachment) {
+  return { ...attachment, hasThumbnail: thumbnailKey != null };
+}
+
+/**
+ * POST /tickets/:id/attachments - upload photos (JPEG, PNG, GIF, WebP, HEIC) or PDFs: one in multipart field "file",
+ * or up to 10 in "files" (then the response is an array). Types are detected from the content; photos are stored
+ * without their metadata and get a thumbnail. Staff may send `visibility=internal`.
+ */
+ticketsRouter.post("/:id/attachments", uploadAttachmentFiles, async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
     return;
   }
   const slug = req.tenantSlug!;
-  const access = await assertTicketAccess(slug, ticketId, req);
+  const access = await assertTicketAccess(slug, id, req);
   if ("status" in access) {
     res.status(access.status).json(access.body);
     return;
   }
-  const [att] = await tenantDb(slug, (db) =>
+  const { files, multiple } = uploadedAttachmentFiles(req);
+  if (files.length === 0) {
+    res.status(400).json({ error: "No file uploaded" });
+    return;
+  }
+  const parsedVisibility = visibilityEnum.optional().safeParse(req.body?.visibility);
+  if (!parsedVisibility.success) {
+    res.status(400).json({ error: "Invalid input", details: parsedVisibility.error.flatten() });
+    return;
+  }
+  const visibility = parsedVisibility.data ?? "public";
+  if (visibility === "internal" && isResident(req)) {
+    res.status(403).json({ error: "Residents cannot upload internal attachments" });
+    return;
+  }
+  const prepared = await prepareAttachments(files);
+  if (!prepared.ok) {
+    res.status(400).json({ error: prepared.error });
+    return;
+  }
+  const stored: StoredAttachment[] = [];
+  for (const attachment of prepared.attachments) {
+    stored.push(await storeAttachment(slug, id, attachment));
+  }
+  const actorId = req.user!.userId;
+  const rows = await tenantDb(slug, async (db) => {
+    const inserted = await db
+      .insert(ticketAttachments)
+      .values(stored.map((f) => ({ ticketId: id, ...f, visibility })))
+      .returning();
+    for (const r of inserted) {
+      await logAudit(db, {
+        actorId,
+        action: "create",
+        entityType: "ticket_attachment",
+        entityId: r.id,
+        details: { ticketId: id, filename: r.filename, contentType: r.contentType, visibility },
+      });
+    }
+    return inserted.map(attachmentResponse);
+  });
+  res.status(201).json(multiple ? rows : rows[0]);
+});
+
+/** GET /tickets/:id/attachments - attachments of a ticket; residents only get public ones */
+ticketsRouter.get("/:id/attachments", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const access = await assertTicketAccess(slug, id, req);
+  if ("status" in access) {
+    res.status(access.status).json(access.body);
+    return;
+  }
+  const list = await tenantDb(slug, (db) =>
     db
       .select()
       .from(ticketAttachments)
-      .where(eq(ticketAttachments.id, attachmentId))
+      .where(and(eq(ticketAttachments.ticketId, id), visibleTo(req, ticketAttachments.visibility)))
+  );
+  res.json(list.map(attachmentResponse));
+});
+
+type TicketAttachment = typeof ticketAttachments.$inferSelect;
+
+/** The attachment in :attachmentId of the ticket in :id, if the user can see both. */
+async function findAttachment(req: Request): Promise<{ attachment: TicketAttachment } | { status: number; body: object }> {
+  const ticketId = parseInt(req.params.id, 10);
+  const attachmentId = parseInt(req.params.attachmentId, 10);
+  if (Number.isNaN(ticketId) || Number.isNaN(attachmentId)) return { status: 400, body: { error: "Invalid id" } };
+  const slug = req.tenantSlug!;
+  const access = await assertTicketAccess(slug, ticketId, req);
+  if ("status" in access) return access;
+  const [attachment] = await tenantDb(slug, (db) =>
+    db
+      .select()
+      .from(ticketAttachments)
+      .where(
+        and(
+          eq(ticketAttachments.id, attachmentId),
+          eq(ticketAttachments.ticketId, ticketId),
+          visibleTo(req, ticketAttachments.visibility)
+        )
+      )
       .limit(1)
   );
-  if (!att || att.ticketId !== ticketId) {
-    res.status(404).json({ error: "Not found" });
+  if (!attachment) return { status: 404, body: { error: "Not found" } };
+  return { attachment };
+}
+
+/** GET /tickets/:id/attachments/:attachmentId/download - the file, as a download */
+ticketsRouter.get("/:id/attachments/:attachmentId/download", async (req, res) => {
+  const found = await findAttachment(req);
+  if ("status" in found) {
+    res.status(found.status).json(found.body);
+    return;
+  }
+  const att = found.attachment;
+  await sendStoredFile(res, att.fileKey, att.contentType ?? "application/octet-stream", contentDisposition("attachment", att.filename));
+});
+
+/** GET /tickets/:id/attachments/:attachmentId/preview - the file inline with its detected Content-Type, to show in the browser */
+ticketsRouter.get("/:id/attachments/:attachmentId/preview", async (req, res) => {
+  const found = await findAttachment(req);
+  if ("status" in found) {
+    res.status(found.status).json(found.body);
+    return;
+  }
+  const att = found.attachment;
+  // Older uploads were stored without a checked type; they can only be downloaded.
+  if (!att.contentType || !ATTACHMENT_TYPES.includes(att.contentType)) {
+    res.status(404).json({ error: "No preview for this attachment" });
+    return;
+  }
+  await sendStoredFile(res, att.fileKey, att.contentType, contentDisposition("inline", att.filename));
+});
+
+/** GET /tickets/:id/attachments/:attachmentId/thumbnail - WebP thumbnail of a photo */
+ticketsRouter.get("/:id/attachments/:attachmentId/thumbnail", async (req, res) => {
+  const found = await findAttachment(req);
+  if ("status" in found) {
+    res.status(found.status).json(found.body);
+    return;
+  }
+  const att = found.attachment;
+  if (!att.thumbnailKey) {
+    res.status(404).json({ error: "No thumbnail for this attachment" });
+    return;
+  }
+  await sendStoredFile(res, att.thumbnailKey, THUMBNAIL_CONTENT_TYPE, contentDisposition("inline", att.filename));
+});
+
+/**
+ * GET /tickets/:id/attachments/:attachmentId/url?variant=download|preview|thumbnail - a signed link to the file
+ * that the client fetches directly, without auth, for a few minutes: { url, expiresAt }
+ */
+ticketsRouter.get("/:id/attachments/:attachmentId/url", async (req, res) => {
+  const parsed = attachmentUrlQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const found = await findAttachment(req);
+  if ("status" in found) {
+    res.status(found.status).json(found.body);
     return;
   }
-  const stream = await storage.get(att.fileKey);
-  if (!stream) {
-    res.status(404).json({ error: "File not found" });
+  const file = attachmentFile(found.attachment, parsed.data.variant);
+  if ("error" in file) {
+    res.status(404).json({ error: file.error });
     return;
   }
-  res.setHeader("Content-Disposition", `attachment; filename="${att.filename}"`);
-  stream.pipe(res);
+  res.json(await createDownloadUrl(file.key, file.options));
 });
@@ -1,18 +1,34 @@
 import { Router } from "express";
 import { z } from "zod";
 import { requireAuth, requireTenant } from "../middleware/auth.js";
-import { requireStaff } from "../middleware/role.js";
+import { requireStaff, requirePermission, canManageUnit } from "../middleware/role.js";
 import { tenantDb } from "../db/tenantDb.js";
 import { publicDb } from "../db/index.js";
 import { users } from "../db/schema/public.js";
-import { units as unitsTable, unitMembers } from "../db/schema/tenant.js";
+import { units as unitsTable, unitMembers, residentRoleEnum } from "../db/schema/tenant.js";
 import { eq, and, inArray } from "drizzle-orm";
 import { logAudit } from "../services/auditLog.js";
 
 export const unitsRouter = Router();
 unitsRouter.use(requireAuth, requireTenant, requireStaff);
 
+/** All /units/:id routes are limited to units in buildings the staff member can act on. */
+unitsRouter.param("id", async (req, res, next, value: string) => {
+  const unitId = parseInt(value, 10);
+  if (Number.isNaN(unitId)) return next();
+  try {
+    if (!(await canManageUnit(req, unitId))) {
+      res.status(404).json({ error: "Not found" });
+      return;
+    }
+    next();
+  } catch (err) {
+    next(err);
+  }
+});
+
 const updateUnitSchema = z.object({ identifier: z.string().min(1).max(64) }).partial();
+const updateMemberSchema = z.object({ role: z.enum(residentRoleEnum.enumValues) });
 
 /** GET /units/:id/members - residents (unit_members) for this unit with user details */
 unitsRouter.get("/:id/members", async (req, res) => {
@@ -58,7 +74,7 @@ unitsRouter.get("/:id", async (req, res) => {
   res.json(row);
 });
 
-unitsRouter.patch("/:id", async (req, res) => {
+unitsRouter.patch("/:id", requirePermission("buildings:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
@@ -83,8 +99,54 @@ unitsRouter.patch("/:id", async (req, res) => {
   res.json(row);
 });
 
+/** PATCH /units/:id/members/:userId - change a member's role in this unit (owner/tenant/resident) */
+unitsRouter.patch("/:id/members/:userId", requirePermission("members:manage"), async (req, res) => {
+  const unitId = parseInt(req.params.id, 10);
+  const userId = parseInt(req.params.userId, 10);
+  if (Number.isNaN(unitId) || Number.isNaN(userId)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const parsed = updateMemberSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const actorId = req.user!.userId;
+  const { role } = parsed.data;
+  const [row] = await tenantDb(slug, async (db) => {
+    const [existing] = await db
+      .select({ id: unitMembers.id, role: unitMembers.role })
+      .from(unitMembers)
+      .where(and(eq(unitMembers.unitId, unitId), eq(unitMembers.userId, userId)))
+      .limit(1);
+    if (!existing) return [];
+    const [r] = await db
+      .update(unitMembers)
+      .set({ role })
+      .where(eq(unitMembers.id, existing.id))
+      .returning({ userId: unitMembers.userId, role: unitMembers.role });
+    if (r && existing.role !== role) {
+      await logAudit(db, {
+        actorId,
+        action: "update",
+        entityType: "unit_member",
+        entityId: existing.id,
+        details: { unitId, userId, from: existing.role, to: role },
+      });
+    }
+    return r ? [r] : [];
+  });
+  if (!row) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  res.json(row);
+});
+
 /** DELETE /units/:id/members/:userId - remove resident from this unit only (staff only) */
-unitsRouter.delete("/:id/members/:userId", async (req, res) => {
+unitsRouter.delete("/:id/members/:userId", requirePermission("members:manage"), async (req, res) => {
   const unitId = parseInt(req.params.id, 10);
   const userId = parseInt(req.params.userId, 10);
   if (Number.isNaN(unitId) || Number.isNaN(userId)) {
@@ -108,7 +170,7 @@ unitsRouter.delete("/:id/members/:userId", async (req, res) => {
   res.status(204).send();
 });
 
-unitsRouter.delete("/:id", async (req, res) => {
+unitsRouter.delete("/:id", requirePermission("buildings:write"), async (req, res) => {
   const id = parseInt(req.params.id, 10);
   if (Number.isNaN(id)) {
     res.status(400).json({ error: "Invalid id" });
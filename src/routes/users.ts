@@ -2,12 +2,16 @@ import { Router } from "express";
 import { z } from "zod";
 import bcrypt from "bcryptjs";
 import { requireAuth, requireTenant } from "../middleware/auth.js";
-import { requireStaff } from "../middleware/role.js";
+import { requireStaff, requirePermission } from "../middleware/role.js";
 import { publicDb } from "../db/index.js";
 import { tenants, tenantUsers, users } from "../db/schema/public.js";
-import { unitMembers } from "../db/schema/tenant.js";
+import { unitMembers, buildingStaff } from "../db/schema/tenant.js";
 import { tenantDb } from "../db/tenantDb.js";
 import { eq, and, inArray } from "drizzle-orm";
+import { listSessions, revokeAllSessions, revokeSession } from "../services/sessionService.js";
+import { ORG_ROLES } from "../services/permissions.js";
+import { logAudit } from "../services/auditLog.js";
+import { changeMemberRole, removeMember, transferOwnership, logMembershipChange } from "../services/membership.js";
 
 export const usersRouter = Router();
 usersRouter.use(requireAuth, requireTenant, requireStaff);
@@ -21,8 +25,26 @@ async function getTenantId(slug: string): Promise<number | null> {
   return row?.id ?? null;
 }
 
+async function getMemberRole(tenantId: number, userId: number): Promise<string | null> {
+  const [membership] = await publicDb
+    .select({ role: tenantUsers.role })
+    .from(tenantUsers)
+    .where(and(eq(tenantUsers.tenantId, tenantId), eq(tenantUsers.userId, userId)))
+    .limit(1);
+  return membership?.role ?? null;
+}
+
+async function isTenantMember(tenantId: number, userId: number): Promise<boolean> {
+  const [membership] = await publicDb
+    .select({ id: tenantUsers.id })
+    .from(tenantUsers)
+    .where(and(eq(tenantUsers.tenantId, tenantId), eq(tenantUsers.userId, userId)))
+    .limit(1);
+  return !!membership;
+}
+
 /** GET /users - list all users in this tenant (staff only) */
-usersRouter.get("/", async (req, res) => {
+usersRouter.get("/", requirePermission("users:read"), async (req, res) => {
   const slug = req.tenantSlug!;
   const tenantId = await getTenantId(slug);
   if (!tenantId) {
@@ -36,11 +58,12 @@ usersRouter.get("/", async (req, res) => {
       name: users.name,
       createdAt: users.createdAt,
       role: tenantUsers.role,
+      totpEnabledAt: users.totpEnabledAt,
     })
     .from(tenantUsers)
     .innerJoin(users, eq(tenantUsers.userId, users.id))
     .where(eq(tenantUsers.tenantId, tenantId));
-  res.json(list);
+  res.json(list.map(({ totpEnabledAt, ...u }) => ({ ...u, twoFactorEnabled: totpEnabledAt != null })));
 });
 
 const resetPasswordSchema = z.object({
@@ -48,7 +71,7 @@ const resetPasswordSchema = z.object({
 });
 
 /** POST /users/:userId/reset-password - set new password for a user in this tenant (staff only) */
-usersRouter.post("/:userId/reset-password", async (req, res) => {
+usersRouter.post("/:userId/reset-password", requirePermission("users:reset_password"), async (req, res) => {
   const userId = parseInt(req.params.userId, 10);
   if (Number.isNaN(userId)) {
     res.status(400).json({ error: "Invalid user id" });
@@ -76,11 +99,157 @@ usersRouter.post("/:userId/reset-password", async (req, res) => {
   }
   const passwordHash = await bcrypt.hash(parsed.data.newPassword, 10);
   await publicDb.update(users).set({ passwordHash }).where(eq(users.id, userId));
+  await revokeAllSessions(userId);
+  res.status(204).send();
+});
+
+const updateMemberSchema = z.object({
+  role: z.enum(ORG_ROLES),
+});
+
+/**
+ * PATCH /users/:userId - change a member's role (users:manage_roles). Only an org_owner can grant or
+ * revoke org_owner, and the last org_owner cannot be demoted.
+ */
+usersRouter.patch("/:userId", requirePermission("users:manage_roles"), async (req, res) => {
+  const userId = parseInt(req.params.userId, 10);
+  if (Number.isNaN(userId)) {
+    res.status(400).json({ error: "Invalid user id" });
+    return;
+  }
+  const parsed = updateMemberSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const tenantId = await getTenantId(slug);
+  if (!tenantId) {
+    res.status(404).json({ error: "Tenant not found" });
+    return;
+  }
+  const currentRole = await getMemberRole(tenantId, userId);
+  if (!currentRole) {
+    res.status(404).json({ error: "User not found in this tenant" });
+    return;
+  }
+  const { role } = parsed.data;
+  const actorIsOwner = req.user!.roleByTenant[slug] === "org_owner";
+  if ((role === "org_owner" || currentRole === "org_owner") && !actorIsOwner) {
+    res.status(403).json({ error: "Access denied: only an org_owner can grant or revoke org_owner" });
+    return;
+  }
+  const result = await changeMemberRole(tenantId, userId, role);
+  if ("error" in result) {
+    res.status(result.status).json({ error: result.error });
+    return;
+  }
+  if (result.previousRole !== role) {
+    await logMembershipChange(slug, {
+      actorId: req.user!.userId,
+      action: "update",
+      entityId: userId,
+      details: { from: result.previousRole, to: role },
+    });
+  }
+  res.json({ userId, role, previousRole: result.previousRole });
+});
+
+const transferOwnershipSchema = z.object({
+  userId: z.number().int().positive(),
+});
+
+/** POST /users/transfer-ownership - make another member org_owner; the caller becomes org_admin (org_owner only) */
+usersRouter.post("/transfer-ownership", async (req, res) => {
+  const parsed = transferOwnershipSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const actorId = req.user!.userId;
+  if (req.user!.roleByTenant[slug] !== "org_owner") {
+    res.status(403).json({ error: "Access denied: only an org_owner can transfer ownership" });
+    return;
+  }
+  const toUserId = parsed.data.userId;
+  if (toUserId === actorId) {
+    res.status(400).json({ error: "You already own this tenant" });
+    return;
+  }
+  const tenantId = await getTenantId(slug);
+  if (!tenantId) {
+    res.status(404).json({ error: "Tenant not found" });
+    return;
+  }
+  const result = await transferOwnership(tenantId, actorId, toUserId);
+  if ("error" in result) {
+    res.status(result.status).json({ error: result.error });
+    return;
+  }
+  await logMembershipChange(slug, {
+    actorId,
+    action: "transfer_ownership",
+    entityId: toUserId,
+    details: { fromUserId: actorId, toUserId, previousRole: result.previousRole },
+  });
+  res.json({ ownerId: toUserId, previousOwnerRole: "org_admin" });
+});
+
+/** GET /users/:userId/sessions - active sessions of a user in this tenant (admins only) */
+usersRouter.get("/:userId/sessions", requirePermission("security:manage"), async (req, res) => {
+  const userId = parseInt(req.params.userId, 10);
+  if (Number.isNaN(userId)) {
+    res.status(400).json({ error: "Invalid user id" });
+    return;
+  }
+  const tenantId = await getTenantId(req.tenantSlug!);
+  if (!tenantId || !(await isTenantMember(tenantId, userId))) {
+    res.status(404).json({ error: "User not found in this tenant" });
+    return;
+  }
+  res.json(await listSessions(userId));
+});
+
+/** DELETE /users/:userId/sessions - revoke all sessions of a user (admins only). Forces a new login on every device. */
+usersRouter.delete("/:userId/sessions", requirePermission("security:manage"), async (req, res) => {
+  const userId = parseInt(req.params.userId, 10);
+  if (Number.isNaN(userId)) {
+    res.status(400).json({ error: "Invalid user id" });
+    return;
+  }
+  const tenantId = await getTenantId(req.tenantSlug!);
+  if (!tenantId || !(await isTenantMember(tenantId, userId))) {
+    res.status(404).json({ error: "User not found in this tenant" });
+    return;
+  }
+  const revoked = await revokeAllSessions(userId);
+  res.json({ revoked });
+});
+
+/** DELETE /users/:userId/sessions/:sessionId - revoke one session of a user (admins only) */
+usersRouter.delete("/:userId/sessions/:sessionId", requirePermission("security:manage"), async (req, res) => {
+  const userId = parseInt(req.params.userId, 10);
+  const sessionId = parseInt(req.params.sessionId, 10);
+  if (Number.isNaN(userId) || Number.isNaN(sessionId)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const tenantId = await getTenantId(req.tenantSlug!);
+  if (!tenantId || !(await isTenantMember(tenantId, userId))) {
+    res.status(404).json({ error: "User not found in this tenant" });
+    return;
+  }
+  const revoked = await revokeSession(userId, sessionId);
+  if (!revoked) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
   res.status(204).send();
 });
 
 /** DELETE /users/:userId - remove user from this tenant (staff only). ?permanent=true removes from all tenants and deletes user. Cannot remove self. */
-usersRouter.delete("/:userId", async (req, res) => {
+usersRouter.delete("/:userId", requirePermission("users:remove"), async (req, res) => {
   const userId = parseInt(req.params.userId, 10);
   if (Number.isNaN(userId)) {
     res.status(400).json({ error: "Invalid user id" });
@@ -96,9 +265,34 @@ usersRouter.delete("/:userId", async (req, res) => {
     res.status(404).json({ error: "Tenant not found" });
     return;
   }
+  const currentRole = await getMemberRole(tenantId, userId);
+  if (!currentRole) {
+    res.status(404).json({ error: "User not found in this tenant" });
+    return;
+  }
+  if (currentRole === "org_owner" && req.user!.roleByTenant[slug] !== "org_owner") {
+    res.status(403).json({ error: "Access denied: only an org_owner can remove an org_owner" });
+    return;
+  }
   const permanent = req.query.permanent === "true";
+  const actorId = req.user!.userId;
 
   if (permanent) {
+    // Refuse if the user is the only owner of any tenant they belong to.
+    const owned = await publicDb
+      .select({ tenantId: tenantUsers.tenantId })
+      .from(tenantUsers)
+      .where(and(eq(tenantUsers.userId, userId), eq(tenantUsers.role, "org_owner")));
+    for (const { tenantId: ownedTenantId } of owned) {
+      const owners = await publicDb
+        .select({ userId: tenantUsers.userId })
+        .from(tenantUsers)
+        .where(and(eq(tenantUsers.tenantId, ownedTenantId), eq(tenantUsers.role, "org_owner")));
+      if (owners.length <= 1) {
+        res.status(409).json({ error: "Cannot delete the last org_owner of a tenant. Transfer ownership first." });
+        return;
+      }
+    }
     const userTenants = await publicDb
       .select({ tenantId: tenantUsers.tenantId })
       .from(tenantUsers)
@@ -110,9 +304,11 @@ usersRouter.delete("/:userId", async (req, res) => {
         .from(tenants)
         .where(inArray(tenants.id, tenantIds));
       for (const t of tenantRows) {
-        await tenantDb(t.slug, (db) =>
-          db.delete(unitMembers).where(eq(unitMembers.userId, userId))
-        );
+        await tenantDb(t.slug, async (db) => {
+          await db.delete(unitMembers).where(eq(unitMembers.userId, userId));
+          await db.delete(buildingStaff).where(eq(buildingStaff.userId, userId));
+          await logAudit(db, { actorId, action: "delete", entityType: "membership", entityId: userId, details: { permanent: true } });
+        });
       }
     }
     await publicDb.delete(tenantUsers).where(eq(tenantUsers.userId, userId));
@@ -121,13 +317,14 @@ usersRouter.delete("/:userId", async (req, res) => {
     return;
   }
 
-  const [deleted] = await publicDb
-    .delete(tenantUsers)
-    .where(and(eq(tenantUsers.tenantId, tenantId), eq(tenantUsers.userId, userId)))
-    .returning({ id: tenantUsers.id });
-  if (!deleted) {
-    res.status(404).json({ error: "User not found in this tenant" });
+  const result = await removeMember(tenantId, userId);
+  if ("error" in result) {
+    res.status(result.status).json({ error: result.error });
     return;
   }
+  await tenantDb(slug, async (db) => {
+    await db.delete(buildingStaff).where(eq(buildingStaff.userId, userId));
+    await logAudit(db, { actorId, action: "delete", entityType: "membership", entityId: userId, details: { role: result.previousRole } });
+  });
   res.status(204).send();
 });
@@ -0,0 +1,322 @@
+import { Router, type Request, type Response, type NextFunction } from "express";
+import { z } from "zod";
+import { setTenantFromHeader } from "../middleware/auth.js";
+import { publicLinkRateLimit } from "../middleware/rateLimit.js";
+import { tenantDb } from "../db/tenantDb.js";
+import {
+  tickets as ticketsTable,
+  ticketComments,
+  ticketAttachments,
+  units as unitsTable,
+  buildings as buildingsTable,
+} from "../db/schema/tenant.js";
+import { and, asc, eq, isNull } from "drizzle-orm";
+import { getPublicUsers } from "../services/userLookup.js";
+import { queueNotification } from "../services/notify.js";
+import { publishLiveEvent } from "../services/liveEvents.js";
+import { logTicketEvents } from "../services/ticketEvents.js";
+import { ATTACHMENT_TYPES, contentDisposition, isImageType } from "../services/fileType.js";
+import {
+  THUMBNAIL_CONTENT_TYPE,
+  uploadAttachmentFiles,
+  uploadedAttachmentFiles,
+  prepareAttachments,
+  storeAttachment,
+  sendStoredFile,
+  attachmentFile,
+  ATTACHMENT_VARIANTS,
+  type StoredAttachment,
+} from "../services/ticketAttachments.js";
+import { createDownloadUrl } from "../storage/index.js";
+import { findVendorLink, type VendorLink } from "../services/vendorPortal.js";
+
+/**
+ * Vendor portal: a vendor follows the ticket they were given through its token link (PUT /tickets/:id/vendor),
+ * without an account. They see the ticket with its public comments and attachments, post updates and upload photos
+ * until they are taken off the ticket.
+ */
+export const vendorPortalRouter = Router();
+vendorPortalRouter.use(setTenantFromHeader, publicLinkRateLimit);
+
+/** Vendors only upload photos */
+const PHOTO_TYPES = ATTACHMENT_TYPES.filter(isImageType);
+
+const attachmentUrlQuerySchema = z.object({ variant: z.enum(ATTACHMENT_VARIANTS).default("download") });
+const createCommentSchema = z.object({ token: z.string().min(1), body: z.string().min(1).max(5000) });
+
+/** GET /vendor-portal/tickets/:id - ticket, location, comments and attachments (no auth). Query: ?token= */
+vendorPortalRouter.get("/tickets/:id", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  const slug = req.tenantSlug!;
+  const link = await findVendorLink(slug, id, (req.query.token as string)?.trim());
+  if ("status" in link) {
+    res.status(link.status).json(link.body);
+    return;
+  }
+  const { ticket, vendor } = link;
+  const [location] = await tenantDb(slug, (db) =>
+    db
+      .select({ unit: unitsTable.identifier, building: buildingsTable.name, address: buildingsTable.address })
+      .from(ticketsTable)
+      .innerJoin(buildingsTable, eq(ticketsTable.buildingId, buildingsTable.id))
+      .leftJoin(unitsTable, eq(ticketsTable.unitId, unitsTable.id))
+      .where(eq(ticketsTable.id, ticket.id))
+      .limit(1)
+  );
+  const comments = await tenantDb(slug, (db) =>
+    db
+      .select({
+        id: ticketComments.id,
+        userId: ticketComments.userId,
+        vendorId: ticketComments.vendorId,
+        body: ticketComments.body,
+        createdAt: ticketComments.createdAt,
+      })
+      .from(ticketComments)
+      .where(
+        and(eq(ticketComments.ticketId, id), eq(ticketComments.visibility, "public"), isNull(ticketComments.deletedAt))
+      )
+      .orderBy(asc(ticketComments.createdAt))
+  );
+  const attachments = await tenantDb(slug, (db) =>
+    db
+      .select({
+        id: ticketAttachments.id,
+        filename: ticketAttachments.filename,
+        contentType: ticketAttachments.contentType,
+        size: ticketAttachments.size,
+        thumbnailKey: ticketAttachments.thumbnailKey,
+        vendorId: ticketAttachments.vendorId,
+        createdAt: ticketAttachments.createdAt,
+      })
+      .from(ticketAttachments)
+      .where(and(eq(ticketAttachments.ticketId, id), eq(ticketAttachments.visibility, "public")))
+      .orderBy(asc(ticketAttachments.createdAt))
+  );
+  // Names only: the vendor does not get residents' contact details.
+  const userMap = await getPublicUsers([...new Set(comments.flatMap((c) => (c.userId != null ? [c.userId] : [])))]);
+  res.json({
+    ticket: {
+      id: ticket.id,
+      title: ticket.title,
+      description: ticket.description,
+      status: ticket.status,
+      priority: ticket.priority,
+      category: ticket.category,
+      createdAt: ticket.createdAt,
+      resolvedAt: ticket.resolvedAt,
+    },
+    // unit is null for a common-area ticket; place is where in the building (e.g. "Lobby")
+    location: location ? { ...location, place: ticket.location } : null,
+    vendor,
+    comments: comments.map((c) => ({
+      id: c.id,
+      body: c.body,
+      createdAt: c.createdAt,
+      author: c.vendorId === vendor.id ? vendor.name : c.userId != null ? (userMap[c.userId]?.name ?? null) : null,
+      fromVendor: c.vendorId === vendor.id,
+    })),
+    attachments: attachments.map(({ thumbnailKey, ...a }) => ({
+      ...a,
+      hasThumbnail: thumbnailKey != null,
+      fromVendor: a.vendorId === vendor.id,
+    })),
+  });
+});
+
+/** POST /vendor-portal/tickets/:id/comments - post an update as the vendor (no auth). Body: { token, body } */
+vendorPortalRouter.post("/tickets/:id/comments", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  const slug = req.tenantSlug!;
+  const parsed = createCommentSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const link = await findVendorLink(slug, id, parsed.data.token.trim());
+  if ("status" in link) {
+    res.status(link.status).json(link.body);
+    return;
+  }
+  const { ticket, vendor } = link;
+  if (ticket.status === "closed") {
+    res.status(400).json({ error: "Ticket is closed" });
+    return;
+  }
+  const [row] = await tenantDb(slug, async (db) => {
+    const [r] = await db
+      .insert(ticketComments)
+      .values({ ticketId: id, userId: null, vendorId: vendor.id, body: parsed.data.body })
+      .returning();
+    await logTicketEvents(db, [{ ticketId: id, actorId: null, type: "commented", to: r.id }]);
+    // A vendor update counts as the first response, like a staff comment.
+    await db
+      .update(ticketsTable)
+      .set({ firstResponseAt: r.createdAt })
+      .where(and(eq(ticketsTable.id, id), isNull(ticketsTable.firstResponseAt)));
+    return [r];
+  });
+  await publishLiveEvent(slug, {
+    type: "ticket_comment",
+    ticketId: id,
+    commentId: row.id,
+    unitId: ticket.unitId,
+    buildingId: ticket.buildingId,
+    internal: false,
+  });
+  const excerpt = parsed.data.body.length > 200 ? `${parsed.data.body.slice(0, 199)}…` : parsed.data.body;
+  await queueNotification(slug, {
+    event: "ticket_update",
+    change: "comment",
+    ticketId: id,
+    actorId: null,
+    message: `Update from ${vendor.name}: ${excerpt}`,
+  });
+  res.status(201).json({ id: row.id, body: row.body, createdAt: row.createdAt, author: vendor.name, fromVendor: true });
+});
+
+/**
+ * Check the link before multer reads the upload, so a bad token is refused without buffering any files.
+ * The link is passed on in res.locals.vendorLink.
+ */
+async function checkUploadLink(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const link = await findVendorLink(req.tenantSlug!, parseInt(req.params.id, 10), (req.query.token as string)?.trim());
+    if ("status" in link) {
+      res.status(link.status).json(link.body);
+      return;
+    }
+    if (link.ticket.status === "closed") {
+      res.status(400).json({ error: "Ticket is closed" });
+      return;
+    }
+    res.locals.vendorLink = link;
+    next();
+  } catch (err) {
+    next(err);
+  }
+}
+
+/**
+ * POST /vendor-portal/tickets/:id/attachments - upload photos as the vendor (no auth). Query: ?token=; multipart
+ * field "file", or up to 10 in "files" (then the response is an array)
+ */
+vendorPortalRouter.post("/tickets/:id/attachments", checkUploadLink, uploadAttachmentFiles, async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  const slug = req.tenantSlug!;
+  const link = res.locals.vendorLink as Exclude<VendorLink, { status: number }>;
+  const { files, multiple } = uploadedAttachmentFiles(req);
+  if (files.length === 0) {
+    res.status(400).json({ error: "No file uploaded" });
+    return;
+  }
+  const prepared = await prepareAttachments(files, PHOTO_TYPES);
+  if (!prepared.ok) {
+    res.status(400).json({ error: `${prepared.error} (only photos: JPEG, PNG, GIF, WebP or HEIC)` });
+    return;
+  }
+  const stored: StoredAttachment[] = [];
+  for (const attachment of prepared.attachments) {
+    stored.push(await storeAttachment(slug, id, attachment));
+  }
+  const rows = await tenantDb(slug, (db) =>
+    db
+      .insert(ticketAttachments)
+      .values(stored.map((f) => ({ ticketId: id, ...f, vendorId: link.vendor.id })))
+      .returning({
+        id: ticketAttachments.id,
+        filename: ticketAttachments.filename,
+        contentType: ticketAttachments.contentType,
+        size: ticketAttachments.size,
+        createdAt: ticketAttachments.createdAt,
+      })
+  );
+  const result = rows.map((r) => ({ ...r, hasThumbnail: true, fromVendor: true }));
+  res.status(201).json(multiple ? result : result[0]);
+});
+
+type VendorAttachment = typeof ticketAttachments.$inferSelect;
+
+/** A public attachment of the ticket the vendor link opens. */
+async function findVendorAttachment(
+  req: Request
+): Promise<{ attachment: VendorAttachment } | { status: number; body: object }> {
+  const id = parseInt(req.params.id, 10);
+  const attachmentId = parseInt(req.params.attachmentId, 10);
+  if (Number.isNaN(attachmentId)) return { status: 400, body: { error: "Invalid id" } };
+  const slug = req.tenantSlug!;
+  const link = await findVendorLink(slug, id, (req.query.token as string)?.trim());
+  if ("status" in link) return link;
+  const [attachment] = await tenantDb(slug, (db) =>
+    db
+      .select()
+      .from(ticketAttachments)
+      .where(
+        and(eq(ticketAttachments.id, attachmentId), eq(ticketAttachments.ticketId, id), eq(ticketAttachments.visibility, "public"))
+      )
+      .limit(1)
+  );
+  if (!attachment) return { status: 404, body: { error: "Not found" } };
+  return { attachment };
+}
+
+/** GET /vendor-portal/tickets/:id/attachments/:attachmentId/download - download an attachment (no auth). Query: ?token= */
+vendorPortalRouter.get("/tickets/:id/attachments/:attachmentId/download", async (req, res) => {
+  const found = await findVendorAttachment(req);
+  if ("status" in found) {
+    res.status(found.status).json(found.body);
+    return;
+  }
+  const att = found.attachment;
+  await sendStoredFile(res, att.fileKey, att.contentType ?? "application/octet-stream", contentDisposition("attachment", att.filename));
+});
+
+/** GET /vendor-portal/tickets/:id/attachments/:attachmentId/preview - show an attachment inline (no auth). Query: ?token= */
+vendorPortalRouter.get("/tickets/:id/attachments/:attachmentId/preview", async (req, res) => {
+  const found = await findVendorAttachment(req);
+  if ("status" in found) {
+    res.status(found.status).json(found.body);
+    return;
+  }
+  const att = found.attachment;
+  if (!att.contentType || !ATTACHMENT_TYPES.includes(att.contentType)) {
+    res.status(404).json({ error: "No preview for this attachment" });
+    return;
+  }
+  await sendStoredFile(res, att.fileKey, att.contentType, contentDisposition("inline", att.filename));
+});
+
+/** GET /vendor-portal/tickets/:id/attachments/:attachmentId/thumbnail - thumbnail of a photo (no auth). Query: ?token= */
+vendorPortalRouter.get("/tickets/:id/attachments/:attachmentId/thumbnail", async (req, res) => {
+  const found = await findVendorAttachment(req);
+  if ("status" in found) {
+    res.status(found.status).json(found.body);
+    return;
+  }
+  const att = found.attachment;
+  if (!att.thumbnailKey) {
+    res.status(404).json({ error: "No thumbnail for this attachment" });
+    return;
+  }
+  await sendStoredFile(res, att.thumbnailKey, THUMBNAIL_CONTENT_TYPE, contentDisposition("inline", att.filename));
+});
+
+/** GET /vendor-portal/tickets/:id/attachments/:attachmentId/url - a signed link, as for staff (no auth). Query: ?token=&variant= */
+vendorPortalRouter.get("/tickets/:id/attachments/:attachmentId/url", async (req, res) => {
+  const parsed = attachmentUrlQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const found = await findVendorAttachment(req);
+  if ("status" in found) {
+    res.status(found.status).json(found.body);
+    return;
+  }
+  const file = attachmentFile(found.attachment, parsed.data.variant);
+  if ("error" in file) {
+    res.status(404).json({ error: file.error });
+    return;
+  }
+  res.json(await createDownloadUrl(file.key, file.options));
+});
@@ -0,0 +1,232 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requireAuth, requireTenant } from "../middleware/auth.js";
+import { requireStaff, requirePermission, getVisibleBuildingIds } from "../middleware/role.js";
+import { tenantDb } from "../db/tenantDb.js";
+import {
+  vendors as vendorsTable,
+  tickets as ticketsTable,
+  ticketVendorLinks,
+  documents as documentsTable,
+} from "../db/schema/tenant.js";
+import { and, asc, eq, gte, ilike, inArray, isNotNull, or, type SQL } from "drizzle-orm";
+import { logAudit } from "../services/auditLog.js";
+import { getSlaTargets } from "../services/ticketEvents.js";
+import { insuranceStatus, computeVendorStats } from "../services/vendors.js";
+
+export const vendorsRouter = Router();
+vendorsRouter.use(requireAuth, requireTenant, requireStaff);
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+const vendorFields = {
+  name: z.string().min(1).max(255),
+  trade: z.string().max(64).nullable().optional(),
+  contactName: z.string().max(255).nullable().optional(),
+  email: z.string().email().max(255).nullable().optional(),
+  phone: z.string().max(32).nullable().optional(),
+  notes: z.string().nullable().optional(),
+  /** A document (uploaded with POST /documents) with proof of insurance */
+  insuranceDocumentId: z.number().int().positive().nullable().optional(),
+  insuranceExpiresAt: dateSchema.nullable().optional(),
+  active: z.boolean().optional(),
+};
+const createVendorSchema = z.object(vendorFields);
+const updateVendorSchema = z.object({ ...vendorFields, name: vendorFields.name.optional() });
+const listQuerySchema = z.object({
+  trade: z.string().max(64).optional(),
+  /** Name or contact name contains */
+  q: z.string().max(255).optional(),
+  active: z.enum(["true", "false"]).optional(),
+});
+const statsQuerySchema = z.object({
+  /** Tickets created in the last N days */
+  days: z.coerce.number().int().min(1).max(3660).default(365),
+});
+
+type Vendor = typeof vendorsTable.$inferSelect;
+
+function withInsuranceStatus(vendor: Vendor) {
+  return { ...vendor, insuranceStatus: insuranceStatus(vendor.insuranceExpiresAt) };
+}
+
+async function documentExists(slug: string, id: number): Promise<boolean> {
+  const [row] = await tenantDb(slug, (db) =>
+    db.select({ id: documentsTable.id }).from(documentsTable).where(eq(documentsTable.id, id)).limit(1)
+  );
+  return !!row;
+}
+
+/** GET /vendors - vendors with their insurance status, by name. Filters: ?trade, q (name search), active */
+vendorsRouter.get("/", async (req, res) => {
+  const parsed = listQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const { trade, q, active } = parsed.data;
+  const filters: SQL[] = [];
+  if (trade) filters.push(eq(vendorsTable.trade, trade));
+  if (active) filters.push(eq(vendorsTable.active, active === "true"));
+  if (q) {
+    const pattern = `%${q.replace(/[\\%_]/g, "\\$&")}%`;
+    filters.push(or(ilike(vendorsTable.name, pattern), ilike(vendorsTable.contactName, pattern))!);
+  }
+  const rows = await tenantDb(req.tenantSlug!, (db) =>
+    db.select().from(vendorsTable).where(and(...filters)).orderBy(asc(vendorsTable.name))
+  );
+  res.json(rows.map(withInsuranceStatus));
+});
+
+/**
+ * GET /vendors/stats - per vendor, over tickets created in the last ?days (default 365) in buildings the user can
+ * see: assigned, open and resolved tickets, average hours from assignment to resolution and resolution SLA breaches
+ */
+vendorsRouter.get("/stats", async (req, res) => {
+  const parsed = statsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const visibleBuildingIds = await getVisibleBuildingIds(req);
+  const since = new Date(Date.now() - parsed.data.days * 24 * 60 * 60 * 1000);
+  const rows = await tenantDb(slug, (db) =>
+    db
+      .select({
+        vendorId: ticketsTable.vendorId,
+        status: ticketsTable.status,
+        priority: ticketsTable.priority,
+        createdAt: ticketsTable.createdAt,
+        firstResponseAt: ticketsTable.firstResponseAt,
+        resolvedAt: ticketsTable.resolvedAt,
+        linkCreatedAt: ticketVendorLinks.createdAt,
+      })
+      .from(ticketsTable)
+      .leftJoin(ticketVendorLinks, eq(ticketVendorLinks.ticketId, ticketsTable.id))
+      .where(
+        and(
+          isNotNull(ticketsTable.vendorId),
+          gte(ticketsTable.createdAt, since),
+          visibleBuildingIds != null ? inArray(ticketsTable.buildingId, visibleBuildingIds) : undefined
+        )
+      )
+      .orderBy(asc(ticketsTable.vendorId))
+  );
+  const vendorList = await tenantDb(slug, (db) =>
+    db.select({ id: vendorsTable.id, name: vendorsTable.name, trade: vendorsTable.trade }).from(vendorsTable).orderBy(asc(vendorsTable.name))
+  );
+  const stats = computeVendorStats(
+    rows.map((r) => ({ ...r, vendorId: r.vendorId!, assignedAt: r.linkCreatedAt ?? r.createdAt })),
+    await getSlaTargets(slug)
+  );
+  const statsByVendor = new Map(stats.map((s) => [s.vendorId, s]));
+  res.json({
+    since,
+    vendors: vendorList.map((v) => ({
+      ...v,
+      ...(statsByVendor.get(v.id) ?? {
+        vendorId: v.id,
+        assignedTickets: 0,
+        openTickets: 0,
+        resolvedTickets: 0,
+        avgResolutionHours: null,
+        resolutionBreaches: 0,
+      }),
+    })),
+  });
+});
+
+/** POST /vendors - add a vendor (vendors:manage) */
+vendorsRouter.post("/", requirePermission("vendors:manage"), async (req, res) => {
+  const parsed = createVendorSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  if (parsed.data.insuranceDocumentId != null && !(await documentExists(slug, parsed.data.insuranceDocumentId))) {
+    res.status(400).json({ error: "Insurance document not found" });
+    return;
+  }
+  const actorId = req.user!.userId;
+  const [row] = await tenantDb(slug, async (db) => {
+    const [r] = await db.insert(vendorsTable).values(parsed.data).returning();
+    if (r) await logAudit(db, { actorId, action: "create", entityType: "vendor", entityId: r.id, details: { name: r.name } });
+    return r ? [r] : [];
+  });
+  res.status(201).json(withInsuranceStatus(row!));
+});
+
+/** GET /vendors/:id - one vendor */
+vendorsRouter.get("/:id", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const [row] = await tenantDb(req.tenantSlug!, (db) =>
+    db.select().from(vendorsTable).where(eq(vendorsTable.id, id)).limit(1)
+  );
+  if (!row) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  res.json(withInsuranceStatus(row));
+});
+
+/** PATCH /vendors/:id - change details, insurance or active (vendors:manage) */
+vendorsRouter.patch("/:id", requirePermission("vendors:manage"), async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const parsed = updateVendorSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  if (parsed.data.insuranceDocumentId != null && !(await documentExists(slug, parsed.data.insuranceDocumentId))) {
+    res.status(400).json({ error: "Insurance document not found" });
+    return;
+  }
+  const actorId = req.user!.userId;
+  const [row] = await tenantDb(slug, async (db) => {
+    const [r] = await db
+      .update(vendorsTable)
+      .set({ ...parsed.data, updatedAt: new Date() })
+      .where(eq(vendorsTable.id, id))
+      .returning();
+    if (r) await logAudit(db, { actorId, action: "update", entityType: "vendor", entityId: id, details: parsed.data });
+    return r ? [r] : [];
+  });
+  if (!row) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  res.json(withInsuranceStatus(row));
+});
+
+/**
+ * DELETE /vendors/:id - remove a vendor (vendors:manage). Their tickets stay but lose the vendor, and their
+ * portal links stop working; to keep their history, set active to false instead.
+ */
+vendorsRouter.delete("/:id", requirePermission("vendors:manage"), async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const actorId = req.user!.userId;
+  const [row] = await tenantDb(req.tenantSlug!, async (db) => {
+    const [r] = await db.delete(vendorsTable).where(eq(vendorsTable.id, id)).returning();
+    if (r) await logAudit(db, { actorId, action: "delete", entityType: "vendor", entityId: id, details: { name: r.name } });
+    return r ? [r] : [];
+  });
+  if (!row) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  res.status(204).send();
+});
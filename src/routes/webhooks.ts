@@ -0,0 +1,281 @@
+import { Router } from "express";
+import { z } from "zod";
+import { requirePermission } from "../middleware/role.js";
+import { tenantDb } from "../db/tenantDb.js";
+import { webhookSubscriptions, webhookDeliveries } from "../db/schema/tenant.js";
+import { and, desc, eq } from "drizzle-orm";
+import { logAudit } from "../services/auditLog.js";
+import { enqueueJob } from "../jobs/queue.js";
+import { getTenantId } from "../services/tenantService.js";
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_TEST_EVENT,
+  generateWebhookSecret,
+  createWebhookDelivery,
+  deliverWebhook,
+} from "../services/webhooks.js";
+import { checkOutboundUrl } from "../services/outboundUrl.js";
+
+/** Mounted at /tenant-settings/webhooks (auth, tenant and staff checks come from tenantSettingsRouter). */
+export const webhooksRouter = Router();
+webhooksRouter.use(requirePermission("webhooks:manage"));
+
+const urlSchema = z
+  .string()
+  .url()
+  .max(2048)
+  .refine((u) => /^https?:\/\//i.test(u), "Must be an http(s) URL");
+const eventsSchema = z.array(z.enum(WEBHOOK_EVENTS)).min(1);
+const secretSchema = z.string().min(16).max(128);
+
+const createWebhookSchema = z.object({
+  url: urlSchema,
+  events: eventsSchema,
+  description: z.string().max(255).nullable().optional(),
+  /** Generated when omitted. Returned only in the create response. */
+  secret: secretSchema.optional(),
+  active: z.boolean().optional(),
+});
+const updateWebhookSchema = z.object({
+  url: urlSchema.optional(),
+  events: eventsSchema.optional(),
+  description: z.string().max(255).nullable().optional(),
+  secret: secretSchema.optional(),
+  active: z.boolean().optional(),
+});
+const deliveriesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+/** Subscription without its secret */
+const subscriptionSelect = {
+  id: webhookSubscriptions.id,
+  url: webhookSubscriptions.url,
+  events: webhookSubscriptions.events,
+  description: webhookSubscriptions.description,
+  active: webhookSubscriptions.active,
+  createdBy: webhookSubscriptions.createdBy,
+  createdAt: webhookSubscriptions.createdAt,
+  updatedAt: webhookSubscriptions.updatedAt,
+} as const;
+
+/** GET /tenant-settings/webhooks - subscriptions of this tenant and the event types they can listen for (webhooks:manage) */
+webhooksRouter.get("/", async (req, res) => {
+  const rows = await tenantDb(req.tenantSlug!, (db) =>
+    db.select(subscriptionSelect).from(webhookSubscriptions).orderBy(webhookSubscriptions.id)
+  );
+  res.json({ events: WEBHOOK_EVENTS, subscriptions: rows });
+});
+
+/** POST /tenant-settings/webhooks - subscribe a URL to events; the response includes the signing secret (webhooks:manage) */
+webhooksRouter.post("/", async (req, res) => {
+  const parsed = createWebhookSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const urlError = await checkOutboundUrl(parsed.data.url);
+  if (urlError) {
+    res.status(400).json({ error: urlError });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const actorId = req.user!.userId;
+  const [row] = await tenantDb(slug, async (db) => {
+    const [r] = await db
+      .insert(webhookSubscriptions)
+      .values({
+        url: parsed.data.url,
+        events: [...new Set(parsed.data.events)],
+        description: parsed.data.description ?? null,
+        secret: parsed.data.secret ?? generateWebhookSecret(),
+        active: parsed.data.active ?? true,
+        createdBy: actorId,
+      })
+      .returning();
+    if (r) {
+      await logAudit(db, { actorId, action: "create", entityType: "webhook_subscription", entityId: r.id, details: { url: r.url, events: r.events } });
+    }
+    return r ? [r] : [];
+  });
+  res.status(201).json(row);
+});
+
+/** GET /tenant-settings/webhooks/:id - one subscription (webhooks:manage) */
+webhooksRouter.get("/:id", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const [row] = await tenantDb(req.tenantSlug!, (db) =>
+    db.select(subscriptionSelect).from(webhookSubscriptions).where(eq(webhookSubscriptions.id, id)).limit(1)
+  );
+  if (!row) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  res.json(row);
+});
+
+/** PATCH /tenant-settings/webhooks/:id - change URL, events, description, secret or active (webhooks:manage) */
+webhooksRouter.patch("/:id", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const parsed = updateWebhookSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const urlError = parsed.data.url != null ? await checkOutboundUrl(parsed.data.url) : null;
+  if (urlError) {
+    res.status(400).json({ error: urlError });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const actorId = req.user!.userId;
+  const { secret, ...rest } = parsed.data;
+  const update: Record<string, unknown> = { ...rest, updatedAt: new Date() };
+  if (rest.events) update.events = [...new Set(rest.events)];
+  if (secret) update.secret = secret;
+  const [row] = await tenantDb(slug, async (db) => {
+    const [r] = await db.update(webhookSubscriptions).set(update).where(eq(webhookSubscriptions.id, id)).returning(subscriptionSelect);
+    if (r) {
+      await logAudit(db, {
+        actorId,
+        action: "update",
+        entityType: "webhook_subscription",
+        entityId: id,
+        details: { ...rest, ...(secret ? { secretChanged: true } : {}) },
+      });
+    }
+    return r ? [r] : [];
+  });
+  if (!row) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  res.json(row);
+});
+
+/** DELETE /tenant-settings/webhooks/:id - remove a subscription and its delivery log (webhooks:manage) */
+webhooksRouter.delete("/:id", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const actorId = req.user!.userId;
+  const [row] = await tenantDb(slug, async (db) => {
+    const [r] = await db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, id)).returning();
+    if (r) await logAudit(db, { actorId, action: "delete", entityType: "webhook_subscription", entityId: id, details: { url: r.url } });
+    return r ? [r] : [];
+  });
+  if (!row) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  res.status(204).send();
+});
+
+/**
+ * POST /tenant-settings/webhooks/:id/test - send a signed `webhook.test` event now and return the logged delivery,
+ * with the endpoint's response status or error (webhooks:manage). Works for inactive subscriptions too.
+ */
+webhooksRouter.post("/:id/test", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const [sub] = await tenantDb(slug, (db) =>
+    db.select(subscriptionSelect).from(webhookSubscriptions).where(eq(webhookSubscriptions.id, id)).limit(1)
+  );
+  if (!sub) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  const deliveryId = await tenantDb(slug, (db) =>
+    createWebhookDelivery(db, slug, id, WEBHOOK_TEST_EVENT, {
+      message: "Test event from Komun",
+      subscriptionId: id,
+      requestedBy: req.user!.userId,
+    })
+  );
+  try {
+    await deliverWebhook(slug, deliveryId, true, { force: true });
+  } catch {
+    // Recorded on the delivery; the client reads it from the response.
+  }
+  const [delivery] = await tenantDb(slug, (db) =>
+    db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, deliveryId)).limit(1)
+  );
+  res.json(delivery);
+});
+
+/** GET /tenant-settings/webhooks/:id/deliveries - delivery log, newest first (webhooks:manage) */
+webhooksRouter.get("/:id/deliveries", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  if (Number.isNaN(id)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const parsed = deliveriesQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: "Invalid input", details: parsed.error.flatten() });
+    return;
+  }
+  const rows = await tenantDb(req.tenantSlug!, (db) =>
+    db
+      .select()
+      .from(webhookDeliveries)
+      .where(eq(webhookDeliveries.subscriptionId, id))
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(parsed.data.limit)
+      .offset(parsed.data.offset)
+  );
+  res.json(rows);
+});
+
+/** POST /tenant-settings/webhooks/:id/deliveries/:deliveryId/redeliver - queue a failed delivery again (webhooks:manage) */
+webhooksRouter.post("/:id/deliveries/:deliveryId/redeliver", async (req, res) => {
+  const id = parseInt(req.params.id, 10);
+  const deliveryId = parseInt(req.params.deliveryId, 10);
+  if (Number.isNaN(id) || Number.isNaN(deliveryId)) {
+    res.status(400).json({ error: "Invalid id" });
+    return;
+  }
+  const slug = req.tenantSlug!;
+  const [existing] = await tenantDb(slug, (db) =>
+    db
+      .select({ status: webhookDeliveries.status })
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.id, deliveryId), eq(webhookDeliveries.subscriptionId, id)))
+      .limit(1)
+  );
+  if (!existing) {
+    res.status(404).json({ error: "Not found" });
+    return;
+  }
+  if (existing.status !== "failed") {
+    res.status(400).json({ error: "Only failed deliveries can be redelivered" });
+    return;
+  }
+  const [row] = await tenantDb(slug, (db) =>
+    db
+      .update(webhookDeliveries)
+      .set({ status: "pending", lastError: null })
+      .where(eq(webhookDeliveries.id, deliveryId))
+      .returning()
+  );
+  await enqueueJob("webhook", { deliveryId }, { tenantId: await getTenantId(slug) });
+  const actorId = req.user!.userId;
+  await tenantDb(slug, (db) => logAudit(db, { actorId, action: "retry", entityType: "webhook_delivery", entityId: deliveryId, details: { subscriptionId: id } }));
+  res.json(row);
+});
@@ -1,7 +1,14 @@
 import type { TenantDb } from "../db/tenantDb.js";
 import { auditLog } from "../db/schema/tenant.js";
 
-export type AuditAction = "create" | "update" | "delete" | "send_for_approval";
+export type AuditAction =
+  | "create"
+  | "update"
+  | "delete"
+  | "send_for_approval"
+  | "lockout"
+  | "transfer_ownership"
+  | "retry";
 
 export interface AuditParams {
   actorId: number;
@@ -0,0 +1,64 @@
+import { publicDb } from "../db/index.js";
+import { tenants } from "../db/schema/public.js";
+import { tenantDb } from "../db/tenantDb.js";
+import {
+  budgetPeriods,
+  budgetLines,
+  budgetUnitContributions,
+  budgetApprovals,
+  units,
+  unitMembers,
+} from "../db/schema/tenant.js";
+import { eq } from "drizzle-orm";
+import { sendBudgetApproval, type BudgetApprovalNotice } from "./notify.js";
+import { completeJobWith, type JobRun } from "../jobs/queue.js";
+
+/**
+ * Ask the members of every unit in the period's building to approve it, with their unit's link and share
+ * (the "budget_approval" job, enqueued by send-for-approval). Every unit's requests are written in one
+ * transaction with the job's completion, so a retry never asks anyone twice.
+ */
+export async function notifyBudgetApprovers(slug: string, tenantId: number, periodId: number, run: JobRun): Promise<void> {
+  const [period] = await tenantDb(slug, (db) => db.select().from(budgetPeriods).where(eq(budgetPeriods.id, periodId)).limit(1));
+  if (!period) return;
+  const [tenant] = await publicDb.select({ name: tenants.name }).from(tenants).where(eq(tenants.id, tenantId)).limit(1);
+  const unitsList = await tenantDb(slug, (db) => db.select().from(units).where(eq(units.buildingId, period.buildingId)));
+  const contributions = await tenantDb(slug, (db) =>
+    db.select().from(budgetUnitContributions).where(eq(budgetUnitContributions.budgetPeriodId, periodId))
+  );
+  const contributionByUnit = Object.fromEntries(contributions.map((c) => [c.unitId, parseFloat(String(c.amount))]));
+  const lines = await tenantDb(slug, (db) => db.select().from(budgetLines).where(eq(budgetLines.budgetPeriodId, periodId)));
+  const total = lines.reduce((sum, l) => sum + parseFloat(String(l.amount)), 0);
+  const sharePerUnitDefault = unitsList.length ? total / unitsList.length : 0;
+  const approvalsWithToken = await tenantDb(slug, (db) =>
+    db
+      .select({ unitId: budgetApprovals.unitId, token: budgetApprovals.token })
+      .from(budgetApprovals)
+      .where(eq(budgetApprovals.budgetPeriodId, periodId))
+  );
+  const tokenByUnit = Object.fromEntries(approvalsWithToken.map((a) => [a.unitId, a.token]));
+  const notices: BudgetApprovalNotice[] = [];
+  for (const u of unitsList) {
+    const token = tokenByUnit[u.id];
+    if (!token) continue;
+    const members = await tenantDb(slug, (db) =>
+      db.select({ userId: unitMembers.userId }).from(unitMembers).where(eq(unitMembers.unitId, u.id))
+    );
+    if (members.length === 0) continue;
+    notices.push({
+      userIds: members.map((m) => m.userId),
+      unitIdentifier: u.identifier ?? `Unit ${u.id}`,
+      token,
+      tenantId,
+      tenantSlug: slug,
+      tenantName: tenant?.name ?? slug,
+      periodId,
+      periodName: period.name,
+      year: period.year,
+      sharePerUnit: (contributionByUnit[u.id] ?? sharePerUnitDefault).toFixed(2),
+    });
+  }
+  await completeJobWith(run, slug, async (db) => {
+    for (const notice of notices) await sendBudgetApproval(db, notice);
+  });
+}
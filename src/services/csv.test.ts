@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv } from "./csv.js";
+
+describe("parseCsv", () => {
+  it("splits rows and fields with CRLF or LF endings", () => {
+    expect(parseCsv("a,b\r\nc,d\ne,f")).toEqual([
+      { line: 1, fields: ["a", "b"] },
+      { line: 2, fields: ["c", "d"] },
+      { line: 3, fields: ["e", "f"] },
+    ]);
+  });
+
+  it("handles quoted fields with commas, escaped quotes and newlines", () => {
+    const rows = parseCsv('"1A","say ""hi"", ok"\n"multi\nline",x\n');
+    expect(rows).toEqual([
+      { line: 1, fields: ["1A", 'say "hi", ok'] },
+      { line: 2, fields: ["multi\nline", "x"] },
+    ]);
+  });
+
+  it("strips a BOM, skips blank lines and keeps source line numbers", () => {
+    const rows = parseCsv("\uFEFFunit,email\n\n2B,b@example.com\n");
+    expect(rows).toEqual([
+      { line: 1, fields: ["unit", "email"] },
+      { line: 3, fields: ["2B", "b@example.com"] },
+    ]);
+  });
+
+  it("keeps empty trailing fields", () => {
+    expect(parseCsv("1A,a@example.com,")).toEqual([{ line: 1, fields: ["1A", "a@example.com", ""] }]);
+  });
+});
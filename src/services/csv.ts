@@ -0,0 +1,54 @@
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields, escaped quotes (""), commas and newlines inside quotes,
+ * CRLF or LF line endings. A leading BOM is stripped and blank lines are skipped.
+ * Returns rows with their 1-based line number so validation errors can point at the source.
+ */
+export function parseCsv(text: string, delimiter = ","): Array<{ line: number; fields: string[] }> {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowStart = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0]!.trim() !== "") rows.push({ line: rowStart, fields });
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]!;
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (ch === "\n") line++;
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && field === "") {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      fields.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowStart = line;
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || fields.length > 0) endRow();
+  return rows;
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { sniffFileType, contentDisposition } from "./fileType.js";
+
+const bytes = (...parts: (number[] | string)[]) =>
+  Buffer.concat(parts.map((p) => (typeof p === "string" ? Buffer.from(p, "latin1") : Buffer.from(p))));
+
+describe("sniffFileType", () => {
+  it("recognises photos and PDFs by their magic bytes", () => {
+    expect(sniffFileType(bytes([0xff, 0xd8, 0xff, 0xe0], "JFIF"))?.mime).toBe("image/jpeg");
+    expect(sniffFileType(bytes([0x89], "PNG", [0x0d, 0x0a, 0x1a, 0x0a, 0, 0]))?.mime).toBe("image/png");
+    expect(sniffFileType(bytes("GIF89a", [1, 0]))?.mime).toBe("image/gif");
+    expect(sniffFileType(bytes("RIFF", [0, 0, 0, 0], "WEBPVP8 "))?.mime).toBe("image/webp");
+    expect(sniffFileType(bytes([0, 0, 0, 0x18], "ftypheic", [0, 0, 0, 0]))).toEqual({ mime: "image/heic", ext: "heic" });
+    expect(sniffFileType(bytes([0, 0, 0, 0x18], "ftypmif1", [0, 0, 0, 0]))?.mime).toBe("image/heif");
+    expect(sniffFileType(bytes("%PDF-1.7\n"))).toEqual({ mime: "application/pdf", ext: "pdf" });
+  });
+
+  it("ignores the extension a client would claim", () => {
+    expect(sniffFileType(bytes("<html><script>alert(1)</script>"))).toBeNull();
+    expect(sniffFileType(bytes("MZ", [0x90, 0]))).toBeNull();
+    expect(sniffFileType(bytes("RIFF", [0, 0, 0, 0], "WAVE"))).toBeNull();
+    expect(sniffFileType(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe("contentDisposition", () => {
+  it("keeps quotes and line breaks out of the header and adds the UTF-8 name", () => {
+    expect(contentDisposition("inline", "photo.jpg")).toBe(`inline; filename="photo.jpg"; filename*=UTF-8''photo.jpg`);
+    expect(contentDisposition("attachment", 'a"b\r\n.pdf')).toBe(
+      `attachment; filename="a_b__.pdf"; filename*=UTF-8''a%22b%0D%0A.pdf`
+    );
+    expect(contentDisposition("attachment", "café (1).png")).toBe(
+      `attachment; filename="caf_ (1).png"; filename*=UTF-8''caf%C3%A9%20%281%29.png`
+    );
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * File type detection from content (magic bytes), so uploads are judged by what they are rather than by the
+ * client's Content-Type or file extension.
+ */
+
+export interface FileType {
+  mime: string;
+  /** Extension for storage keys and converted file names, without the dot */
+  ext: string;
+}
+
+/** ISO base media (ftyp box) brands of HEIF images. */
+const HEIC_BRANDS = ["heic", "heix", "hevc", "hevx", "heim", "heis"];
+const HEIF_BRANDS = ["mif1", "msf1"];
+
+function startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  if (buffer.length < offset + bytes.length) return false;
+  return bytes.every((b, i) => buffer[offset + i] === b);
+}
+
+function ascii(buffer: Buffer, start: number, end: number): string {
+  return buffer.length >= end ? buffer.toString("latin1", start, end) : "";
+}
+
+/** Type of a file from its first bytes, or null when it is not one we recognise. */
+export function sniffFileType(buffer: Buffer): FileType | null {
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) return { mime: "image/jpeg", ext: "jpg" };
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return { mime: "image/png", ext: "png" };
+  if (ascii(buffer, 0, 6) === "GIF87a" || ascii(buffer, 0, 6) === "GIF89a") return { mime: "image/gif", ext: "gif" };
+  if (ascii(buffer, 0, 4) === "RIFF" && ascii(buffer, 8, 12) === "WEBP") return { mime: "image/webp", ext: "webp" };
+  if (ascii(buffer, 0, 5) === "%PDF-") return { mime: "application/pdf", ext: "pdf" };
+  if (ascii(buffer, 4, 8) === "ftyp") {
+    const brand = ascii(buffer, 8, 12);
+    if (HEIC_BRANDS.includes(brand)) return { mime: "image/heic", ext: "heic" };
+    if (HEIF_BRANDS.includes(brand)) return { mime: "image/heif", ext: "heif" };
+    if (brand === "avif") return { mime: "image/avif", ext: "avif" };
+  }
+  return null;
+}
+
+/** Types accepted as ticket attachments: photos and PDFs. */
+export const ATTACHMENT_TYPES: readonly string[] = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+  "application/pdf",
+];
+
+export function isImageType(mime: string): boolean {
+  return mime.startsWith("image/");
+}
+
+/**
+ * Content-Disposition header for a stored file name: a plain ASCII fallback plus the UTF-8 name (RFC 6266),
+ * so quotes or line breaks in the name cannot break out of the header.
+ */
+export function contentDisposition(type: "inline" | "attachment", filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
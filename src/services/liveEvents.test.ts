@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { canReceive, type LiveEvent, type ViewerScope } from "./liveEvents.js";
+
+const resident: ViewerScope = { resident: true, unitIds: [10], buildingIds: [1] };
+const manager: ViewerScope = { resident: false, unitIds: [], buildingIds: [1] };
+const admin: ViewerScope = { resident: false, unitIds: [], buildingIds: null };
+
+const comment = (unitId: number | null, buildingId: number, internal = false): LiveEvent => ({
+  type: "ticket_comment",
+  ticketId: 5,
+  commentId: 7,
+  unitId,
+  buildingId,
+  internal,
+});
+
+describe("canReceive", () => {
+  it("limits ticket comments to the resident's units and the staff member's buildings", () => {
+    expect(canReceive(resident, comment(10, 1))).toBe(true);
+    expect(canReceive(resident, comment(11, 1))).toBe(false);
+    expect(canReceive(manager, comment(11, 1))).toBe(true);
+    expect(canReceive(manager, comment(20, 2))).toBe(false);
+    expect(canReceive(admin, comment(20, 2))).toBe(true);
+  });
+
+  it("sends common-area ticket comments to the building's residents", () => {
+    expect(canReceive(resident, comment(null, 1))).toBe(true);
+    expect(canReceive(resident, comment(null, 2))).toBe(false);
+    expect(canReceive(manager, comment(null, 1))).toBe(true);
+  });
+
+  it("keeps internal comments from residents", () => {
+    expect(canReceive(resident, comment(10, 1, true))).toBe(false);
+    expect(canReceive(manager, comment(10, 1, true))).toBe(true);
+  });
+
+  it("sends tenant-wide announcements to everyone and building ones to that building", () => {
+    expect(canReceive(resident, { type: "announcement", announcementId: 1, buildingId: null })).toBe(true);
+    expect(canReceive(resident, { type: "announcement", announcementId: 1, buildingId: 1 })).toBe(true);
+    expect(canReceive(resident, { type: "announcement", announcementId: 1, buildingId: 2 })).toBe(false);
+  });
+
+  it("sends budget approval counts to those who can see the building", () => {
+    const event: LiveEvent = { type: "budget_approval", periodId: 3, buildingId: 2, approvedUnitCount: 4, rejectedUnitCount: 1 };
+    expect(canReceive(resident, event)).toBe(false);
+    expect(canReceive(manager, event)).toBe(false);
+    expect(canReceive(admin, event)).toBe(true);
+  });
+});
@@ -0,0 +1,165 @@
+import { Client } from "pg";
+import { pool } from "../db/index.js";
+import { tenantDb } from "../db/tenantDb.js";
+import { budgetApprovals, budgetPeriods } from "../db/schema/tenant.js";
+import { eq, sql } from "drizzle-orm";
+
+/** Postgres channel carrying live events between API instances (see GET /events). */
+const CHANNEL = "komun_events";
+const RECONNECT_DELAY_MS = 5 * 1000;
+
+/**
+ * Events pushed to connected clients. They carry ids, not content: the client refetches what it shows.
+ * unitId / buildingId are there to decide who may receive the event.
+ */
+export type LiveEvent =
+  | {
+      type: "ticket_comment";
+      ticketId: number;
+      commentId: number;
+      /** null for common-area tickets */
+      unitId: number | null;
+      buildingId: number;
+      /** Internal (staff-only) comment */
+      internal: boolean;
+    }
+  | { type: "announcement"; announcementId: number; buildingId: number | null }
+  | {
+      type: "budget_approval";
+      periodId: number;
+      buildingId: number;
+      approvedUnitCount: number;
+      rejectedUnitCount: number;
+    };
+
+export interface LiveEnvelope {
+  tenantSlug: string;
+  event: LiveEvent;
+}
+
+/** What a connected user may see: resident unit ids, and visible building ids (null = every building). */
+export interface ViewerScope {
+  resident: boolean;
+  unitIds: number[];
+  buildingIds: number[] | null;
+}
+
+/**
+ * Same rules as the routers: residents see tickets of their units and common-area tickets of their buildings
+ * (but not internal comments), staff tickets of their buildings.
+ */
+export function canReceive(scope: ViewerScope, event: LiveEvent): boolean {
+  const seesBuilding = (id: number) => scope.buildingIds == null || scope.buildingIds.includes(id);
+  switch (event.type) {
+    case "ticket_comment":
+      if (!scope.resident) return seesBuilding(event.buildingId);
+      if (event.internal) return false;
+      return event.unitId != null ? scope.unitIds.includes(event.unitId) : seesBuilding(event.buildingId);
+    case "announcement":
+      return event.buildingId == null || seesBuilding(event.buildingId);
+    case "budget_approval":
+      return seesBuilding(event.buildingId);
+  }
+}
+
+/**
+ * Broadcast an event to every API instance. Called after the change is committed; a failure is logged
+ * and never fails the request (clients still get the change on their next fetch).
+ */
+export async function publishLiveEvent(tenantSlug: string, event: LiveEvent): Promise<void> {
+  const envelope: LiveEnvelope = { tenantSlug, event };
+  try {
+    await pool.query("SELECT pg_notify($1, $2)", [CHANNEL, JSON.stringify(envelope)]);
+  } catch (err) {
+    console.error("Failed to publish live event", err);
+  }
+}
+
+/** Publish the current approved / rejected unit counts of a budget period. */
+export async function publishBudgetApprovalCounts(tenantSlug: string, periodId: number): Promise<void> {
+  const [row] = await tenantDb(tenantSlug, (db) =>
+    db
+      .select({
+        buildingId: budgetPeriods.buildingId,
+        approved: sql<number>`count(distinct ${budgetApprovals.unitId}) filter (where ${budgetApprovals.approvedAt} is not null)::int`,
+        rejected: sql<number>`count(distinct ${budgetApprovals.unitId}) filter (where ${budgetApprovals.rejectedAt} is not null)::int`,
+      })
+      .from(budgetPeriods)
+      .leftJoin(budgetApprovals, eq(budgetApprovals.budgetPeriodId, budgetPeriods.id))
+      .where(eq(budgetPeriods.id, periodId))
+      .groupBy(budgetPeriods.buildingId)
+  );
+  if (!row) return;
+  await publishLiveEvent(tenantSlug, {
+    type: "budget_approval",
+    periodId,
+    buildingId: row.buildingId,
+    approvedUnitCount: row.approved,
+    rejectedUnitCount: row.rejected,
+  });
+}
+
+type Listener = (envelope: LiveEnvelope) => void;
+
+const listeners = new Set<Listener>();
+let client: Client | null = null;
+let connecting: Promise<void> | null = null;
+
+/** One LISTEN connection per process, opened for the first subscriber and reopened after errors. */
+async function connect(): Promise<void> {
+  const c = new Client({ connectionString: process.env.DATABASE_URL });
+  c.on("notification", (msg) => {
+    if (msg.channel !== CHANNEL || !msg.payload) return;
+    let envelope: LiveEnvelope;
+    try {
+      envelope = JSON.parse(msg.payload) as LiveEnvelope;
+    } catch {
+      return;
+    }
+    for (const listener of listeners) listener(envelope);
+  });
+  c.on("error", (err) => {
+    console.error("Live events connection lost", err);
+    if (client === c) client = null;
+    c.end().catch(() => {});
+    setTimeout(() => {
+      if (listeners.size > 0) ensureConnected().catch((e) => console.error("Live events reconnect failed", e));
+    }, RECONNECT_DELAY_MS);
+  });
+  try {
+    await c.connect();
+    await c.query(`LISTEN ${CHANNEL}`);
+  } catch (err) {
+    // Close the half-open connection; the next subscriber tries again with a fresh one.
+    await c.end().catch(() => {});
+    throw err;
+  }
+  client = c;
+}
+
+function ensureConnected(): Promise<void> {
+  if (client) return Promise.resolve();
+  connecting ??= connect().finally(() => {
+    connecting = null;
+  });
+  return connecting;
+}
+
+/** Receive every live event published by any instance. Returns the unsubscribe function. */
+export async function subscribeLiveEvents(listener: Listener): Promise<() => void> {
+  listeners.add(listener);
+  try {
+    await ensureConnected();
+  } catch (err) {
+    listeners.delete(listener);
+    throw err;
+  }
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && client) {
+      const c = client;
+      client = null;
+      c.end().catch(() => {});
+    }
+  };
+}
@@ -0,0 +1,62 @@
+import { publicDb } from "../db/index.js";
+import { users, tenantUsers, tenants } from "../db/schema/public.js";
+import { eq, sql } from "drizzle-orm";
+import { tenantDb } from "../db/tenantDb.js";
+import { logAudit } from "./auditLog.js";
+
+/** Failed attempts allowed before the account is locked. */
+export const LOCKOUT_THRESHOLD = 5;
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+/**
+ * Progressive lockout: 1 minute at the threshold, doubling with every further failure,
+ * capped at one hour. Returns 0 below the threshold.
+ */
+export function lockoutDurationMs(failedCount: number): number {
+  if (failedCount < LOCKOUT_THRESHOLD) return 0;
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (failedCount - LOCKOUT_THRESHOLD), MAX_LOCKOUT_MS);
+}
+
+export function isLockedOut(user: { lockedUntil: Date | null }, now = new Date()): boolean {
+  return user.lockedUntil != null && user.lockedUntil > now;
+}
+
+/**
+ * Count a failed password or 2FA attempt. When it triggers a lockout, an audit entry is
+ * written to every tenant the user belongs to.
+ */
+export async function recordFailedLogin(userId: number, ipAddress: string | null): Promise<void> {
+  const [row] = await publicDb
+    .update(users)
+    .set({ failedLoginCount: sql`${users.failedLoginCount} + 1` })
+    .where(eq(users.id, userId))
+    .returning({ failedLoginCount: users.failedLoginCount });
+  if (!row) return;
+  const durationMs = lockoutDurationMs(row.failedLoginCount);
+  if (durationMs === 0) return;
+  const lockedUntil = new Date(Date.now() + durationMs);
+  await publicDb.update(users).set({ lockedUntil }).where(eq(users.id, userId));
+
+  const memberships = await publicDb
+    .select({ slug: tenants.slug })
+    .from(tenantUsers)
+    .innerJoin(tenants, eq(tenantUsers.tenantId, tenants.id))
+    .where(eq(tenantUsers.userId, userId));
+  for (const { slug } of memberships) {
+    await tenantDb(slug, (db) =>
+      logAudit(db, {
+        actorId: userId,
+        action: "lockout",
+        entityType: "user",
+        entityId: userId,
+        details: { failedAttempts: row.failedLoginCount, lockedUntil: lockedUntil.toISOString(), ipAddress },
+      })
+    ).catch((err) => console.error("[lockout] audit failed for tenant", slug, err));
+  }
+}
+
+/** Reset the failure counter after a successful sign-in. */
+export async function clearFailedLogins(userId: number): Promise<void> {
+  await publicDb.update(users).set({ failedLoginCount: 0, lockedUntil: null }).where(eq(users.id, userId));
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import {
+  occurrence,
+  occurrenceOnOrAfter,
+  occurrencesBetween,
+  isDue,
+  advanceDueDate,
+  isOverdue,
+  buildMaintenanceCalendar,
+  type Recurrence,
+} from "./maintenance.js";
+
+describe("occurrence", () => {
+  it("steps days and weeks from the start date", () => {
+    expect(occurrence({ frequency: "daily", interval: 3, startDate: "2026-02-27" }, 1)).toBe("2026-03-02");
+    expect(occurrence({ frequency: "weekly", interval: 2, startDate: "2026-01-05" }, 3)).toBe("2026-02-16");
+  });
+
+  it("keeps the start day of the month, or the last day of shorter months, without drifting", () => {
+    const monthly: Recurrence = { frequency: "monthly", interval: 1, startDate: "2026-01-31" };
+    expect(occurrence(monthly, 1)).toBe("2026-02-28");
+    expect(occurrence(monthly, 2)).toBe("2026-03-31");
+    expect(occurrence(monthly, 3)).toBe("2026-04-30");
+    const yearly: Recurrence = { frequency: "yearly", interval: 1, startDate: "2024-02-29" };
+    expect(occurrence(yearly, 1)).toBe("2025-02-28");
+    expect(occurrence(yearly, 4)).toBe("2028-02-29");
+  });
+});
+
+describe("occurrenceOnOrAfter / occurrencesBetween", () => {
+  const quarterly: Recurrence = { frequency: "monthly", interval: 3, startDate: "2025-01-15" };
+
+  it("finds the first occurrence from a date on", () => {
+    expect(occurrenceOnOrAfter(quarterly, "2024-06-01")).toBe("2025-01-15");
+    expect(occurrenceOnOrAfter(quarterly, "2026-04-15")).toBe("2026-04-15");
+    expect(occurrenceOnOrAfter(quarterly, "2026-04-16")).toBe("2026-07-15");
+  });
+
+  it("lists occurrences in an inclusive range", () => {
+    expect(occurrencesBetween(quarterly, "2026-01-15", "2026-10-15")).toEqual([
+      "2026-01-15",
+      "2026-04-15",
+      "2026-07-15",
+      "2026-10-15",
+    ]);
+    expect(occurrencesBetween(quarterly, "2026-01-16", "2026-04-14")).toEqual([]);
+  });
+});
+
+describe("isDue / advanceDueDate", () => {
+  const monthly: Recurrence = { frequency: "monthly", interval: 1, startDate: "2026-01-10" };
+
+  it("is due from leadDays before the due date", () => {
+    expect(isDue({ nextDueDate: "2026-03-10", leadDays: 7 }, "2026-03-02")).toBe(false);
+    expect(isDue({ nextDueDate: "2026-03-10", leadDays: 7 }, "2026-03-03")).toBe(true);
+    expect(isDue({ nextDueDate: "2026-03-10", leadDays: 0 }, "2026-03-10")).toBe(true);
+  });
+
+  it("moves to the next occurrence, skipping ones already in the past", () => {
+    expect(advanceDueDate(monthly, "2026-03-10", "2026-03-03")).toBe("2026-04-10");
+    expect(advanceDueDate(monthly, "2026-03-10", "2026-06-20")).toBe("2026-07-10");
+  });
+});
+
+describe("isOverdue", () => {
+  it("is overdue after the due date while open or in progress", () => {
+    expect(isOverdue({ dueDate: "2026-03-09", status: "open" }, "2026-03-10")).toBe(true);
+    expect(isOverdue({ dueDate: "2026-03-09", status: "in_progress" }, "2026-03-10")).toBe(true);
+    expect(isOverdue({ dueDate: "2026-03-10", status: "open" }, "2026-03-10")).toBe(false);
+    expect(isOverdue({ dueDate: "2026-03-09", status: "resolved" }, "2026-03-10")).toBe(false);
+    expect(isOverdue({ dueDate: null, status: "open" }, "2026-03-10")).toBe(false);
+  });
+});
+
+describe("buildMaintenanceCalendar", () => {
+  const schedule = {
+    id: 1,
+    frequency: "weekly" as const,
+    interval: 1,
+    startDate: "2026-03-02",
+    nextDueDate: "2026-03-16",
+    active: true,
+  };
+
+  it("merges opened tickets with upcoming occurrences from the next due date on", () => {
+    const entries = buildMaintenanceCalendar(
+      [schedule, { ...schedule, id: 2, active: false }],
+      [
+        { id: 10, maintenanceScheduleId: 1, dueDate: "2026-03-09", status: "open" },
+        { id: 11, maintenanceScheduleId: 1, dueDate: "2026-03-02", status: "closed" },
+      ],
+      "2026-03-01",
+      "2026-03-23",
+      "2026-03-12"
+    );
+    expect(entries).toEqual([
+      { date: "2026-03-02", scheduleId: 1, ticketId: 11, status: "closed", overdue: false },
+      { date: "2026-03-09", scheduleId: 1, ticketId: 10, status: "open", overdue: true },
+      { date: "2026-03-16", scheduleId: 1, ticketId: null, status: null, overdue: false },
+      { date: "2026-03-23", scheduleId: 1, ticketId: null, status: null, overdue: false },
+    ]);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Preventive maintenance schedules: recurrence, the calendar and the tickets the worker opens when an
+ * occurrence comes due ("maintenance" job, queued for every tenant by the worker each hour).
+ *
+ * Dates are YYYY-MM-DD days in UTC. A schedule repeats every `interval` days, weeks, months or years counted
+ * from its start date, so monthly servicing that starts on the 31st falls on the last day of shorter months
+ * without drifting.
+ */
+
+import crypto from "node:crypto";
+import { publicDb } from "../db/index.js";
+import { jobs, tenants } from "../db/schema/public.js";
+import { tenantDb } from "../db/tenantDb.js";
+import {
+  maintenanceSchedules,
+  maintenanceFrequencyEnum,
+  tickets as ticketsTable,
+  ticketVendorLinks,
+  vendors as vendorsTable,
+} from "../db/schema/tenant.js";
+import { and, eq } from "drizzle-orm";
+import { logTicketEvents, type TicketEventParams } from "./ticketEvents.js";
+import { emitWebhookEvent } from "./webhooks.js";
+import { queueNotification, sendVendorAssignment, getTicketLocation } from "./notify.js";
+import type { TicketStatus } from "./ticketWorkflow.js";
+
+export type MaintenanceFrequency = (typeof maintenanceFrequencyEnum.enumValues)[number];
+
+export interface Recurrence {
+  frequency: MaintenanceFrequency;
+  interval: number;
+  startDate: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Longest step per frequency unit in days, to estimate an occurrence index from below. */
+const MAX_STEP_DAYS: Record<MaintenanceFrequency, number> = { daily: 1, weekly: 7, monthly: 31, yearly: 366 };
+/** At most this many calendar entries per schedule (a daily schedule over a year). */
+const MAX_OCCURRENCES = 366;
+
+export function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`);
+}
+
+export function addDays(date: string, days: number): string {
+  return toDateString(new Date(parseDate(date).getTime() + days * DAY_MS));
+}
+
+/** The nth occurrence of a schedule (0 is the start date). */
+export function occurrence(rule: Recurrence, n: number): string {
+  const start = parseDate(rule.startDate);
+  switch (rule.frequency) {
+    case "daily":
+    case "weekly": {
+      const days = n * rule.interval * (rule.frequency === "weekly" ? 7 : 1);
+      return toDateString(new Date(start.getTime() + days * DAY_MS));
+    }
+    case "monthly":
+    case "yearly": {
+      const months = n * rule.interval * (rule.frequency === "yearly" ? 12 : 1);
+      const year = start.getUTCFullYear();
+      const month = start.getUTCMonth() + months;
+      const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      return toDateString(new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), lastDay))));
+    }
+  }
+}
+
+function firstIndexOnOrAfter(rule: Recurrence, date: string): number {
+  if (date <= rule.startDate) return 0;
+  const days = (parseDate(date).getTime() - parseDate(rule.startDate).getTime()) / DAY_MS;
+  let n = Math.floor(days / (MAX_STEP_DAYS[rule.frequency] * rule.interval));
+  while (occurrence(rule, n) < date) n++;
+  return n;
+}
+
+/** First occurrence on or after `date`. */
+export function occurrenceOnOrAfter(rule: Recurrence, date: string): string {
+  return occurrence(rule, firstIndexOnOrAfter(rule, date));
+}
+
+/** Occurrences from `from` through `to`, both inclusive. */
+export function occurrencesBetween(rule: Recurrence, from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let n = firstIndexOnOrAfter(rule, from); dates.length < MAX_OCCURRENCES; n++) {
+    const date = occurrence(rule, n);
+    if (date > to) break;
+    dates.push(date);
+  }
+  return dates;
+}
+
+/** Whether the ticket for a schedule's next occurrence should be open on `today` (`leadDays` ahead of it). */
+export function isDue(schedule: { nextDueDate: string; leadDays: number }, today: string): boolean {
+  return schedule.nextDueDate <= addDays(today, schedule.leadDays);
+}
+
+/**
+ * Due date after the ticket for `dueDate` was opened. Occurrences missed while no worker ran (or the schedule
+ * was paused) are skipped: their one ticket covers them.
+ */
+export function advanceDueDate(rule: Recurrence, dueDate: string, today: string): string {
+  return occurrenceOnOrAfter(rule, addDays(dueDate > today ? dueDate : today, 1));
+}
+
+/** Overdue: past its due date and still open or in progress. */
+export function isOverdue(ticket: { dueDate: string | null; status: TicketStatus }, today: string): boolean {
+  return (
+    ticket.dueDate != null && ticket.dueDate < today && (ticket.status === "open" || ticket.status === "in_progress")
+  );
+}
+
+export interface CalendarSchedule extends Recurrence {
+  id: number;
+  nextDueDate: string;
+  active: boolean;
+}
+
+export interface CalendarTicket {
+  id: number;
+  maintenanceScheduleId: number | null;
+  dueDate: string | null;
+  status: TicketStatus;
+}
+
+export interface CalendarEntry {
+  date: string;
+  scheduleId: number;
+  /** null for occurrences whose ticket is not open yet */
+  ticketId: number | null;
+  status: TicketStatus | null;
+  overdue: boolean;
+}
+
+/**
+ * Maintenance due from `from` through `to`: the tickets already opened for schedules, plus the upcoming
+ * occurrences of active schedules (from their next due date on), by date.
+ */
+export function buildMaintenanceCalendar(
+  schedules: CalendarSchedule[],
+  tickets: CalendarTicket[],
+  from: string,
+  to: string,
+  today: string
+): CalendarEntry[] {
+  const entries: CalendarEntry[] = [];
+  const opened = new Set<string>();
+  for (const t of tickets) {
+    if (t.maintenanceScheduleId == null || t.dueDate == null || t.dueDate < from || t.dueDate > to) continue;
+    opened.add(`${t.maintenanceScheduleId}:${t.dueDate}`);
+    entries.push({
+      date: t.dueDate,
+      scheduleId: t.maintenanceScheduleId,
+      ticketId: t.id,
+      status: t.status,
+      overdue: isOverdue(t, today),
+    });
+  }
+  for (const s of schedules) {
+    if (!s.active) continue;
+    for (const date of occurrencesBetween(s, from > s.nextDueDate ? from : s.nextDueDate, to)) {
+      if (opened.has(`${s.id}:${date}`)) continue;
+      entries.push({ date, scheduleId: s.id, ticketId: null, status: null, overdue: date < today });
+    }
+  }
+  return entries.sort((a, b) => a.date.localeCompare(b.date) || a.scheduleId - b.scheduleId);
+}
+
+/**
+ * Queue a "maintenance" job for every tenant (each worker does this every hour). Tenants that still have one
+ * pending or running are skipped: the partial unique index jobs_maintenance_tenant_id allows only one, so
+ * several workers or frequent restarts do not pile up runs.
+ */
+export async function queueMaintenanceRuns(): Promise<void> {
+  const rows = await publicDb.select({ id: tenants.id }).from(tenants);
+  for (const tenant of rows) {
+    await publicDb
+      .insert(jobs)
+      .values({ tenantId: tenant.id, type: "maintenance", payload: {}, maxAttempts: 3 })
+      .onConflictDoNothing();
+  }
+}
+
+/**
+ * Open a ticket for every active schedule of a tenant that is due (the "maintenance" job handler) and move
+ * the schedules on to their next occurrence. Each schedule is claimed by its current due date, so concurrent
+ * runs never open the same occurrence twice. Returns the number of tickets opened.
+ */
+export async function generateMaintenanceTickets(slug: string, now = new Date()): Promise<number> {
+  const today = toDateString(now);
+  const active = await tenantDb(slug, (db) =>
+    db.select().from(maintenanceSchedules).where(eq(maintenanceSchedules.active, true))
+  );
+  const due = active.filter((schedule) => isDue(schedule, today));
+  let created = 0;
+  for (const schedule of due) {
+    const [vendor] =
+      schedule.vendorId != null
+        ? await tenantDb(slug, (db) =>
+            db
+              .select()
+              .from(vendorsTable)
+              .where(and(eq(vendorsTable.id, schedule.vendorId!), eq(vendorsTable.active, true)))
+              .limit(1)
+          )
+        : [];
+    const token = crypto.randomBytes(32).toString("hex");
+    const [ticket] = await tenantDb(slug, async (db) => {
+      const [claimed] = await db
+        .update(maintenanceSchedules)
+        .set({ nextDueDate: advanceDueDate(schedule, schedule.nextDueDate, today), updatedAt: new Date() })
+        .where(and(eq(maintenanceSchedules.id, schedule.id), eq(maintenanceSchedules.nextDueDate, schedule.nextDueDate)))
+        .returning({ id: maintenanceSchedules.id });
+      if (!claimed) return [];
+      const [t] = await db
+        .insert(ticketsTable)
+        .values({
+          buildingId: schedule.buildingId,
+          unitId: null,
+          location: schedule.location,
+          reporterId: schedule.createdBy,
+          title: schedule.task,
+          description: schedule.description,
+          priority: schedule.priority,
+          category: schedule.category,
+          assigneeId: schedule.assigneeId,
+          vendorId: vendor?.id ?? null,
+          maintenanceScheduleId: schedule.id,
+          dueDate: schedule.nextDueDate,
+        })
+        .returning();
+      if (!t) return [];
+      const events: TicketEventParams[] = [{ ticketId: t.id, actorId: null, type: "created", to: t.status }];
+      if (t.assigneeId != null) events.push({ ticketId: t.id, actorId: null, type: "assigned", to: t.assigneeId });
+      if (vendor) {
+        await db.insert(ticketVendorLinks).values({ ticketId: t.id, vendorId: vendor.id, token, createdBy: null });
+        events.push({ ticketId: t.id, actorId: null, type: "vendor_assigned", to: vendor.id });
+      }
+      await logTicketEvents(db, events);
+      await emitWebhookEvent(db, slug, "ticket.created", t);
+      return [t];
+    });
+    if (!ticket) continue;
+    created++;
+    if (ticket.assigneeId != null) {
+      await queueNotification(slug, { event: "ticket_assigned", ticketId: ticket.id, assigneeId: ticket.assigneeId, actorId: null });
+    }
+    if (vendor?.email) {
+      await sendVendorAssignment({
+        email: vendor.email,
+        contactName: vendor.contactName,
+        tenantSlug: slug,
+        ticketId: ticket.id,
+        ticketTitle: ticket.title,
+        description: ticket.description,
+        location: await getTicketLocation(slug, ticket),
+        priority: ticket.priority,
+        token,
+      });
+    }
+  }
+  return created;
+}
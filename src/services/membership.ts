@@ -0,0 +1,98 @@
+import { publicDb } from "../db/index.js";
+import { tenantUsers } from "../db/schema/public.js";
+import { and, eq, ne } from "drizzle-orm";
+import { tenantDb } from "../db/tenantDb.js";
+import { logAudit, type AuditParams } from "./auditLog.js";
+import type { OrgRole } from "./permissions.js";
+
+type PublicTx = Parameters<Parameters<typeof publicDb.transaction>[0]>[0];
+
+export type MembershipResult<T> = T | { status: number; error: string };
+
+/** True if another org_owner remains in the tenant besides `userId`. Locks the owner rows. */
+async function hasOtherOwner(tx: PublicTx, tenantId: number, userId: number): Promise<boolean> {
+  const others = await tx
+    .select({ id: tenantUsers.id })
+    .from(tenantUsers)
+    .where(and(eq(tenantUsers.tenantId, tenantId), eq(tenantUsers.role, "org_owner"), ne(tenantUsers.userId, userId)))
+    .for("update");
+  return others.length > 0;
+}
+
+/**
+ * Change a member's role. The last org_owner of a tenant cannot be demoted.
+ * Returns the previous role, or { status, error }.
+ */
+export async function changeMemberRole(
+  tenantId: number,
+  userId: number,
+  role: OrgRole
+): Promise<MembershipResult<{ previousRole: OrgRole }>> {
+  return publicDb.transaction(async (tx) => {
+    const [membership] = await tx
+      .select({ id: tenantUsers.id, role: tenantUsers.role })
+      .from(tenantUsers)
+      .where(and(eq(tenantUsers.tenantId, tenantId), eq(tenantUsers.userId, userId)))
+      .for("update")
+      .limit(1);
+    if (!membership) return { status: 404, error: "User not found in this tenant" };
+    if (membership.role === "org_owner" && role !== "org_owner" && !(await hasOtherOwner(tx, tenantId, userId))) {
+      return { status: 409, error: "Cannot demote the last org_owner. Transfer ownership first." };
+    }
+    await tx.update(tenantUsers).set({ role }).where(eq(tenantUsers.id, membership.id));
+    return { previousRole: membership.role };
+  });
+}
+
+/** Remove a member from a tenant. The last org_owner cannot be removed. */
+export async function removeMember(
+  tenantId: number,
+  userId: number
+): Promise<MembershipResult<{ previousRole: OrgRole }>> {
+  return publicDb.transaction(async (tx) => {
+    const [membership] = await tx
+      .select({ id: tenantUsers.id, role: tenantUsers.role })
+      .from(tenantUsers)
+      .where(and(eq(tenantUsers.tenantId, tenantId), eq(tenantUsers.userId, userId)))
+      .for("update")
+      .limit(1);
+    if (!membership) return { status: 404, error: "User not found in this tenant" };
+    if (membership.role === "org_owner" && !(await hasOtherOwner(tx, tenantId, userId))) {
+      return { status: 409, error: "Cannot remove the last org_owner. Transfer ownership first." };
+    }
+    await tx.delete(tenantUsers).where(eq(tenantUsers.id, membership.id));
+    return { previousRole: membership.role };
+  });
+}
+
+/**
+ * Hand ownership from `fromUserId` (an org_owner) to another member, who becomes org_owner.
+ * The previous owner stays in the tenant as org_admin.
+ */
+export async function transferOwnership(
+  tenantId: number,
+  fromUserId: number,
+  toUserId: number
+): Promise<MembershipResult<{ previousRole: OrgRole }>> {
+  return publicDb.transaction(async (tx) => {
+    const [target] = await tx
+      .select({ id: tenantUsers.id, role: tenantUsers.role })
+      .from(tenantUsers)
+      .where(and(eq(tenantUsers.tenantId, tenantId), eq(tenantUsers.userId, toUserId)))
+      .for("update")
+      .limit(1);
+    if (!target) return { status: 404, error: "User not found in this tenant" };
+    if (target.role === "resident") return { status: 400, error: "Ownership can only be transferred to a staff member" };
+    await tx.update(tenantUsers).set({ role: "org_owner" }).where(eq(tenantUsers.id, target.id));
+    await tx
+      .update(tenantUsers)
+      .set({ role: "org_admin" })
+      .where(and(eq(tenantUsers.tenantId, tenantId), eq(tenantUsers.userId, fromUserId)));
+    return { previousRole: target.role };
+  });
+}
+
+/** Write a membership change to the tenant's audit log (outside any tenant transaction). */
+export async function logMembershipChange(tenantSlug: string, params: Omit<AuditParams, "entityType">): Promise<void> {
+  await tenantDb(tenantSlug, (db) => logAudit(db, { ...params, entityType: "membership" }));
+}
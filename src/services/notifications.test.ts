@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { resolvePreferences, NOTIFICATION_EVENTS } from "./notifications.js";
+import { createStubMessagingProvider } from "../messaging/stub.js";
+
+describe("resolvePreferences", () => {
+  it("defaults every event to email only", () => {
+    const prefs = resolvePreferences([]);
+    expect(Object.keys(prefs)).toEqual([...NOTIFICATION_EVENTS]);
+    for (const event of NOTIFICATION_EVENTS) {
+      expect(prefs[event]).toEqual({ email: true, whatsapp: false, sms: false });
+    }
+  });
+
+  it("applies stored choices per event and ignores unknown events or channels", () => {
+    const prefs = resolvePreferences([
+      { event: "announcement", channel: "email", enabled: false },
+      { event: "announcement", channel: "whatsapp", enabled: true },
+      { event: "budget_approval", channel: "sms", enabled: true },
+      { event: "newsletter", channel: "email", enabled: false },
+      { event: "document", channel: "pigeon", enabled: true },
+    ]);
+    expect(prefs.announcement).toEqual({ email: false, whatsapp: true, sms: false });
+    expect(prefs.budget_approval).toEqual({ email: true, whatsapp: false, sms: true });
+    expect(prefs.document).toEqual({ email: true, whatsapp: false, sms: false });
+    expect(prefs).not.toHaveProperty("newsletter");
+  });
+});
+
+describe("createStubMessagingProvider", () => {
+  it("records messages instead of sending them", async () => {
+    const provider = createStubMessagingProvider();
+    await provider.send({ channel: "sms", to: "+35699123456", body: "Hello" });
+    expect(provider.sent).toEqual([{ channel: "sms", to: "+35699123456", body: "Hello" }]);
+  });
+});
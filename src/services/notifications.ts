@@ -0,0 +1,114 @@
+import { publicDb } from "../db/index.js";
+import { users, notificationPreferences } from "../db/schema/public.js";
+import type { TenantDb } from "../db/tenantDb.js";
+import { notifications as notificationsTable } from "../db/schema/tenant.js";
+import { inArray } from "drizzle-orm";
+import { queueEmail } from "../mail/outbox.js";
+import { enqueueJob, type DbWriter } from "../jobs/queue.js";
+import type { EmailTemplate, TemplateData } from "../mail/templates.js";
+
+export const NOTIFICATION_EVENTS = ["budget_approval", "ticket_update", "ticket_assigned", "announcement", "document"] as const;
+export type NotificationEvent = (typeof NOTIFICATION_EVENTS)[number];
+
+export const NOTIFICATION_CHANNELS = ["email", "whatsapp", "sms"] as const;
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+/** Channels used when a user has not set a preference: email only. */
+export const DEFAULT_CHANNELS: Record<NotificationChannel, boolean> = { email: true, whatsapp: false, sms: false };
+
+export type ChannelPreferences = Record<NotificationEvent, Record<NotificationChannel, boolean>>;
+
+export interface PreferenceRow {
+  event: string;
+  channel: string;
+  enabled: boolean;
+}
+
+/** Full event × channel matrix for one user: the defaults with their stored choices applied. */
+export function resolvePreferences(rows: PreferenceRow[]): ChannelPreferences {
+  const prefs = Object.fromEntries(NOTIFICATION_EVENTS.map((e) => [e, { ...DEFAULT_CHANNELS }])) as ChannelPreferences;
+  for (const row of rows) {
+    const event = prefs[row.event as NotificationEvent];
+    if (event && row.channel in event) event[row.channel as NotificationChannel] = row.enabled;
+  }
+  return prefs;
+}
+
+/** What to send one recipient: the email template and a short text for WhatsApp / SMS. */
+export interface NotificationContent<T extends EmailTemplate = EmailTemplate> {
+  email: { template: T; data: TemplateData[T] };
+  text: string;
+}
+
+export interface NotificationRecipient {
+  id: number;
+  email: string;
+  name: string | null;
+  phone: string | null;
+}
+
+/**
+ * Send `event` to each user on the channels they chose. `build` returns the content per recipient
+ * (links and greetings differ per user). WhatsApp / SMS are skipped for users without a phone number.
+ * The emails and messages are queued through `db`, so a job's whole fan-out commits or fails together.
+ */
+export async function notifyUsers<T extends EmailTemplate>(db: DbWriter, params: {
+  tenantId: number | null;
+  event: NotificationEvent;
+  userIds: number[];
+  build: (user: NotificationRecipient) => NotificationContent<T>;
+}): Promise<void> {
+  const userIds = [...new Set(params.userIds)];
+  if (userIds.length === 0) return;
+  const recipients = await publicDb
+    .select({ id: users.id, email: users.email, name: users.name, phone: users.phone })
+    .from(users)
+    .where(inArray(users.id, userIds));
+  const prefRows = await publicDb
+    .select()
+    .from(notificationPreferences)
+    .where(inArray(notificationPreferences.userId, userIds));
+  for (const user of recipients) {
+    const channels = resolvePreferences(prefRows.filter((r) => r.userId === user.id))[params.event];
+    const content = params.build(user);
+    if (channels.email) {
+      await queueEmail({ to: user.email, tenantId: params.tenantId, template: content.email.template, data: content.email.data }, db);
+    }
+    if (user.phone) {
+      if (channels.whatsapp) await enqueueJob("whatsapp", { to: user.phone, message: content.text }, { tenantId: params.tenantId }, db);
+      if (channels.sms) await enqueueJob("sms", { to: user.phone, message: content.text }, { tenantId: params.tenantId }, db);
+    }
+  }
+}
+
+export type InboxItemType =
+  | "ticket_status"
+  | "ticket_comment"
+  | "ticket_assigned"
+  | "budget_approval"
+  | "document"
+  | "minutes";
+
+export interface InboxItem {
+  type: InboxItemType;
+  title: string;
+  body?: string | null;
+  entityType?: string;
+  entityId?: number;
+}
+
+/** Add the same item to each user's in-app inbox. Independent of channel preferences. */
+export async function addToInbox(db: TenantDb, userIds: number[], item: InboxItem): Promise<void> {
+  const recipients = [...new Set(userIds)];
+  if (recipients.length === 0) return;
+  await db.insert(notificationsTable).values(
+    recipients.map((userId) => ({
+      userId,
+      type: item.type,
+      title: item.title.slice(0, 255),
+      body: item.body ?? null,
+      entityType: item.entityType ?? null,
+      entityId: item.entityId ?? null,
+    }))
+  );
+}
@@ -1,46 +1,374 @@
 /**
- * Stub for sending notifications (email / WhatsApp).
- * Replace with real provider (SendGrid, Mailgun, Twilio, etc.).
+ * Notifications. Event notifications (budget approvals, ticket updates, announcements, documents) go to each
+ * user on the channels they chose (src/services/notifications.ts); invites and password resets are always email.
+ * Emails are rendered from src/mail/templates.ts; everything is delivered by the job worker.
  */
 
+import { publicDb } from "../db/index.js";
+import { tenants } from "../db/schema/public.js";
+import { eq, inArray } from "drizzle-orm";
+import { tenantDb, type TenantDb } from "../db/tenantDb.js";
+import {
+  tickets as ticketsTable,
+  announcements as announcementsTable,
+  documents as documentsTable,
+  meetingMinutes as meetingMinutesTable,
+  units as unitsTable,
+  buildings as buildingsTable,
+  unitMembers,
+  ticketUpvotes,
+} from "../db/schema/tenant.js";
+import { queueEmail } from "../mail/outbox.js";
+import { notifyUsers, addToInbox } from "./notifications.js";
+import { enqueueJob, completeJobWith, type DbWriter, type JobPayloads, type JobRun } from "../jobs/queue.js";
+import { getTenantId } from "./tenantService.js";
+
 const BASE_URL = process.env.CORS_ORIGIN ?? "http://localhost:3000";
 
-export interface BudgetApprovalRecipient {
-  email: string;
-  name: string | null;
+export interface BudgetApprovalNotice {
+  /** Unit members to ask for approval. */
+  userIds: number[];
   unitIdentifier: string;
   token: string;
+  tenantId: number;
   tenantSlug: string;
+  tenantName: string;
   periodId: number;
   periodName: string;
   year: number;
   sharePerUnit: string;
 }
 
-/** Send budget approval request via email (stub: logs only). */
-export async function sendBudgetApprovalEmail(recipient: BudgetApprovalRecipient): Promise<void> {
-  const approveUrl = `${BASE_URL}/t/${recipient.tenantSlug}/budget/${recipient.periodId}/approve?token=${encodeURIComponent(recipient.token)}`;
-  // Avoid duplicate "Budget" in subject (e.g. "Budget Budget 2026" -> "Budget 2026")
-  const name = recipient.periodName.trim();
+/**
+ * Ask a unit's members to approve a budget (in-app, plus email, WhatsApp or SMS per their preferences), writing
+ * through the fan-out job's transaction.
+ */
+export async function sendBudgetApproval(db: TenantDb, notice: BudgetApprovalNotice): Promise<void> {
+  const approveUrl = `${BASE_URL}/t/${notice.tenantSlug}/budget/${notice.periodId}/approve?token=${encodeURIComponent(notice.token)}`;
+  // Avoid duplicate "Budget" (e.g. "Budget Budget 2026" -> "Budget 2026")
+  const name = notice.periodName.trim();
   const title = /^Budget\s+Budget\s+/i.test(name) ? name.replace(/^Budget\s+/i, "") : name;
-  const subject = `${title} (${recipient.year}) – approval requested`;
-  // TODO: integrate with SendGrid, Mailgun, etc.
-  console.log("[notify] Budget approval email (stub)", {
+  await addToInbox(db, notice.userIds, {
+    type: "budget_approval",
+    title: `${title} (${notice.year}) – approval requested`,
+    body: `Your share for unit ${notice.unitIdentifier} is ${notice.sharePerUnit}.`,
+    entityType: "budget_period",
+    entityId: notice.periodId,
+  });
+  await notifyUsers(db, {
+    tenantId: notice.tenantId,
+    event: "budget_approval",
+    userIds: notice.userIds,
+    build: (user) => ({
+      email: {
+        template: "budget_approval",
+        data: {
+          name: user.name,
+          tenantName: notice.tenantName,
+          periodName: notice.periodName,
+          year: notice.year,
+          unitIdentifier: notice.unitIdentifier,
+          sharePerUnit: notice.sharePerUnit,
+          approveUrl,
+        },
+      },
+      text: `${title} (${notice.year}) – please approve: ${approveUrl}`,
+    }),
+  });
+}
+
+/** Unit members of the given units (all units when `unitIds` is null), excluding `exceptUserId`. */
+async function getUnitMemberIds(slug: string, unitIds: number[] | null, exceptUserId: number | null): Promise<number[]> {
+  if (unitIds && unitIds.length === 0) return [];
+  const rows = await tenantDb(slug, (db) =>
+    db
+      .select({ userId: unitMembers.userId })
+      .from(unitMembers)
+      .where(unitIds ? inArray(unitMembers.unitId, unitIds) : undefined)
+  );
+  return [...new Set(rows.map((r) => r.userId))].filter((id) => id !== exceptUserId);
+}
+
+/** Members of every unit in a building, or of every unit in the tenant when `buildingId` is null. */
+async function getBuildingAudience(slug: string, buildingId: number | null, exceptUserId: number): Promise<number[]> {
+  if (buildingId == null) return getUnitMemberIds(slug, null, exceptUserId);
+  const unitRows = await tenantDb(slug, (db) =>
+    db.select({ id: unitsTable.id }).from(unitsTable).where(eq(unitsTable.buildingId, buildingId))
+  );
+  return getUnitMemberIds(slug, unitRows.map((u) => u.id), exceptUserId);
+}
+
+async function getUpvoterIds(slug: string, ticketId: number): Promise<number[]> {
+  const rows = await tenantDb(slug, (db) =>
+    db.select({ userId: ticketUpvotes.userId }).from(ticketUpvotes).where(eq(ticketUpvotes.ticketId, ticketId))
+  );
+  return rows.map((r) => r.userId);
+}
+
+/** Notify about a ticket update or assignment, announcement, document or minutes in the background ("notify" job). */
+export async function queueNotification(slug: string, payload: JobPayloads["notify"]): Promise<void> {
+  const tenantId = await getTenantId(slug);
+  if (tenantId != null) await enqueueJob("notify", payload, { tenantId });
+}
+
+/**
+ * Resolve who should hear about a ticket update or assignment, announcement, document or meeting minutes and notify them
+ * (the "notify" job handler): in-app inbox items plus the channels each user chose. Minutes are in-app only.
+ * The user who made the change is never notified. All of it is written in one transaction with the job's completion.
+ */
+export async function dispatchNotification(
+  slug: string,
+  tenantId: number,
+  payload: JobPayloads["notify"],
+  run: JobRun
+): Promise<void> {
+  const [tenant] = await publicDb.select({ name: tenants.name }).from(tenants).where(eq(tenants.id, tenantId)).limit(1);
+  const tenantName = tenant?.name ?? slug;
+  switch (payload.event) {
+    case "ticket_update": {
+      const [ticket] = await tenantDb(slug, (db) =>
+        db.select().from(ticketsTable).where(eq(ticketsTable.id, payload.ticketId)).limit(1)
+      );
+      if (!ticket) return;
+      // The assignee hears about updates too (most useful for updates posted by a vendor); internal
+      // comments go to the assignee only. A common-area ticket has no unit: the residents who upvoted it
+      // follow it instead.
+      const assignee = ticket.assigneeId != null ? [ticket.assigneeId] : [];
+      const followers =
+        ticket.unitId != null
+          ? await getUnitMemberIds(slug, [ticket.unitId], payload.actorId)
+          : await getUpvoterIds(slug, ticket.id);
+      const audience = payload.internal ? assignee : [ticket.reporterId, ...assignee, ...followers];
+      const userIds = [...new Set(audience)].filter((id) => id !== payload.actorId);
+      const url = `${BASE_URL}/t/${slug}/tickets/${ticket.id}`;
+      await completeJobWith(run, slug, async (db) => {
+        await addToInbox(db, userIds, {
+          type: payload.change === "status" ? "ticket_status" : "ticket_comment",
+          title: ticket.title,
+          body: payload.message,
+          entityType: "ticket",
+          entityId: ticket.id,
+        });
+        await notifyUsers(db, {
+          tenantId,
+          event: "ticket_update",
+          userIds,
+          build: (user) => ({
+            email: { template: "ticket_update", data: { name: user.name, tenantName, ticketTitle: ticket.title, message: payload.message, url } },
+            text: `Ticket "${ticket.title}": ${payload.message} ${url}`,
+          }),
+        });
+      });
+      return;
+    }
+    case "ticket_assigned": {
+      if (payload.assigneeId === payload.actorId) return;
+      const [ticket] = await tenantDb(slug, (db) =>
+        db.select().from(ticketsTable).where(eq(ticketsTable.id, payload.ticketId)).limit(1)
+      );
+      // Skip if the ticket was reassigned again before this job ran.
+      if (!ticket || ticket.assigneeId !== payload.assigneeId) return;
+      const url = `${BASE_URL}/t/${slug}/tickets/${ticket.id}`;
+      const message = `You have been assigned this ticket (priority: ${ticket.priority}).`;
+      const assigneeId = payload.assigneeId;
+      await completeJobWith(run, slug, async (db) => {
+        await addToInbox(db, [assigneeId], {
+          type: "ticket_assigned",
+          title: ticket.title,
+          body: message,
+          entityType: "ticket",
+          entityId: ticket.id,
+        });
+        await notifyUsers(db, {
+          tenantId,
+          event: "ticket_assigned",
+          userIds: [assigneeId],
+          build: (user) => ({
+            email: { template: "ticket_update", data: { name: user.name, tenantName, ticketTitle: ticket.title, message, url } },
+            text: `Ticket "${ticket.title}" was assigned to you. ${url}`,
+          }),
+        });
+      });
+      return;
+    }
+    case "announcement": {
+      const [announcement] = await tenantDb(slug, (db) =>
+        db.select().from(announcementsTable).where(eq(announcementsTable.id, payload.announcementId)).limit(1)
+      );
+      if (!announcement) return;
+      const url = `${BASE_URL}/t/${slug}/announcements/${announcement.id}`;
+      const userIds = await getBuildingAudience(slug, announcement.buildingId, payload.actorId);
+      await completeJobWith(run, slug, (db) =>
+        notifyUsers(db, {
+          tenantId,
+          event: "announcement",
+          userIds,
+          build: (user) => ({
+            email: {
+              template: "announcement",
+              data: { name: user.name, tenantName, title: announcement.title, body: announcement.body, url },
+            },
+            text: `${tenantName}: ${announcement.title} ${url}`,
+          }),
+        })
+      );
+      return;
+    }
+    case "document": {
+      const [document] = await tenantDb(slug, (db) =>
+        db.select().from(documentsTable).where(eq(documentsTable.id, payload.documentId)).limit(1)
+      );
+      if (!document) return;
+      const url = `${BASE_URL}/t/${slug}/documents`;
+      const userIds = await getBuildingAudience(slug, document.buildingId, payload.actorId);
+      await completeJobWith(run, slug, async (db) => {
+        await addToInbox(db, userIds, {
+          type: "document",
+          title: `New document: ${document.title}`,
+          entityType: "document",
+          entityId: document.id,
+        });
+        await notifyUsers(db, {
+          tenantId,
+          event: "document",
+          userIds,
+          build: (user) => ({
+            email: { template: "document", data: { name: user.name, tenantName, title: document.title, url } },
+            text: `${tenantName} shared a new document: ${document.title} ${url}`,
+          }),
+        });
+      });
+      return;
+    }
+    case "minutes": {
+      const [minutes] = await tenantDb(slug, (db) =>
+        db.select().from(meetingMinutesTable).where(eq(meetingMinutesTable.id, payload.minutesId)).limit(1)
+      );
+      if (!minutes) return;
+      const userIds = await getBuildingAudience(slug, minutes.buildingId, payload.actorId);
+      await completeJobWith(run, slug, (db) =>
+        addToInbox(db, userIds, {
+          type: "minutes",
+          title: `Meeting minutes: ${minutes.title}`,
+          entityType: "meeting_minutes",
+          entityId: minutes.id,
+        })
+      );
+      return;
+    }
+  }
+}
+
+/** Link a vendor opens to follow a ticket without an account (the vendor portal). */
+export function vendorTicketUrl(slug: string, ticketId: number, token: string): string {
+  return `${BASE_URL}/t/${slug}/vendor/tickets/${ticketId}?token=${encodeURIComponent(token)}`;
+}
+
+export interface VendorAssignmentNotice {
+  email: string;
+  contactName: string | null;
+  tenantSlug: string;
+  ticketId: number;
+  ticketTitle: string;
+  description: string | null;
+  location: string;
+  priority: string;
+  token: string;
+}
+
+/** Where a ticket is, for the vendor email (e.g. "Unit 2B, Main Street 12" or "Lobby, Main Street 12"). */
+export async function getTicketLocation(
+  slug: string,
+  ticket: Pick<typeof ticketsTable.$inferSelect, "buildingId" | "unitId" | "location">
+): Promise<string> {
+  const [building] = await tenantDb(slug, (db) =>
+    db
+      .select({ name: buildingsTable.name, address: buildingsTable.address })
+      .from(buildingsTable)
+      .where(eq(buildingsTable.id, ticket.buildingId))
+      .limit(1)
+  );
+  const [unit] =
+    ticket.unitId != null
+      ? await tenantDb(slug, (db) =>
+          db.select({ identifier: unitsTable.identifier }).from(unitsTable).where(eq(unitsTable.id, ticket.unitId!)).limit(1)
+        )
+      : [];
+  const parts = [
+    unit ? `Unit ${unit.identifier}` : null,
+    ticket.location,
+    building ? `${building.name}${building.address ? ` (${building.address})` : ""}` : null,
+  ];
+  return parts.filter((p) => p).join(", ") || "Common area";
+}
+
+/** Email a vendor the portal link of a ticket assigned to them. */
+export async function sendVendorAssignment(notice: VendorAssignmentNotice): Promise<void> {
+  const [tenant] = await publicDb
+    .select({ id: tenants.id, name: tenants.name })
+    .from(tenants)
+    .where(eq(tenants.slug, notice.tenantSlug))
+    .limit(1);
+  await queueEmail({
+    to: notice.email,
+    template: "vendor_assignment",
+    tenantId: tenant?.id ?? null,
+    data: {
+      contactName: notice.contactName,
+      tenantName: tenant?.name ?? notice.tenantSlug,
+      ticketTitle: notice.ticketTitle,
+      description: notice.description,
+      location: notice.location,
+      priority: notice.priority,
+      url: vendorTicketUrl(notice.tenantSlug, notice.ticketId, notice.token),
+    },
+  });
+}
+
+export interface PasswordResetRecipient {
+  email: string;
+  name: string | null;
+  token: string;
+  expiresAt: Date;
+}
+
+/** Queue a password reset link email. */
+export async function sendPasswordResetEmail(recipient: PasswordResetRecipient): Promise<void> {
+  const resetUrl = `${BASE_URL}/reset-password?token=${encodeURIComponent(recipient.token)}`;
+  await queueEmail({
     to: recipient.email,
-    subject,
-    approveUrl,
+    template: "password_reset",
+    data: { name: recipient.name, resetUrl, expiresAt: recipient.expiresAt },
   });
 }
 
-/** Send budget approval request via WhatsApp (stub: logs only). */
-export async function sendBudgetApprovalWhatsApp(recipient: BudgetApprovalRecipient): Promise<void> {
-  const approveUrl = `${BASE_URL}/t/${recipient.tenantSlug}/budget/${recipient.periodId}/approve?token=${encodeURIComponent(recipient.token)}`;
-  const name = recipient.periodName.trim();
-  const title = /^Budget\s+Budget\s+/i.test(name) ? name.replace(/^Budget\s+/i, "") : name;
-  const message = `${title} (${recipient.year}) – please approve: ${approveUrl}`;
-  // TODO: integrate with Twilio WhatsApp API, etc.
-  console.log("[notify] Budget approval WhatsApp (stub)", {
-    to: recipient.email, // or phone
-    message,
+export interface InviteRecipient {
+  email: string;
+  tenantId: number;
+  tenantName: string;
+  role: string;
+  token: string;
+  expiresAt: Date;
+  unitIdentifier?: string | null;
+}
+
+/** Link the invitee opens to accept an invite. */
+export function inviteAcceptUrl(token: string): string {
+  return `${BASE_URL}/invites/accept/${token}`;
+}
+
+/** Queue an invitation email. */
+export async function sendInviteEmail(recipient: InviteRecipient): Promise<void> {
+  await queueEmail({
+    to: recipient.email,
+    template: "invite",
+    tenantId: recipient.tenantId,
+    data: {
+      tenantName: recipient.tenantName,
+      role: recipient.role,
+      unitIdentifier: recipient.unitIdentifier,
+      acceptUrl: inviteAcceptUrl(recipient.token),
+      expiresAt: recipient.expiresAt,
+    },
   });
 }
@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { isPrivateAddress, checkOutboundUrl } from "./outboundUrl.js";
+
+describe("isPrivateAddress", () => {
+  it("flags loopback, private, link-local and metadata IPv4 addresses", () => {
+    for (const ip of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "172.31.255.255", "192.168.1.1", "169.254.169.254", "0.0.0.0", "100.64.0.1"]) {
+      expect(isPrivateAddress(ip), ip).toBe(true);
+    }
+    for (const ip of ["8.8.8.8", "172.32.0.1", "93.184.216.34", "1.1.1.1"]) {
+      expect(isPrivateAddress(ip), ip).toBe(false);
+    }
+  });
+
+  it("flags IPv6 loopback, unique-local, link-local and mapped private IPv4", () => {
+    for (const ip of ["::1", "::", "fd12:3456::1", "fc00::1", "fe80::1", "::ffff:127.0.0.1", "::ffff:a9fe:a9fe", "64:ff9b::10.0.0.1"]) {
+      expect(isPrivateAddress(ip), ip).toBe(true);
+    }
+    for (const ip of ["2606:4700:4700::1111", "::ffff:8.8.8.8"]) {
+      expect(isPrivateAddress(ip), ip).toBe(false);
+    }
+  });
+});
+
+describe("checkOutboundUrl", () => {
+  it("refuses other schemes and local hosts", async () => {
+    expect(await checkOutboundUrl("ftp://example.com/", false)).toBe("Must be an http(s) URL");
+    expect(await checkOutboundUrl("http://169.254.169.254/latest/meta-data", false)).toMatch(/private or local/);
+    expect(await checkOutboundUrl("http://[::1]:8080/", false)).toMatch(/private or local/);
+    expect(await checkOutboundUrl("http://localhost:5432/", false)).toMatch(/private or local/);
+  });
+
+  it("accepts public addresses, and local ones when allowed", async () => {
+    expect(await checkOutboundUrl("https://93.184.216.34/hooks", false)).toBeNull();
+    expect(await checkOutboundUrl("http://localhost:3000/hooks", true)).toBeNull();
+  });
+});
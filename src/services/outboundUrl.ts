@@ -0,0 +1,142 @@
+/**
+ * Guards for requests the server makes to URLs its users chose (webhooks), so they cannot be pointed at the
+ * server's own network: loopback, private, link-local (including the cloud metadata endpoint 169.254.169.254)
+ * and unique-local addresses are refused. Names are checked when the URL is saved and again on the lookup of
+ * every request, since DNS can change in between.
+ */
+
+import dns from "node:dns";
+import net from "node:net";
+
+/** IPv4 ranges that are not on the public internet, as [network, prefix length]. */
+const BLOCKED_V4: Array<[string, number]> = [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+];
+
+function v4ToInt(ip: string): number {
+  return ip.split(".").reduce((n, part) => n * 256 + Number(part), 0);
+}
+
+function isBlockedV4(ip: string): boolean {
+  const value = v4ToInt(ip);
+  return BLOCKED_V4.some(([network, bits]) => {
+    const size = 2 ** (32 - bits);
+    const start = v4ToInt(network);
+    return value >= start && value < start + size;
+  });
+}
+
+/** The 8 groups of an IPv6 address as numbers (handles "::" and a trailing dotted IPv4 part). */
+function v6Groups(ip: string): number[] {
+  let address = ip.toLowerCase().split("%")[0]!;
+  const dotted = address.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const v4 = v4ToInt(dotted[1]!);
+    address = `${address.slice(0, -dotted[1]!.length)}${(v4 >>> 16).toString(16)}:${(v4 & 0xffff).toString(16)}`;
+  }
+  const [head, tail] = address.split("::") as [string, string | undefined];
+  const parse = (part: string) => (part ? part.split(":").map((g) => parseInt(g, 16)) : []);
+  const start = parse(head);
+  const end = parse(tail ?? "");
+  return tail === undefined ? start : [...start, ...new Array(8 - start.length - end.length).fill(0), ...end];
+}
+
+function isBlockedV6(ip: string): boolean {
+  const g = v6Groups(ip);
+  if (g.every((x) => x === 0)) return true; // ::
+  if (g.slice(0, 7).every((x) => x === 0) && g[7] === 1) return true; // ::1
+  // IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) addresses reach the embedded IPv4 address
+  const mapped = g.slice(0, 5).every((x) => x === 0) && g[5] === 0xffff;
+  const nat64 = g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every((x) => x === 0);
+  if (mapped || nat64) return isBlockedV4(`${g[6]! >> 8}.${g[6]! & 0xff}.${g[7]! >> 8}.${g[7]! & 0xff}`);
+  return (
+    (g[0]! & 0xfe00) === 0xfc00 || // fc00::/7 unique local
+    (g[0]! & 0xffc0) === 0xfe80 || // fe80::/10 link-local
+    (g[0]! & 0xff00) === 0xff00 // ff00::/8 multicast
+  );
+}
+
+/** Whether an IP address is loopback, private, link-local, unique-local or otherwise not publicly routable. */
+export function isPrivateAddress(ip: string): boolean {
+  const family = net.isIP(ip);
+  if (family === 4) return isBlockedV4(ip);
+  if (family === 6) return isBlockedV6(ip);
+  return true;
+}
+
+/** WEBHOOK_ALLOW_PRIVATE_URLS=true lets webhooks reach local and private addresses (development only). */
+export function allowPrivateTargets(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_URLS === "true" && process.env.NODE_ENV !== "production";
+}
+
+/** Hostname of a URL as an IP literal or name (URL keeps IPv6 literals in brackets). */
+function urlHost(url: URL): string {
+  return url.hostname.replace(/^\[|\]$/g, "");
+}
+
+/**
+ * Check a URL before saving it: http(s) only, and every address its host resolves to must be public.
+ * Returns the reason it is refused, or null when it may be used.
+ */
+export async function checkOutboundUrl(raw: string, allowPrivate = allowPrivateTargets()): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return "Invalid URL";
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return "Must be an http(s) URL";
+  if (allowPrivate) return null;
+  const host = urlHost(url);
+  let addresses: string[];
+  if (net.isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(host, { all: true })).map((a) => a.address);
+    } catch {
+      return `Could not resolve ${host}`;
+    }
+  }
+  const blocked = addresses.find(isPrivateAddress);
+  return blocked ? `${host} resolves to a private or local address (${blocked})` : null;
+}
+
+/**
+ * `lookup` for http(s).request that refuses names resolving to a private address. The check runs on the very
+ * addresses the connection uses, so a DNS change after the URL was saved does not get around it.
+ */
+export const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) {
+      callback(err, "", 0);
+      return;
+    }
+    const blocked = addresses.find((a) => isPrivateAddress(a.address));
+    if (blocked || addresses.length === 0) {
+      const error = new Error(`${hostname} resolves to a private or local address (${blocked?.address ?? "none"})`);
+      callback(error as NodeJS.ErrnoException, "", 0);
+      return;
+    }
+    if (options.all) (callback as unknown as (e: null, a: dns.LookupAddress[]) => void)(null, addresses);
+    else callback(null, addresses[0]!.address, addresses[0]!.family);
+  });
+};
+
+/** Refuse IP literals that are private (http.request skips `lookup` for them). */
+export function assertPublicHost(url: URL): void {
+  const host = urlHost(url);
+  if (net.isIP(host) && isPrivateAddress(host)) {
+    throw new Error(`${host} is a private or local address`);
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { PERMISSIONS, resolvePermissions } from "./permissions.js";
+
+describe("resolvePermissions", () => {
+  it("gives org_owner every permission regardless of overrides", () => {
+    const perms = resolvePermissions("org_owner", [{ role: "org_owner", permission: "audit:read", allowed: false }]);
+    expect(perms.size).toBe(PERMISSIONS.length);
+  });
+
+  it("uses role defaults", () => {
+    const accountant = resolvePermissions("accountant");
+    expect(accountant.has("budget:write")).toBe(true);
+    expect(accountant.has("buildings:write")).toBe(false);
+    expect(accountant.has("users:reset_password")).toBe(false);
+    expect(resolvePermissions("resident").size).toBe(0);
+    expect(resolvePermissions("unknown").size).toBe(0);
+  });
+
+  it("applies tenant overrides for the matching role only", () => {
+    const overrides = [
+      { role: "support", permission: "users:reset_password", allowed: true },
+      { role: "support", permission: "announcements:write", allowed: false },
+      { role: "accountant", permission: "audit:read", allowed: true },
+    ];
+    const support = resolvePermissions("support", overrides);
+    expect(support.has("users:reset_password")).toBe(true);
+    expect(support.has("announcements:write")).toBe(false);
+    expect(support.has("audit:read")).toBe(false);
+  });
+
+  it("ignores overrides for residents and unknown permissions", () => {
+    const perms = resolvePermissions("resident", [{ role: "resident", permission: "budget:write", allowed: true }]);
+    expect(perms.size).toBe(0);
+    const support = resolvePermissions("support", [{ role: "support", permission: "nope:nothing", allowed: true }]);
+    expect([...support].every((p) => (PERMISSIONS as readonly string[]).includes(p))).toBe(true);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Declarative permission model. Each org role gets a default set of permissions;
+ * tenants can grant or revoke individual permissions per role via the role_permissions table.
+ */
+
+export const PERMISSIONS = [
+  "buildings:write",
+  "buildings:assign_staff",
+  "members:manage",
+  "transactions:create",
+  "budget:write",
+  "budget:send",
+  "fees:write",
+  "documents:write",
+  "announcements:write",
+  "minutes:write",
+  "tickets:manage",
+  "tickets:assign",
+  "vendors:manage",
+  "maintenance:manage",
+  "users:read",
+  "users:reset_password",
+  "users:remove",
+  "users:manage_roles",
+  "invites:manage",
+  "audit:read",
+  "settings:write",
+  "security:manage",
+  "permissions:manage",
+  "jobs:manage",
+  "webhooks:manage",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ORG_ROLES = [
+  "org_owner",
+  "org_admin",
+  "property_manager",
+  "accountant",
+  "support",
+  "resident",
+] as const;
+
+export type OrgRole = (typeof ORG_ROLES)[number];
+
+/** Roles whose permissions a tenant may customise. Owners always have everything; residents have no staff permissions. */
+export const CONFIGURABLE_ROLES = ["org_admin", "property_manager", "accountant", "support"] as const;
+
+export function isPermission(value: string): value is Permission {
+  return (PERMISSIONS as readonly string[]).includes(value);
+}
+
+export const DEFAULT_ROLE_PERMISSIONS: Record<OrgRole, readonly Permission[]> = {
+  org_owner: PERMISSIONS,
+  org_admin: PERMISSIONS,
+  property_manager: [
+    "buildings:write",
+    "members:manage",
+    "transactions:create",
+    "budget:write",
+    "budget:send",
+    "fees:write",
+    "documents:write",
+    "announcements:write",
+    "minutes:write",
+    "tickets:manage",
+    "tickets:assign",
+    "vendors:manage",
+    "maintenance:manage",
+    "users:read",
+    "invites:manage",
+  ],
+  accountant: ["transactions:create", "budget:write", "budget:send", "fees:write", "documents:write", "users:read"],
+  support: ["announcements:write", "tickets:manage", "tickets:assign", "users:read"],
+  resident: [],
+};
+
+export interface PermissionOverride {
+  role: string;
+  permission: string;
+  allowed: boolean;
+}
+
+/**
+ * Effective permissions for a role: the defaults with the tenant's overrides applied.
+ * Overrides for org_owner, resident or unknown permissions are ignored.
+ */
+export function resolvePermissions(role: string, overrides: PermissionOverride[] = []): Set<Permission> {
+  if (role === "org_owner") return new Set(PERMISSIONS);
+  const defaults = DEFAULT_ROLE_PERMISSIONS[role as OrgRole];
+  if (!defaults) return new Set();
+  const result = new Set<Permission>(defaults);
+  if (!(CONFIGURABLE_ROLES as readonly string[]).includes(role)) return result;
+  for (const o of overrides) {
+    if (o.role !== role || !isPermission(o.permission)) continue;
+    if (o.allowed) result.add(o.permission);
+    else result.delete(o.permission);
+  }
+  return result;
+}
@@ -0,0 +1,143 @@
+import type { Request } from "express";
+import { publicDb } from "../db/index.js";
+import { sessions, tenantUsers, tenants } from "../db/schema/public.js";
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { signToken } from "../middleware/auth.js";
+import { generateToken, hashToken } from "./tokens.js";
+import { getPublicUser } from "./userLookup.js";
+
+/** Refresh tokens stay valid for 30 days after their last use. */
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface SessionMeta {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export interface IssuedTokens {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: number;
+}
+
+export function sessionMetaFromRequest(req: Request): SessionMeta {
+  return {
+    userAgent: req.get("user-agent")?.slice(0, 512) ?? null,
+    ipAddress: req.ip?.slice(0, 64) ?? null,
+  };
+}
+
+async function getTenantSlugs(userId: number): Promise<string[]> {
+  const rows = await publicDb
+    .select({ slug: tenants.slug })
+    .from(tenantUsers)
+    .innerJoin(tenants, eq(tenantUsers.tenantId, tenants.id))
+    .where(eq(tenantUsers.userId, userId));
+  return rows.map((r) => r.slug);
+}
+
+/** Start a new session (one per login/device) and issue its first access + refresh token pair. */
+export async function createSession(
+  user: { id: number; email: string },
+  meta: SessionMeta
+): Promise<IssuedTokens> {
+  const refreshToken = generateToken();
+  const [session] = await publicDb
+    .insert(sessions)
+    .values({
+      userId: user.id,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: meta.userAgent,
+      ipAddress: meta.ipAddress,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    })
+    .returning({ id: sessions.id });
+  const tenantSlugs = await getTenantSlugs(user.id);
+  const accessToken = signToken({ sub: user.id, email: user.email, tenantSlugs, sid: session!.id });
+  return { accessToken, refreshToken, sessionId: session!.id };
+}
+
+/**
+ * Exchange a refresh token for a new token pair, rotating the refresh token.
+ * Presenting an already-rotated token means it was copied, so the whole session is revoked.
+ * Returns null when the token is unknown, expired or revoked.
+ */
+export async function refreshSession(
+  refreshToken: string,
+  meta: SessionMeta
+): Promise<IssuedTokens | null> {
+  const tokenHash = hashToken(refreshToken);
+  const [session] = await publicDb
+    .select()
+    .from(sessions)
+    .where(eq(sessions.refreshTokenHash, tokenHash))
+    .limit(1);
+  if (!session) {
+    await publicDb
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessions.previousRefreshTokenHash, tokenHash), isNull(sessions.revokedAt)));
+    return null;
+  }
+  if (session.revokedAt || session.expiresAt < new Date()) return null;
+  const user = await getPublicUser(session.userId);
+  if (!user) return null;
+
+  const nextRefreshToken = generateToken();
+  const now = new Date();
+  const [rotated] = await publicDb
+    .update(sessions)
+    .set({
+      refreshTokenHash: hashToken(nextRefreshToken),
+      previousRefreshTokenHash: tokenHash,
+      lastUsedAt: now,
+      expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+      userAgent: meta.userAgent ?? session.userAgent,
+      ipAddress: meta.ipAddress ?? session.ipAddress,
+    })
+    // Guard against two concurrent refreshes with the same token: only one may rotate it.
+    .where(and(eq(sessions.id, session.id), eq(sessions.refreshTokenHash, tokenHash)))
+    .returning({ id: sessions.id });
+  if (!rotated) return null;
+  const tenantSlugs = await getTenantSlugs(user.id);
+  const accessToken = signToken({ sub: user.id, email: user.email, tenantSlugs, sid: session.id });
+  return { accessToken, refreshToken: nextRefreshToken, sessionId: session.id };
+}
+
+/** Active (not revoked, not expired) sessions for a user, most recently used first. */
+export async function listSessions(userId: number) {
+  const rows = await publicDb
+    .select({
+      id: sessions.id,
+      userAgent: sessions.userAgent,
+      ipAddress: sessions.ipAddress,
+      createdAt: sessions.createdAt,
+      lastUsedAt: sessions.lastUsedAt,
+      expiresAt: sessions.expiresAt,
+    })
+    .from(sessions)
+    .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+    .orderBy(desc(sessions.lastUsedAt));
+  const now = new Date();
+  return rows.filter((s) => s.expiresAt > now);
+}
+
+/** Revoke one session of a user. Returns false if it does not exist or is already revoked. */
+export async function revokeSession(userId: number, sessionId: number): Promise<boolean> {
+  const revoked = await publicDb
+    .update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+    .returning({ id: sessions.id });
+  return revoked.length > 0;
+}
+
+/** Revoke every active session of a user (e.g. after a password change). Returns the number revoked. */
+export async function revokeAllSessions(userId: number): Promise<number> {
+  const revoked = await publicDb
+    .update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+    .returning({ id: sessions.id });
+  return revoked.length;
+}
@@ -1,6 +1,9 @@
-import { pool } from "../db/index.js";
+import { pool, publicDb } from "../db/index.js";
+import { tenants } from "../db/schema/public.js";
+import { eq } from "drizzle-orm";
 import { runTenantMigrations } from "../db/run-tenant-migrations.js";
 import { tenantSchemaName } from "../db/tenantDb.js";
+import { logMembershipChange } from "./membership.js";
 
 export async function createTenant(
   name: string,
@@ -25,6 +28,12 @@ export async function createTenant(
       `INSERT INTO public.tenant_users (tenant_id, user_id, role) VALUES ($1, $2, 'org_owner')`,
       [tenantId, ownerUserId]
     );
+    await logMembershipChange(slug, {
+      actorId: ownerUserId,
+      action: "create",
+      entityId: ownerUserId,
+      details: { role: "org_owner" },
+    });
     return { id: tenantId, slug: row.slug, name: row.name };
   } catch (err) {
     await client.query("ROLLBACK").catch(() => {});
@@ -32,3 +41,9 @@ export async function createTenant(
     throw err;
   }
 }
+
+/** Id of the tenant with this slug, or null if there is none. */
+export async function getTenantId(slug: string): Promise<number | null> {
+  const [tenant] = await publicDb.select({ id: tenants.id }).from(tenants).where(eq(tenants.slug, slug)).limit(1);
+  return tenant?.id ?? null;
+}
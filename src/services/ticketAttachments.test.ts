@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import sharp from "sharp";
+import { prepareAttachment, prepareAttachments, attachmentFile, THUMBNAIL_SIZE } from "./ticketAttachments.js";
+
+/** A JPEG with a GPS position in its EXIF, rotated by its orientation tag (stored 800x400, shown 400x800). */
+async function photoWithExif(): Promise<Buffer> {
+  return sharp({ create: { width: 800, height: 400, channels: 3, background: "#3366cc" } })
+    .jpeg()
+    .withMetadata({ orientation: 6, exif: { IFD0: { Copyright: "Resident" }, IFD3: { GPSLatitudeRef: "N" } } })
+    .toBuffer();
+}
+
+describe("prepareAttachment", () => {
+  it("strips photo metadata, applies the orientation and makes a thumbnail", async () => {
+    const input = await photoWithExif();
+    expect((await sharp(input).metadata()).exif).toBeDefined();
+    const result = await prepareAttachment({ originalname: "IMG_1.jpg", buffer: input });
+    if (!result.ok) throw new Error(result.error);
+    const { attachment } = result;
+    expect(attachment.contentType).toBe("image/jpeg");
+    const meta = await sharp(attachment.body).metadata();
+    expect(meta.exif).toBeUndefined();
+    expect(meta.orientation).toBeUndefined();
+    expect([meta.width, meta.height]).toEqual([400, 800]);
+    const thumb = await sharp(attachment.thumbnail!).metadata();
+    expect(thumb.format).toBe("webp");
+    expect(Math.max(thumb.width!, thumb.height!)).toBe(THUMBNAIL_SIZE);
+  });
+
+  it("keeps PDFs as they are, without a thumbnail", async () => {
+    const buffer = Buffer.from("%PDF-1.4\n%%EOF\n");
+    const result = await prepareAttachment({ originalname: "invoice.pdf", buffer });
+    expect(result).toEqual({
+      ok: true,
+      attachment: { filename: "invoice.pdf", contentType: "application/pdf", ext: "pdf", body: buffer, thumbnail: null },
+    });
+  });
+
+  it("rejects types outside the allow-list whatever the file is called", async () => {
+    const result = await prepareAttachment({ originalname: "photo.jpg", buffer: Buffer.from("<svg onload=alert(1)>") });
+    expect(result).toEqual({ ok: false, error: "photo.jpg: file type not allowed" });
+    const pdf = await prepareAttachment({ originalname: "a.pdf", buffer: Buffer.from("%PDF-1.4\n") }, ["image/jpeg"]);
+    expect(pdf.ok).toBe(false);
+  });
+
+  it("fails a multi-file upload on the first rejected file", async () => {
+    const result = await prepareAttachments([
+      { originalname: "ok.pdf", buffer: Buffer.from("%PDF-1.4\n") },
+      { originalname: "bad.exe", buffer: Buffer.from("MZ\x90\x00") },
+    ]);
+    expect(result).toEqual({ ok: false, error: "bad.exe: file type not allowed" });
+  });
+});
+
+describe("attachmentFile", () => {
+  const photo = { fileKey: "t/1/a.jpg", thumbnailKey: "t/1/a.thumb.webp", filename: "leak.jpg", contentType: "image/jpeg" };
+
+  it("serves downloads as attachments and previews and thumbnails inline", () => {
+    expect(attachmentFile(photo, "download")).toEqual({
+      key: "t/1/a.jpg",
+      options: { disposition: "attachment", filename: "leak.jpg", contentType: "image/jpeg" },
+    });
+    expect(attachmentFile(photo, "preview")).toEqual({
+      key: "t/1/a.jpg",
+      options: { disposition: "inline", filename: "leak.jpg", contentType: "image/jpeg" },
+    });
+    expect(attachmentFile(photo, "thumbnail")).toEqual({
+      key: "t/1/a.thumb.webp",
+      options: { disposition: "inline", filename: "leak.jpg", contentType: "image/webp" },
+    });
+  });
+
+  it("has no preview for unchecked uploads and no thumbnail without one", () => {
+    const old = { ...photo, thumbnailKey: null, contentType: null };
+    expect(attachmentFile(old, "preview")).toEqual({ error: "No preview for this attachment" });
+    expect(attachmentFile(old, "thumbnail")).toEqual({ error: "No thumbnail for this attachment" });
+    expect(attachmentFile(old, "download")).toMatchObject({ options: { contentType: "application/octet-stream" } });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Ticket attachment uploads (staff and residents, and vendors through the vendor portal): the type is checked
+ * from the file's content against an allow-list, and photos are re-encoded without their metadata (EXIF, including
+ * GPS position) and get a thumbnail.
+ */
+
+import crypto from "node:crypto";
+import multer from "multer";
+import sharp from "sharp";
+import type { Request, RequestHandler, Response } from "express";
+import { storage } from "../storage/index.js";
+import type { SignedUrlOptions } from "../storage/interface.js";
+import { ATTACHMENT_TYPES, isImageType, sniffFileType, type FileType } from "./fileType.js";
+
+export const MAX_FILES_PER_UPLOAD = 10;
+/** Thumbnails fit in a square of this many pixels. */
+export const THUMBNAIL_SIZE = 320;
+export const THUMBNAIL_CONTENT_TYPE = "image/webp";
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024, files: MAX_FILES_PER_UPLOAD },
+});
+
+/** Multipart field "file" (one file) or "files" (several); multer's limit errors are answered with 400. */
+export const uploadAttachmentFiles: RequestHandler = (req, res, next) => {
+  upload.fields([
+    { name: "file", maxCount: 1 },
+    { name: "files", maxCount: MAX_FILES_PER_UPLOAD },
+  ])(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+    next(err);
+  });
+};
+
+/** Files received by uploadAttachmentFiles; `multiple` when they came in "files" (the response is then an array). */
+export function uploadedAttachmentFiles(req: Request): { files: Express.Multer.File[]; multiple: boolean } {
+  const fields = req.files as Record<string, Express.Multer.File[]> | undefined;
+  return { files: [...(fields?.file ?? []), ...(fields?.files ?? [])], multiple: fields?.files != null };
+}
+
+export interface PreparedAttachment {
+  filename: string;
+  contentType: string;
+  ext: string;
+  body: Buffer;
+  /** WebP thumbnail for images */
+  thumbnail: Buffer | null;
+}
+
+export type PrepareResult = { ok: true; attachment: PreparedAttachment } | { ok: false; error: string };
+
+export interface UploadedFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
+/**
+ * Re-encode an image: the EXIF orientation is applied to the pixels and every other piece of metadata is dropped
+ * (sharp keeps none unless asked to). HEIC/HEIF photos become JPEG, which every browser can show.
+ */
+async function processImage(buffer: Buffer, type: FileType): Promise<{ body: Buffer; contentType: string; ext: string }> {
+  switch (type.mime) {
+    case "image/png":
+      return { body: await sharp(buffer).rotate().png().toBuffer(), contentType: type.mime, ext: type.ext };
+    case "image/gif":
+      return { body: await sharp(buffer, { animated: true }).gif().toBuffer(), contentType: type.mime, ext: type.ext };
+    case "image/webp":
+      return { body: await sharp(buffer, { animated: true }).webp().toBuffer(), contentType: type.mime, ext: type.ext };
+    default:
+      return { body: await sharp(buffer).rotate().jpeg({ quality: 90 }).toBuffer(), contentType: "image/jpeg", ext: "jpg" };
+  }
+}
+
+export async function createThumbnail(image: Buffer): Promise<Buffer> {
+  return sharp(image)
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+}
+
+/** Check an uploaded file and, for photos, strip their metadata and make the thumbnail. Nothing is stored yet. */
+export async function prepareAttachment(
+  file: UploadedFile,
+  allowedTypes: readonly string[] = ATTACHMENT_TYPES
+): Promise<PrepareResult> {
+  const type = sniffFileType(file.buffer);
+  if (!type || !allowedTypes.includes(type.mime)) {
+    return { ok: false, error: `${file.originalname}: file type not allowed` };
+  }
+  if (!isImageType(type.mime)) {
+    return {
+      ok: true,
+      attachment: { filename: file.originalname, contentType: type.mime, ext: type.ext, body: file.buffer, thumbnail: null },
+    };
+  }
+  try {
+    const image = await processImage(file.buffer, type);
+    const filename =
+      image.ext === type.ext ? file.originalname : `${file.originalname.replace(/\.[^.]*$/, "")}.${image.ext}`;
+    return {
+      ok: true,
+      attachment: { filename, ...image, thumbnail: await createThumbnail(image.body) },
+    };
+  } catch {
+    // Also HEIC when libvips was built without an HEVC decoder (the prebuilt sharp binaries)
+    return { ok: false, error: `${file.originalname}: the image could not be read` };
+  }
+}
+
+/** Check every file of an upload; the first rejected one fails the whole upload. */
+export async function prepareAttachments(
+  files: UploadedFile[],
+  allowedTypes?: readonly string[]
+): Promise<{ ok: true; attachments: PreparedAttachment[] } | { ok: false; error: string }> {
+  const attachments: PreparedAttachment[] = [];
+  for (const file of files) {
+    const result = await prepareAttachment(file, allowedTypes);
+    if (!result.ok) return result;
+    attachments.push(result.attachment);
+  }
+  return { ok: true, attachments };
+}
+
+export interface StoredAttachment {
+  fileKey: string;
+  thumbnailKey: string | null;
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+/** Put a prepared attachment (and its thumbnail) into storage under the ticket's prefix. */
+export async function storeAttachment(slug: string, ticketId: number, attachment: PreparedAttachment): Promise<StoredAttachment> {
+  const base = `tenants/${slug}/tickets/${ticketId}/${crypto.randomUUID()}`;
+  const fileKey = `${base}.${attachment.ext}`;
+  await storage.put(fileKey, attachment.body, attachment.contentType);
+  let thumbnailKey: string | null = null;
+  if (attachment.thumbnail) {
+    thumbnailKey = `${base}.thumb.webp`;
+    await storage.put(thumbnailKey, attachment.thumbnail, THUMBNAIL_CONTENT_TYPE);
+  }
+  return {
+    fileKey,
+    thumbnailKey,
+    filename: attachment.filename,
+    contentType: attachment.contentType,
+    size: attachment.body.length,
+  };
+}
+
+/**
+ * Stream a stored file with the given headers. nosniff keeps browsers from second-guessing the type; together
+ * with the allow-list that means nothing uploaded runs as a page on our origin.
+ */
+export async function sendStoredFile(res: Response, key: string, contentType: string, disposition: string): Promise<void> {
+  const stream = await storage.get(key);
+  if (!stream) {
+    res.status(404).json({ error: "File not found" });
+    return;
+  }
+  res.setHeader("Content-Type", contentType);
+  res.setHeader("Content-Disposition", disposition);
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.setHeader("Cache-Control", "private, max-age=3600");
+  stream.pipe(res);
+}
+
+/** What a client can fetch of an attachment: the file as a download, the file inline, or its thumbnail. */
+export const ATTACHMENT_VARIANTS = ["download", "preview", "thumbnail"] as const;
+export type AttachmentVariant = (typeof ATTACHMENT_VARIANTS)[number];
+
+/**
+ * Stored file and response headers for a variant of an attachment, as the download, preview and thumbnail
+ * endpoints serve it. Older uploads (stored without a checked type) have no preview, PDFs no thumbnail.
+ */
+export function attachmentFile(
+  attachment: { fileKey: string; thumbnailKey: string | null; filename: string; contentType: string | null },
+  variant: AttachmentVariant
+): { key: string; options: SignedUrlOptions } | { error: string } {
+  const { filename, contentType } = attachment;
+  switch (variant) {
+    case "download":
+      return {
+        key: attachment.fileKey,
+        options: { disposition: "attachment", filename, contentType: contentType ?? "application/octet-stream" },
+      };
+    case "preview":
+      if (!contentType || !ATTACHMENT_TYPES.includes(contentType)) return { error: "No preview for this attachment" };
+      return { key: attachment.fileKey, options: { disposition: "inline", filename, contentType } };
+    case "thumbnail":
+      if (!attachment.thumbnailKey) return { error: "No thumbnail for this attachment" };
+      return {
+        key: attachment.thumbnailKey,
+        options: { disposition: "inline", filename, contentType: THUMBNAIL_CONTENT_TYPE },
+      };
+  }
+}
@@ -0,0 +1,44 @@
+import { tenantDb, type TenantDb } from "../db/tenantDb.js";
+import { ticketEvents, ticketSlaTargets } from "../db/schema/tenant.js";
+import { resolveSlaTargets, type SlaTarget, type TicketPriority } from "./ticketWorkflow.js";
+
+export type TicketEventType =
+  | "created"
+  | "status_changed"
+  | "assigned"
+  | "vendor_assigned"
+  | "priority_changed"
+  | "category_changed"
+  | "commented";
+
+export interface TicketEventParams {
+  ticketId: number;
+  /** null for changes made by the system or by a vendor through the vendor portal */
+  actorId: number | null;
+  type: TicketEventType;
+  from?: string | number | null;
+  to?: string | number | null;
+}
+
+/**
+ * Append entries to a ticket's history (GET /tickets/:id/history). Must be called inside a tenantDb
+ * callback so it runs in the same transaction as the change.
+ */
+export async function logTicketEvents(db: TenantDb, events: TicketEventParams[]): Promise<void> {
+  if (events.length === 0) return;
+  await db.insert(ticketEvents).values(
+    events.map((e) => ({
+      ticketId: e.ticketId,
+      actorId: e.actorId,
+      type: e.type,
+      fromValue: e.from != null ? String(e.from) : null,
+      toValue: e.to != null ? String(e.to) : null,
+    }))
+  );
+}
+
+/** SLA targets of a tenant: DEFAULT_SLA_TARGETS with its ticket_sla_targets overrides. */
+export async function getSlaTargets(slug: string): Promise<Record<TicketPriority, SlaTarget>> {
+  const rows = await tenantDb(slug, (db) => db.select().from(ticketSlaTargets));
+  return resolveSlaTargets(rows);
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkTransition,
+  allowedTransitions,
+  resolveSlaTargets,
+  slaStatus,
+  DEFAULT_SLA_TARGETS,
+} from "./ticketWorkflow.js";
+
+const manager = { resident: false, canManage: true };
+const resident = { resident: true, canManage: false };
+const accountant = { resident: false, canManage: false };
+
+describe("checkTransition", () => {
+  it("lets managers walk the workflow and reopen", () => {
+    expect(checkTransition("open", "in_progress", manager)).toEqual({ ok: true });
+    expect(checkTransition("in_progress", "resolved", manager)).toEqual({ ok: true });
+    expect(checkTransition("resolved", "closed", manager)).toEqual({ ok: true });
+    expect(checkTransition("closed", "open", manager)).toEqual({ ok: true });
+  });
+
+  it("rejects skipping steps with 400, even for managers", () => {
+    expect(checkTransition("open", "closed", manager)).toMatchObject({ ok: false, status: 400 });
+    expect(checkTransition("in_progress", "open", manager)).toMatchObject({ ok: false, status: 400 });
+  });
+
+  it("only lets residents close or reopen a resolved ticket", () => {
+    expect(checkTransition("resolved", "closed", resident)).toEqual({ ok: true });
+    expect(checkTransition("resolved", "open", resident)).toEqual({ ok: true });
+    expect(checkTransition("open", "in_progress", resident)).toMatchObject({ ok: false, status: 403 });
+    expect(checkTransition("closed", "open", resident)).toMatchObject({ ok: false, status: 403 });
+    expect(checkTransition("resolved", "closed", accountant)).toMatchObject({ ok: false, status: 403 });
+  });
+
+  it("lists the next statuses an actor may choose", () => {
+    expect(allowedTransitions("resolved", resident)).toEqual(["closed", "open"]);
+    expect(allowedTransitions("open", resident)).toEqual([]);
+    expect(allowedTransitions("open", manager)).toEqual(["in_progress"]);
+  });
+});
+
+describe("SLA", () => {
+  it("applies tenant overrides over the defaults", () => {
+    const targets = resolveSlaTargets([{ priority: "urgent", firstResponseHours: 2, resolutionHours: 8 }]);
+    expect(targets.urgent).toEqual({ firstResponseHours: 2, resolutionHours: 8 });
+    expect(targets.low).toEqual(DEFAULT_SLA_TARGETS.low);
+  });
+
+  it("flags late and overdue responses and resolutions", () => {
+    const createdAt = new Date("2026-01-01T08:00:00Z");
+    const target = { firstResponseHours: 4, resolutionHours: 24 };
+    const now = new Date("2026-01-03T08:00:00Z");
+    const open = slaStatus({ priority: "high", createdAt, firstResponseAt: null, resolvedAt: null }, target, now);
+    expect(open.firstResponseDueAt.toISOString()).toBe("2026-01-01T12:00:00.000Z");
+    expect(open).toMatchObject({ firstResponseBreached: true, resolutionBreached: true });
+
+    const onTime = slaStatus(
+      {
+        priority: "high",
+        createdAt,
+        firstResponseAt: new Date("2026-01-01T09:00:00Z"),
+        resolvedAt: new Date("2026-01-01T20:00:00Z"),
+      },
+      target,
+      now
+    );
+    expect(onTime).toMatchObject({ firstResponseBreached: false, resolutionBreached: false });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Ticket status workflow and SLA targets.
+ *
+ * open → in_progress → resolved → closed, and a resolved or closed ticket can be reopened.
+ * Staff with tickets:manage may make every transition; residents may only confirm a fix (close)
+ * or reopen a resolved ticket.
+ */
+
+export const TICKET_STATUSES = ["open", "in_progress", "resolved", "closed"] as const;
+export type TicketStatus = (typeof TICKET_STATUSES)[number];
+
+export const TICKET_PRIORITIES = ["low", "normal", "high", "urgent"] as const;
+export type TicketPriority = (typeof TICKET_PRIORITIES)[number];
+
+interface Transition {
+  from: TicketStatus;
+  to: TicketStatus;
+  /** Residents with access to the ticket may make this transition too. */
+  residents: boolean;
+}
+
+export const TICKET_TRANSITIONS: readonly Transition[] = [
+  { from: "open", to: "in_progress", residents: false },
+  { from: "in_progress", to: "resolved", residents: false },
+  { from: "resolved", to: "closed", residents: true },
+  { from: "resolved", to: "open", residents: true },
+  { from: "closed", to: "open", residents: false },
+];
+
+export interface TransitionActor {
+  resident: boolean;
+  /** Has tickets:manage */
+  canManage: boolean;
+}
+
+export type TransitionCheck = { ok: true } | { ok: false; status: 400 | 403; error: string };
+
+/** Whether `actor` may move a ticket from `from` to `to`. */
+export function checkTransition(from: TicketStatus, to: TicketStatus, actor: TransitionActor): TransitionCheck {
+  const transition = TICKET_TRANSITIONS.find((t) => t.from === from && t.to === to);
+  if (!transition) return { ok: false, status: 400, error: `Cannot change status from ${from} to ${to}` };
+  if (actor.canManage) return { ok: true };
+  if (actor.resident && transition.residents) return { ok: true };
+  return { ok: false, status: 403, error: `Not allowed to change status from ${from} to ${to}` };
+}
+
+/** Statuses the actor can move the ticket to next (for the UI). */
+export function allowedTransitions(from: TicketStatus, actor: TransitionActor): TicketStatus[] {
+  return TICKET_TRANSITIONS.filter((t) => t.from === from && checkTransition(from, t.to, actor).ok).map((t) => t.to);
+}
+
+/** Hours until the first staff response and until the ticket is resolved. */
+export interface SlaTarget {
+  firstResponseHours: number;
+  resolutionHours: number;
+}
+
+export const DEFAULT_SLA_TARGETS: Record<TicketPriority, SlaTarget> = {
+  urgent: { firstResponseHours: 1, resolutionHours: 24 },
+  high: { firstResponseHours: 4, resolutionHours: 72 },
+  normal: { firstResponseHours: 24, resolutionHours: 168 },
+  low: { firstResponseHours: 72, resolutionHours: 336 },
+};
+
+export interface SlaTargetRow extends SlaTarget {
+  priority: string;
+}
+
+/** Targets per priority: the defaults with the tenant's overrides applied. */
+export function resolveSlaTargets(rows: SlaTargetRow[]): Record<TicketPriority, SlaTarget> {
+  const targets = Object.fromEntries(
+    TICKET_PRIORITIES.map((p) => [p, { ...DEFAULT_SLA_TARGETS[p] }])
+  ) as Record<TicketPriority, SlaTarget>;
+  for (const row of rows) {
+    if (row.priority in targets) {
+      targets[row.priority as TicketPriority] = {
+        firstResponseHours: row.firstResponseHours,
+        resolutionHours: row.resolutionHours,
+      };
+    }
+  }
+  return targets;
+}
+
+export interface SlaTicket {
+  priority: TicketPriority;
+  createdAt: Date;
+  firstResponseAt: Date | null;
+  resolvedAt: Date | null;
+}
+
+export interface SlaStatus {
+  firstResponseDueAt: Date;
+  resolutionDueAt: Date;
+  /** Responded late, or not yet responded and past due. */
+  firstResponseBreached: boolean;
+  resolutionBreached: boolean;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Due dates of a ticket and whether they were (or already are) missed at `now`. */
+export function slaStatus(ticket: SlaTicket, target: SlaTarget, now = new Date()): SlaStatus {
+  const firstResponseDueAt = new Date(ticket.createdAt.getTime() + target.firstResponseHours * HOUR_MS);
+  const resolutionDueAt = new Date(ticket.createdAt.getTime() + target.resolutionHours * HOUR_MS);
+  return {
+    firstResponseDueAt,
+    resolutionDueAt,
+    firstResponseBreached: (ticket.firstResponseAt ?? now) > firstResponseDueAt,
+    resolutionBreached: (ticket.resolvedAt ?? now) > resolutionDueAt,
+  };
+}
@@ -0,0 +1,14 @@
+import crypto from "node:crypto";
+
+/** Random hex token for links and refresh tokens (32 bytes = 64 hex chars by default). */
+export function generateToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString("hex");
+}
+
+/**
+ * SHA-256 hex digest of a token. Store this instead of the token itself so a
+ * database leak does not expose usable credentials.
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { base32Decode, base32Encode, generateTotp, verifyTotp, generateTotpSecret, totpTimeStep } from "./totp.js";
+
+// RFC 6238 appendix B test key ("12345678901234567890" as ASCII).
+const RFC_SECRET = base32Encode(Buffer.from("12345678901234567890"));
+
+describe("base32", () => {
+  it("round-trips bytes", () => {
+    const buf = Buffer.from([0, 1, 2, 250, 255, 17, 42]);
+    expect(base32Decode(base32Encode(buf))).toEqual(buf);
+  });
+
+  it("encodes the RFC 4648 vector", () => {
+    expect(base32Encode(Buffer.from("foobar"))).toBe("MZXW6YTBOI");
+  });
+});
+
+describe("generateTotp", () => {
+  it("matches RFC 6238 SHA1 vectors (8 digits)", () => {
+    expect(generateTotp(RFC_SECRET, 59 * 1000, 8)).toBe("94287082");
+    expect(generateTotp(RFC_SECRET, 1111111109 * 1000, 8)).toBe("07081804");
+    expect(generateTotp(RFC_SECRET, 1234567890 * 1000, 8)).toBe("89005924");
+  });
+});
+
+describe("verifyTotp", () => {
+  it("accepts the current code and one step of drift", () => {
+    const secret = generateTotpSecret();
+    const now = Date.now();
+    expect(verifyTotp(secret, generateTotp(secret, now), now)).toBe(true);
+    expect(verifyTotp(secret, generateTotp(secret, now - 30_000), now)).toBe(true);
+  });
+
+  it("rejects stale or malformed codes", () => {
+    const secret = generateTotpSecret();
+    const now = Date.now();
+    expect(verifyTotp(secret, generateTotp(secret, now - 120_000), now)).toBe(false);
+    expect(verifyTotp(secret, "abc123", now)).toBe(false);
+    expect(verifyTotp(secret, "12345", now)).toBe(false);
+  });
+});
+
+describe("totpTimeStep", () => {
+  it("returns the step a code belongs to, so a used code can be refused", () => {
+    const secret = generateTotpSecret();
+    const now = 1_760_000_000_000;
+    const step = Math.floor(now / 1000 / 30);
+    expect(totpTimeStep(secret, generateTotp(secret, now), now)).toBe(step);
+    expect(totpTimeStep(secret, generateTotp(secret, now - 30_000), now)).toBe(step - 1);
+    expect(totpTimeStep(secret, generateTotp(secret, now - 120_000), now)).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+import crypto from "node:crypto";
+
+/**
+ * Time-based one-time passwords (RFC 6238, HMAC-SHA1, 6 digits, 30s step) as used by
+ * Google Authenticator, 1Password, Authy etc.
+ */
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+export function base32Encode(buf: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, "");
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const ch of clean) {
+    const idx = BASE32_ALPHABET.indexOf(ch);
+    if (idx === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+/** New random 160-bit secret, base32-encoded for authenticator apps. */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/** HOTP value (RFC 4226) for a counter. */
+function hotp(key: Buffer, counter: number, digits: number): string {
+  const msg = Buffer.alloc(8);
+  msg.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac("sha1", key).update(msg).digest();
+  const offset = hmac[hmac.length - 1]! & 0x0f;
+  const code =
+    ((hmac[offset]! & 0x7f) << 24) |
+    (hmac[offset + 1]! << 16) |
+    (hmac[offset + 2]! << 8) |
+    hmac[offset + 3]!;
+  return String(code % 10 ** digits).padStart(digits, "0");
+}
+
+/** TOTP code for the given secret at time `nowMs`. */
+export function generateTotp(secret: string, nowMs = Date.now(), digits = DIGITS): string {
+  const counter = Math.floor(nowMs / 1000 / STEP_SECONDS);
+  return hotp(base32Decode(secret), counter, digits);
+}
+
+/**
+ * Time step (counter) a code is valid for, accepting `window` steps either side of now to tolerate clock
+ * drift between server and phone; null when it matches none. Callers store the step to refuse the code the
+ * second time (RFC 6238 section 5.2).
+ */
+export function totpTimeStep(secret: string, code: string, nowMs = Date.now(), window = 1): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+  const key = base32Decode(secret);
+  const counter = Math.floor(nowMs / 1000 / STEP_SECONDS);
+  for (let i = -window; i <= window; i++) {
+    const expected = hotp(key, counter + i, DIGITS);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) return counter + i;
+  }
+  return null;
+}
+
+/** Check a code against the secret (see totpTimeStep). */
+export function verifyTotp(secret: string, code: string, nowMs = Date.now(), window = 1): boolean {
+  return totpTimeStep(secret, code, nowMs, window) != null;
+}
+
+/** otpauth:// URL to render as a QR code during enrolment. */
+export function totpAuthUrl(secret: string, accountName: string, issuer = "Komun"): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
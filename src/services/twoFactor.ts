@@ -0,0 +1,92 @@
+import crypto from "node:crypto";
+import { publicDb } from "../db/index.js";
+import { users, usedLoginChallenges } from "../db/schema/public.js";
+import { TransactionRollbackError, and, eq, isNull, lt, or, sql } from "drizzle-orm";
+import { hashToken } from "./tokens.js";
+import { totpTimeStep } from "./totp.js";
+
+const RECOVERY_CODE_COUNT = 10;
+
+/** Generate a fresh set of one-time recovery codes (shown once) and their hashes (stored). */
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes: string[] = [];
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const raw = crypto.randomBytes(5).toString("hex");
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+  }
+  return { codes, hashes: codes.map((c) => hashToken(normalizeRecoveryCode(c))) };
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.trim().toLowerCase().replace(/[\s-]/g, "");
+}
+
+type PublicTx = Parameters<Parameters<typeof publicDb.transaction>[0]>[0];
+
+/**
+ * Accept a TOTP code once: its time step is recorded, and codes of that step or an earlier one are refused
+ * from then on (RFC 6238 section 5.2), so a code seen by someone else cannot be used again.
+ */
+export async function consumeTotpCode(
+  user: { id: number; totpSecret: string },
+  code: string,
+  db: typeof publicDb | PublicTx = publicDb
+): Promise<boolean> {
+  const step = totpTimeStep(user.totpSecret, code);
+  if (step == null) return false;
+  const [row] = await db
+    .update(users)
+    .set({ totpLastUsedStep: step })
+    .where(and(eq(users.id, user.id), or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step))))
+    .returning({ id: users.id });
+  return row != null;
+}
+
+/**
+ * Verify a second factor for a user with 2FA enabled: either a current TOTP code that was not used before or
+ * an unused recovery code. A matching recovery code is consumed; the conditional update makes sure two
+ * concurrent sign-ins cannot both spend it.
+ */
+export async function verifySecondFactor(
+  user: { id: number; totpSecret: string | null; totpEnabledAt: Date | null },
+  code: string,
+  db: typeof publicDb | PublicTx = publicDb
+): Promise<boolean> {
+  if (!user.totpSecret || !user.totpEnabledAt) return false;
+  if (totpTimeStep(user.totpSecret, code) != null) return consumeTotpCode({ id: user.id, totpSecret: user.totpSecret }, code, db);
+  const hash = hashToken(normalizeRecoveryCode(code));
+  const [row] = await db
+    .update(users)
+    .set({ totpRecoveryCodes: sql`${users.totpRecoveryCodes} - ${hash}::text` })
+    .where(and(eq(users.id, user.id), sql`${users.totpRecoveryCodes} @> jsonb_build_array(${hash}::text)`))
+    .returning({ id: users.id });
+  return row != null;
+}
+
+/**
+ * Second login step: mark the challenge as used and check the code in one transaction. A wrong code rolls
+ * the challenge back so the user can try again, while a used challenge is refused before any recovery code
+ * is spent. Rows of expired challenges are dropped on the way.
+ */
+export async function completeLoginChallenge(
+  challenge: { userId: number; jti: string; expiresAt: Date },
+  user: { id: number; totpSecret: string | null; totpEnabledAt: Date | null },
+  code: string
+): Promise<"ok" | "used" | "invalid"> {
+  await publicDb.delete(usedLoginChallenges).where(lt(usedLoginChallenges.expiresAt, new Date()));
+  try {
+    return await publicDb.transaction(async (tx) => {
+      const [row] = await tx
+        .insert(usedLoginChallenges)
+        .values({ jti: challenge.jti, userId: challenge.userId, expiresAt: challenge.expiresAt })
+        .onConflictDoNothing()
+        .returning({ jti: usedLoginChallenges.jti });
+      if (!row) return "used";
+      if (!(await verifySecondFactor(user, code, tx))) tx.rollback();
+      return "ok";
+    });
+  } catch (err) {
+    if (err instanceof TransactionRollbackError) return "invalid";
+    throw err;
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { drizzle } from "drizzle-orm/pg-proxy";
+
+const queries: Array<{ sql: string; params: unknown[] }> = [];
+let rows: unknown[][] = [];
+const fakeDb = drizzle(async (sql, params) => {
+  queries.push({ sql, params });
+  return { rows };
+});
+vi.mock("../db/tenantDb.js", () => ({
+  tenantDb: (_slug: string, fn: (db: unknown) => Promise<unknown>) => fn(fakeDb),
+}));
+
+const { findVendorLink } = await import("./vendorPortal.js");
+
+describe("findVendorLink", () => {
+  beforeEach(() => {
+    queries.length = 0;
+    rows = [];
+  });
+
+  it("rejects a missing token or id without querying", async () => {
+    expect(await findVendorLink("acme", 1, undefined)).toMatchObject({ status: 400 });
+    expect(await findVendorLink("acme", NaN, "tok")).toMatchObject({ status: 400 });
+    expect(queries).toHaveLength(0);
+  });
+
+  it("only joins active vendors, so a deactivated vendor's links stop working", async () => {
+    const result = await findVendorLink("acme", 7, "tok");
+    expect(result).toEqual({ status: 404, body: { error: "Vendor link not found or invalid" } });
+    expect(queries).toHaveLength(1);
+    expect(queries[0]!.sql).toMatch(/inner join "vendors" on \(.*"vendors"\."active" = \$\d+\)/);
+    expect(queries[0]!.params).toEqual(expect.arrayContaining([true, 7, "tok"]));
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Token links of the vendor portal (src/routes/vendorPortal.ts).
+ */
+
+import { and, eq } from "drizzle-orm";
+import { tenantDb } from "../db/tenantDb.js";
+import { tickets as ticketsTable, ticketVendorLinks, vendors as vendorsTable } from "../db/schema/tenant.js";
+
+export type VendorLink =
+  | { ticket: typeof ticketsTable.$inferSelect; vendor: { id: number; name: string } }
+  | { status: number; body: object };
+
+/**
+ * Ticket and vendor of a portal link; the token only opens the ticket it was issued for, and only while the
+ * vendor is active (deactivating a vendor closes all of their links).
+ */
+export async function findVendorLink(slug: string, ticketId: number, token: string | undefined): Promise<VendorLink> {
+  if (Number.isNaN(ticketId) || !token) return { status: 400, body: { error: "Invalid id or missing token" } };
+  const [row] = await tenantDb(slug, (db) =>
+    db
+      .select({ ticket: ticketsTable, vendor: { id: vendorsTable.id, name: vendorsTable.name } })
+      .from(ticketVendorLinks)
+      .innerJoin(ticketsTable, eq(ticketVendorLinks.ticketId, ticketsTable.id))
+      .innerJoin(vendorsTable, and(eq(ticketVendorLinks.vendorId, vendorsTable.id), eq(vendorsTable.active, true)))
+      .where(and(eq(ticketVendorLinks.ticketId, ticketId), eq(ticketVendorLinks.token, token)))
+      .limit(1)
+  );
+  if (!row) return { status: 404, body: { error: "Vendor link not found or invalid" } };
+  return row;
+}
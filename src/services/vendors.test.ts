@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { insuranceStatus, computeVendorStats, type VendorTicket } from "./vendors.js";
+import { DEFAULT_SLA_TARGETS } from "./ticketWorkflow.js";
+
+describe("insuranceStatus", () => {
+  const today = new Date("2026-03-01T12:00:00Z");
+
+  it("reports missing, expired, expiring and valid insurance", () => {
+    expect(insuranceStatus(null, today)).toBe("missing");
+    expect(insuranceStatus("2026-02-28", today)).toBe("expired");
+    expect(insuranceStatus("2026-03-01", today)).toBe("expiring");
+    expect(insuranceStatus("2026-03-31", today)).toBe("expiring");
+    expect(insuranceStatus("2026-04-01", today)).toBe("valid");
+  });
+});
+
+describe("computeVendorStats", () => {
+  const assignedAt = new Date("2026-03-01T00:00:00Z");
+  const ticket = (overrides: Partial<VendorTicket>): VendorTicket => ({
+    vendorId: 1,
+    status: "open",
+    priority: "normal",
+    createdAt: assignedAt,
+    firstResponseAt: null,
+    resolvedAt: null,
+    assignedAt,
+    ...overrides,
+  });
+
+  it("counts tickets per vendor and averages resolution time from assignment", () => {
+    const stats = computeVendorStats(
+      [
+        ticket({ status: "resolved", resolvedAt: new Date("2026-03-01T10:00:00Z") }),
+        ticket({ status: "closed", resolvedAt: new Date("2026-03-02T01:00:00Z") }),
+        ticket({ status: "in_progress" }),
+        ticket({ vendorId: 2 }),
+      ],
+      DEFAULT_SLA_TARGETS,
+      new Date("2026-03-03T00:00:00Z")
+    );
+    expect(stats).toEqual([
+      { vendorId: 1, assignedTickets: 3, openTickets: 1, resolvedTickets: 2, avgResolutionHours: 17.5, resolutionBreaches: 0 },
+      { vendorId: 2, assignedTickets: 1, openTickets: 1, resolvedTickets: 0, avgResolutionHours: null, resolutionBreaches: 0 },
+    ]);
+  });
+
+  it("counts resolution SLA breaches, including open tickets past due", () => {
+    const stats = computeVendorStats(
+      [
+        ticket({ priority: "urgent", status: "resolved", resolvedAt: new Date("2026-03-02T06:00:00Z") }),
+        ticket({ priority: "urgent" }),
+        ticket({ priority: "low" }),
+      ],
+      DEFAULT_SLA_TARGETS,
+      new Date("2026-03-03T00:00:00Z")
+    );
+    expect(stats[0].resolutionBreaches).toBe(2);
+  });
+});
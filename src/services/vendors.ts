@@ -0,0 +1,82 @@
+/**
+ * Vendor insurance status and performance stats (pure helpers for src/routes/vendors.ts).
+ */
+
+import { slaStatus, type SlaTarget, type TicketPriority, type TicketStatus } from "./ticketWorkflow.js";
+
+/** Insurance expiring within this many days is reported as "expiring". */
+export const INSURANCE_WARNING_DAYS = 30;
+
+export type InsuranceStatus = "missing" | "valid" | "expiring" | "expired";
+
+/** Status of a vendor's insurance on `today` (expiry is a YYYY-MM-DD date; it is valid through that day). */
+export function insuranceStatus(expiresAt: string | null, today = new Date()): InsuranceStatus {
+  if (!expiresAt) return "missing";
+  const day = today.toISOString().slice(0, 10);
+  if (expiresAt < day) return "expired";
+  const warnFrom = new Date(today.getTime() + INSURANCE_WARNING_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  return expiresAt <= warnFrom ? "expiring" : "valid";
+}
+
+export interface VendorTicket {
+  vendorId: number;
+  status: TicketStatus;
+  priority: TicketPriority;
+  createdAt: Date;
+  firstResponseAt: Date | null;
+  resolvedAt: Date | null;
+  /** When the vendor got the ticket */
+  assignedAt: Date;
+}
+
+export interface VendorStats {
+  vendorId: number;
+  assignedTickets: number;
+  /** open or in progress */
+  openTickets: number;
+  /** resolved or closed */
+  resolvedTickets: number;
+  /** Mean hours from assignment to resolution, over resolved tickets; null when none */
+  avgResolutionHours: number | null;
+  /** Tickets that missed (or are past) their resolution SLA target */
+  resolutionBreaches: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Aggregate vendor tickets into one stats entry per vendor, in order of first appearance. */
+export function computeVendorStats(
+  tickets: VendorTicket[],
+  targets: Record<TicketPriority, SlaTarget>,
+  now = new Date()
+): VendorStats[] {
+  const byVendor = new Map<number, VendorStats & { resolutionHoursTotal: number }>();
+  for (const t of tickets) {
+    let stats = byVendor.get(t.vendorId);
+    if (!stats) {
+      stats = {
+        vendorId: t.vendorId,
+        assignedTickets: 0,
+        openTickets: 0,
+        resolvedTickets: 0,
+        avgResolutionHours: null,
+        resolutionBreaches: 0,
+        resolutionHoursTotal: 0,
+      };
+      byVendor.set(t.vendorId, stats);
+    }
+    stats.assignedTickets++;
+    if (t.resolvedAt != null) {
+      stats.resolvedTickets++;
+      stats.resolutionHoursTotal += Math.max(0, t.resolvedAt.getTime() - t.assignedAt.getTime()) / HOUR_MS;
+    } else if (t.status === "open" || t.status === "in_progress") {
+      stats.openTickets++;
+    }
+    if (slaStatus(t, targets[t.priority], now).resolutionBreached) stats.resolutionBreaches++;
+  }
+  return [...byVendor.values()].map(({ resolutionHoursTotal, ...stats }) => ({
+    ...stats,
+    avgResolutionHours:
+      stats.resolvedTickets > 0 ? Math.round((resolutionHoursTotal / stats.resolvedTickets) * 10) / 10 : null,
+  }));
+}
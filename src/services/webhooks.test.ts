@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { signWebhook, verifyWebhookSignature, postWebhook, SIGNATURE_HEADER } from "./webhooks.js";
+
+describe("signWebhook / verifyWebhookSignature", () => {
+  const secret = "whsec_test_secret_value";
+  const body = JSON.stringify({ event: "ticket.created", data: { id: 1 } });
+
+  it("accepts a fresh signature of the same body", () => {
+    const now = 1_760_000_000;
+    const header = signWebhook(secret, body, now);
+    expect(header).toMatch(/^t=1760000000,v1=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature(secret, body, header, now + 10)).toBe(true);
+  });
+
+  it("rejects a changed body, a wrong secret and an old timestamp", () => {
+    const now = 1_760_000_000;
+    const header = signWebhook(secret, body, now);
+    expect(verifyWebhookSignature(secret, body + " ", header, now)).toBe(false);
+    expect(verifyWebhookSignature("whsec_other_secret", body, header, now)).toBe(false);
+    expect(verifyWebhookSignature(secret, body, header, now + 10 * 60)).toBe(false);
+    expect(verifyWebhookSignature(secret, body, "garbage", now)).toBe(false);
+  });
+});
+
+describe("postWebhook", () => {
+  const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+  let status = 200;
+  let server: http.Server;
+  let url: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(status).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("posts the body with event, delivery and a verifiable signature", async () => {
+    const body = JSON.stringify({ event: "transaction.created", data: { id: 7 } });
+    const result = await postWebhook({ url, secret: "whsec_local", event: "transaction.created", deliveryId: 42, body, allowPrivate: true });
+    expect(result).toBe(200);
+    const last = received[received.length - 1];
+    expect(last.body).toBe(body);
+    expect(last.headers["content-type"]).toBe("application/json");
+    expect(last.headers["x-komun-event"]).toBe("transaction.created");
+    expect(last.headers["x-komun-delivery"]).toBe("42");
+    const signature = last.headers[SIGNATURE_HEADER.toLowerCase()] as string;
+    expect(verifyWebhookSignature("whsec_local", body, signature)).toBe(true);
+  });
+
+  it("returns the endpoint's error status instead of throwing", async () => {
+    status = 503;
+    const result = await postWebhook({ url, secret: "whsec_local", event: "webhook.test", deliveryId: 1, body: "{}", allowPrivate: true });
+    expect(result).toBe(503);
+  });
+
+  it("refuses local targets unless they are allowed, by IP and by name", async () => {
+    const count = received.length;
+    const params = { secret: "whsec_local", event: "webhook.test", deliveryId: 1, body: "{}" };
+    await expect(postWebhook({ ...params, url })).rejects.toThrow(/private or local/);
+    await expect(postWebhook({ ...params, url: url.replace("127.0.0.1", "localhost") })).rejects.toThrow(/private or local/);
+    expect(received).toHaveLength(count);
+  });
+
+  it("does not follow redirects", async () => {
+    status = 302;
+    const result = await postWebhook({ url, secret: "whsec_local", event: "webhook.test", deliveryId: 1, body: "{}", allowPrivate: true });
+    expect(result).toBe(302);
+  });
+});
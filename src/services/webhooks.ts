@@ -0,0 +1,189 @@
+import crypto from "node:crypto";
+import http from "node:http";
+import https from "node:https";
+import { tenantDb, type TenantDb } from "../db/tenantDb.js";
+import { webhookSubscriptions, webhookDeliveries } from "../db/schema/tenant.js";
+import { tenants } from "../db/schema/public.js";
+import { and, arrayContains, eq, sql } from "drizzle-orm";
+import { enqueueJob } from "../jobs/queue.js";
+import { allowPrivateTargets, assertPublicHost, publicOnlyLookup } from "./outboundUrl.js";
+
+export const WEBHOOK_EVENTS = ["ticket.created", "ticket.updated", "transaction.created", "budget.approved"] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** Sent only by the test-fire endpoint, to whichever subscription is tested. */
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+
+export const SIGNATURE_HEADER = "X-Komun-Signature";
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+/** Receivers should reject signatures older than this (replay protection). */
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Signature header value: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">` keyed with the subscription secret.
+ * The timestamp is signed too, so a captured request cannot be replayed later with a new one.
+ */
+export function signWebhook(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const mac = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${mac}`;
+}
+
+/** Receiver-side check of a signature header (documented for integrators; used in tests). */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  now = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = Object.fromEntries(header.split(",").map((p) => p.split("=", 2) as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+  if (Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+  const expected = Buffer.from(signWebhook(secret, body, timestamp).split("v1=")[1], "hex");
+  const given = Buffer.from(parts.v1, "hex");
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+/**
+ * POST a signed body to a subscriber. Resolves with the HTTP status; rejects on network errors, timeouts and
+ * targets on private or local addresses (checked on the connection's own DNS lookup). Redirects are not followed.
+ */
+export async function postWebhook(params: {
+  url: string;
+  secret: string;
+  event: string;
+  deliveryId: number;
+  body: string;
+  /** Defaults to WEBHOOK_ALLOW_PRIVATE_URLS (development only) */
+  allowPrivate?: boolean;
+}): Promise<number> {
+  const url = new URL(params.url);
+  if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error("Must be an http(s) URL");
+  const allowPrivate = params.allowPrivate ?? allowPrivateTargets();
+  if (!allowPrivate) assertPublicHost(url);
+  const request = url.protocol === "https:" ? https.request : http.request;
+  return new Promise<number>((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Length": Buffer.byteLength(params.body),
+          "User-Agent": "Komun-Webhooks/1",
+          "X-Komun-Event": params.event,
+          "X-Komun-Delivery": String(params.deliveryId),
+          [SIGNATURE_HEADER]: signWebhook(params.secret, params.body),
+        },
+        lookup: allowPrivate ? undefined : publicOnlyLookup,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    req.on("error", reject);
+    req.end(params.body);
+  });
+}
+
+/**
+ * Create a pending delivery of `event` for one subscription. The payload is what the subscriber receives.
+ * Written through `db`, so the delivery commits or rolls back with the caller's transaction.
+ */
+export async function createWebhookDelivery(
+  db: TenantDb,
+  slug: string,
+  subscriptionId: number,
+  event: string,
+  data: unknown
+): Promise<number> {
+  const payload = { event, tenant: slug, createdAt: new Date().toISOString(), data };
+  const [row] = await db
+    .insert(webhookDeliveries)
+    .values({ subscriptionId, event, payload })
+    .returning({ id: webhookDeliveries.id });
+  return row!.id;
+}
+
+/**
+ * Send a domain event to every active subscription that listens for it. Each delivery is its own "webhook" job,
+ * so a slow or failing endpoint is retried with backoff without holding up the others. Call it with the
+ * transaction that makes the change: the deliveries and their jobs commit with it, so no event is lost.
+ */
+export async function emitWebhookEvent(db: TenantDb, slug: string, event: WebhookEvent, data: unknown): Promise<void> {
+  const subscriptions = await db
+    .select({ id: webhookSubscriptions.id })
+    .from(webhookSubscriptions)
+    .where(and(eq(webhookSubscriptions.active, true), arrayContains(webhookSubscriptions.events, [event])));
+  if (subscriptions.length === 0) return;
+  // public.tenants is on the tenant transaction's search_path
+  const [tenant] = await db.select({ id: tenants.id }).from(tenants).where(eq(tenants.slug, slug)).limit(1);
+  for (const sub of subscriptions) {
+    const deliveryId = await createWebhookDelivery(db, slug, sub.id, event, data);
+    await enqueueJob("webhook", { deliveryId }, { tenantId: tenant?.id ?? null }, db);
+  }
+}
+
+/**
+ * Attempt one delivery and record the outcome on it (the "webhook" job handler, also used by test-fire).
+ * Throws when the subscriber did not answer 2xx, so the job is retried; the last attempt marks it failed.
+ * Deliveries to disabled subscriptions are dropped unless `force` is set (test-fire).
+ */
+export async function deliverWebhook(
+  slug: string,
+  deliveryId: number,
+  isLastAttempt: boolean,
+  options: { force?: boolean } = {}
+): Promise<void> {
+  const [row] = await tenantDb(slug, (db) =>
+    db
+      .select({ delivery: webhookDeliveries, subscription: webhookSubscriptions })
+      .from(webhookDeliveries)
+      .innerJoin(webhookSubscriptions, eq(webhookDeliveries.subscriptionId, webhookSubscriptions.id))
+      .where(eq(webhookDeliveries.id, deliveryId))
+      .limit(1)
+  );
+  if (!row || row.delivery.status === "succeeded") return;
+  if (!row.subscription.active && !options.force) {
+    await tenantDb(slug, (db) =>
+      db
+        .update(webhookDeliveries)
+        .set({ status: "failed", lastError: "Subscription is disabled" })
+        .where(eq(webhookDeliveries.id, deliveryId))
+    );
+    return;
+  }
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    responseStatus = await postWebhook({
+      url: row.subscription.url,
+      secret: row.subscription.secret,
+      event: row.delivery.event,
+      deliveryId,
+      body: JSON.stringify(row.delivery.payload),
+    });
+    if (responseStatus < 200 || responseStatus >= 300) error = `Endpoint responded ${responseStatus}`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+  await tenantDb(slug, (db) =>
+    db
+      .update(webhookDeliveries)
+      .set({
+        attempts: sql`${webhookDeliveries.attempts} + 1`,
+        responseStatus,
+        lastError: error,
+        status: error == null ? "succeeded" : isLastAttempt ? "failed" : "pending",
+        deliveredAt: error == null ? new Date() : null,
+      })
+      .where(eq(webhookDeliveries.id, deliveryId))
+  );
+  if (error != null) throw new Error(error);
+}
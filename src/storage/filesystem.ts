@@ -1,7 +1,8 @@
 import fs from "node:fs";
 import path from "node:path";
 import type { Readable } from "node:stream";
-import type { StorageAdapter } from "./interface.js";
+import type { SignedUrlOptions, StorageAdapter } from "./interface.js";
+import { apiBaseUrl, fileUrlSecret, signFilePath } from "./signedUrl.js";
 
 const UPLOAD_PATH = process.env.UPLOAD_PATH ?? "./uploads";
 
@@ -39,4 +40,9 @@ export const filesystemStorage: StorageAdapter = {
     const filePath = fullPath(key);
     await fs.promises.unlink(filePath).catch(() => {});
   },
+  async getSignedUrl(key: string, ttlSeconds: number, options: SignedUrlOptions = {}): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+    const file = { ...options, key, expires, disposition: options.disposition ?? "attachment" };
+    return `${apiBaseUrl()}${signFilePath(fileUrlSecret(), file)}`;
+  },
 };
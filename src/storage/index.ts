@@ -1,6 +1,19 @@
-import type { StorageAdapter } from "./interface.js";
+import type { SignedUrlOptions, StorageAdapter } from "./interface.js";
 import { filesystemStorage } from "./filesystem.js";
 import { s3Storage } from "./s3.js";
 
 export const storage: StorageAdapter =
   process.env.FILE_STORAGE === "s3" ? s3Storage : filesystemStorage;
+
+/** How long the links from the signed-link (`/url`) endpoints work. */
+export const DOWNLOAD_URL_TTL_SECONDS = 5 * 60;
+
+/** Signed link to a stored file for the client to fetch directly, and when it stops working. */
+export async function createDownloadUrl(
+  key: string,
+  options: SignedUrlOptions,
+  ttlSeconds = DOWNLOAD_URL_TTL_SECONDS
+): Promise<{ url: string; expiresAt: Date }> {
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+  return { url: await storage.getSignedUrl(key, ttlSeconds, options), expiresAt };
+}
@@ -1,7 +1,17 @@
 import type { Readable } from "node:stream";
 
+export interface SignedUrlOptions {
+  /** "attachment" (default) to download, "inline" to show in the browser */
+  disposition?: "inline" | "attachment";
+  /** Name the browser gives the file */
+  filename?: string;
+  contentType?: string;
+}
+
 export interface StorageAdapter {
   put(key: string, body: Buffer | Readable, contentType?: string): Promise<void>;
   get(key: string): Promise<Readable | null>;
   delete(key: string): Promise<void>;
+  /** URL that serves the file without further auth for `ttlSeconds`, so clients fetch it directly instead of through the API. */
+  getSignedUrl(key: string, ttlSeconds: number, options?: SignedUrlOptions): Promise<string>;
 }
@@ -1,6 +1,8 @@
 import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
+import { getSignedUrl as presign } from "@aws-sdk/s3-request-presigner";
 import type { Readable } from "node:stream";
-import type { StorageAdapter } from "./interface.js";
+import type { SignedUrlOptions, StorageAdapter } from "./interface.js";
+import { contentDisposition } from "../services/fileType.js";
 
 const bucket = process.env.S3_BUCKET!;
 const region = process.env.S3_REGION ?? "us-east-1";
@@ -41,4 +43,15 @@ export const s3Storage: StorageAdapter = {
   async delete(key: string): Promise<void> {
     await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
   },
+  /** Presigned GET (S3 allows at most 7 days); the response headers are overridden through the signed query. */
+  async getSignedUrl(key: string, ttlSeconds: number, options: SignedUrlOptions = {}): Promise<string> {
+    const disposition = options.disposition ?? "attachment";
+    const command = new GetObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      ResponseContentDisposition: options.filename ? contentDisposition(disposition, options.filename) : disposition,
+      ResponseContentType: options.contentType,
+    });
+    return presign(client, command, { expiresIn: ttlSeconds });
+  },
 };
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { fileUrlSecret, signFilePath, verifySignedFile, type SignedFile } from "./signedUrl.js";
+
+const secret = "file-url-secret-for-tests-0123456789";
+const now = 1_760_000_000;
+const file: SignedFile = {
+  key: "tenants/acme/tickets/7/a b.pdf",
+  expires: now + 300,
+  disposition: "attachment",
+  filename: "Invoice März.pdf",
+  contentType: "application/pdf",
+};
+
+/** Split a signed path the way Express hands it to the /files route (decoded key, parsed query). */
+function parse(path: string): { key: string; query: Record<string, string> } {
+  const url = new URL(path, "http://api.test");
+  return {
+    key: decodeURIComponent(url.pathname.replace(/^\/files\//, "")),
+    query: Object.fromEntries(url.searchParams),
+  };
+}
+
+describe("signFilePath / verifySignedFile", () => {
+  it("round-trips a signed link until it expires", () => {
+    const path = signFilePath(secret, file);
+    expect(path).toMatch(/^\/files\/tenants\/acme\/tickets\/7\/a%20b\.pdf\?expires=1760000300&/);
+    const { key, query } = parse(path);
+    expect(verifySignedFile(secret, key, query, now)).toEqual(file);
+    expect(verifySignedFile(secret, key, query, now + 300)).toBeNull();
+  });
+
+  it("rejects another key, changed headers, a wrong secret and a missing signature", () => {
+    const { key, query } = parse(signFilePath(secret, file));
+    expect(verifySignedFile(secret, "tenants/other/tickets/7/a b.pdf", query, now)).toBeNull();
+    expect(verifySignedFile(secret, key, { ...query, disposition: "inline" }, now)).toBeNull();
+    expect(verifySignedFile(secret, key, { ...query, type: "text/html" }, now)).toBeNull();
+    expect(verifySignedFile(secret, key, { ...query, expires: String(now + 3600) }, now)).toBeNull();
+    expect(verifySignedFile("another-secret-of-at-least-32-chars", key, query, now)).toBeNull();
+    const { sig: _sig, ...unsigned } = query;
+    expect(verifySignedFile(secret, key, unsigned, now)).toBeNull();
+  });
+});
+
+describe("fileUrlSecret", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("uses FILE_URL_SECRET when it is set", () => {
+    vi.stubEnv("FILE_URL_SECRET", secret);
+    expect(fileUrlSecret()).toBe(secret);
+  });
+
+  it("otherwise derives a key from JWT_SECRET instead of reusing it", () => {
+    vi.stubEnv("FILE_URL_SECRET", "");
+    const derived = fileUrlSecret();
+    expect(derived).toMatch(/^[0-9a-f]{64}$/);
+    expect(derived).not.toBe(process.env.JWT_SECRET);
+    vi.stubEnv("JWT_SECRET", "another-jwt-secret-of-at-least-32-chars");
+    expect(fileUrlSecret()).not.toBe(derived);
+  });
+});
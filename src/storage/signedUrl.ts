@@ -0,0 +1,64 @@
+/**
+ * Signed links to files in local storage: what the filesystem adapter's getSignedUrl returns, served without
+ * auth by GET /files/<key>. The signature covers the key, the expiry and the response headers, so a link cannot
+ * be turned into one for another file, a later time or another Content-Type.
+ */
+
+import crypto from "node:crypto";
+import type { SignedUrlOptions } from "./interface.js";
+
+export interface SignedFile extends SignedUrlOptions {
+  key: string;
+  /** Unix seconds */
+  expires: number;
+  disposition: "inline" | "attachment";
+}
+
+/**
+ * Key for the file links: FILE_URL_SECRET, or else a key derived from JWT_SECRET (HMAC of "file-url"), so the
+ * file links and the access tokens never share a key.
+ */
+export function fileUrlSecret(): string {
+  if (process.env.FILE_URL_SECRET) return process.env.FILE_URL_SECRET;
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) throw new Error("FILE_URL_SECRET or JWT_SECRET must be set to sign file URLs");
+  return crypto.createHmac("sha256", jwtSecret).update("file-url").digest("hex");
+}
+
+/** Public base URL of this API, which the file links point at. */
+export function apiBaseUrl(): string {
+  return (process.env.API_URL ?? `http://localhost:${process.env.PORT ?? 4000}`).replace(/\/+$/, "");
+}
+
+function sign(secret: string, file: SignedFile): string {
+  const payload = JSON.stringify([file.key, file.expires, file.disposition, file.filename ?? "", file.contentType ?? ""]);
+  return crypto.createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+/** Path and query of a signed link (`/files/<key>?expires=&disposition=&filename=&type=&sig=`). */
+export function signFilePath(secret: string, file: SignedFile): string {
+  const query = new URLSearchParams({ expires: String(file.expires), disposition: file.disposition });
+  if (file.filename) query.set("filename", file.filename);
+  if (file.contentType) query.set("type", file.contentType);
+  query.set("sig", sign(secret, file));
+  return `/files/${file.key.split("/").map(encodeURIComponent).join("/")}?${query}`;
+}
+
+/** The file a link was signed for, or null when the signature is wrong or the link has expired. */
+export function verifySignedFile(
+  secret: string,
+  key: string,
+  query: Record<string, unknown>,
+  now = Math.floor(Date.now() / 1000)
+): SignedFile | null {
+  const param = (name: string) => (typeof query[name] === "string" ? (query[name] as string) : undefined);
+  const expires = Number(param("expires"));
+  const disposition = param("disposition");
+  const sig = param("sig");
+  if (!Number.isInteger(expires) || (disposition !== "inline" && disposition !== "attachment") || !sig) return null;
+  const file: SignedFile = { key, expires, disposition, filename: param("filename"), contentType: param("type") };
+  const expected = Buffer.from(sign(secret, file), "hex");
+  const given = Buffer.from(sig, "hex");
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return null;
+  return expires > now ? file : null;
+}
@@ -0,0 +1,17 @@
+import "dotenv/config";
+import { pool } from "./db/index.js";
+import { startJobWorker } from "./jobs/worker.js";
+
+const pollIntervalMs = process.env.JOB_POLL_INTERVAL_MS ? Number(process.env.JOB_POLL_INTERVAL_MS) : undefined;
+const worker = startJobWorker({ pollIntervalMs });
+console.log("komun-worker processing jobs");
+
+async function shutdown(signal: string): Promise<void> {
+  console.log(`komun-worker received ${signal}, finishing current jobs`);
+  await worker.stop();
+  await pool.end();
+  process.exit(0);
+}
+
+process.on("SIGINT", () => void shutdown("SIGINT"));
+process.on("SIGTERM", () => void shutdown("SIGTERM"));